@@ -0,0 +1,53 @@
+import type { Plugin } from 'vite';
+
+// =============================================================================
+// MOCK API PLUGIN
+// =============================================================================
+
+const API_PREFIX = '/api';
+const HANDLER_MODULE = '/src/api/mockHotelApi.ts';
+
+interface MockApiModule {
+  handleMockApiRequest: (
+    method: string,
+    pathname: string,
+    params: URLSearchParams
+  ) => Promise<{ status: number; body: unknown }>;
+}
+
+/**
+ * Serve the local mock REST API from the Vite dev server
+ * The handler is loaded through Vite so it shares code (and HMR) with the app
+ * @returns Plugin - Vite plugin mounting the API under /api
+ */
+export function mockApiPlugin(): Plugin {
+  return {
+    name: 'seattle-hotels-mock-api',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use(API_PREFIX, async (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+
+        try {
+          const { handleMockApiRequest } = (await server.ssrLoadModule(HANDLER_MODULE)) as MockApiModule;
+          const { status, body } = await handleMockApiRequest(
+            req.method ?? 'GET',
+            url.pathname,
+            url.searchParams
+          );
+
+          res.statusCode = status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(body));
+        } catch (error) {
+          server.config.logger.error(`Mock API error: ${String(error)}`);
+          res.statusCode = 500;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ data: null, success: false, error: 'Internal server error' }));
+        }
+      });
+    },
+  };
+}
+
+export default mockApiPlugin;
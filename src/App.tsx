@@ -1,16 +1,60 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { motion } from 'framer-motion';
 import HotelMap from './components/Map/HotelMap';
+import SearchAreaControl from './components/Map/SearchAreaControl';
 import LoadingScreen from './components/UI/LoadingScreen';
 import ErrorScreen from './components/UI/ErrorScreen';
+import NotFoundScreen from './components/UI/NotFoundScreen';
 import AppHeader from './components/Layout/AppHeader';
 import HotelInfoBar from './components/Hotel/HotelInfoBar';
+import HotelList, { HotelListToggle } from './components/Hotel/HotelList';
+import HotelDetailPage from './components/Hotel/HotelDetailPage';
+import DataQualityPage from './components/Debug/DataQualityPage';
+import SearchBox from './components/Search/SearchBox';
 import DebugPanel from './components/Debug/DebugPanel';
 import ClusteringDebug from './components/Debug/ClusteringDebug';
 import FilterPanel from './components/Filter/FilterPanel';
 import FilterButton, { FloatingFilterButton } from './components/Filter/FilterButton';
-import type { Hotel, HotelFilters } from './types/index';
-import { loadHotelData, filterHotels } from './utils/dataProcessor';
+import DatasetDropZone from './components/Import/DatasetDropZone';
+import ExportMenu from './components/Export/ExportMenu';
+import CurrencySelector from './components/Layout/CurrencySelector';
+import StayDatesPicker from './components/Layout/StayDatesPicker';
+import ShortlistDrawer, { ShortlistToggle } from './components/Favorites/ShortlistDrawer';
+import ComparisonPage from './components/Compare/ComparisonPage';
+import type { Hotel, MapBounds, Coordinates, Currency, FilterArea, RadiusFilter, HeatmapWeight, MarkerStyle } from './types/index';
+import { MARKER_STYLES, SORT_BY } from './types/index';
+import { loadHotelData, loadHotelDataReport, getHotelPrice } from './utils/dataProcessor';
+import { getAreaKey } from './utils/areaUtils';
+import { fetchAllHotels, USE_HOTEL_API } from './api/hotelApi';
+import { getUserLocation } from './utils/distanceUtils';
+import { resolveFavorites } from './utils/favoritesUtils';
+import { useDebounced } from './hooks/useDebounced';
+import { useUrlState, getInitialUrlMapView } from './hooks/useUrlState';
+import { useRoute } from './hooks/useRoute';
+import { useFilterHistoryShortcuts } from './hooks/useFilterHistoryShortcuts';
+import { navigate, DATA_QUALITY_PATH } from './utils/router';
+import {
+  useAppStore,
+  selectHotels,
+  selectFilteredHotels,
+  selectSelectedHotel,
+  selectHoveredHotel,
+  selectAppliedFilters,
+  selectDistanceReference,
+  selectFilterPanel,
+  selectActiveFiltersCount,
+  selectHasPendingChanges,
+  selectHasPendingFilters,
+  selectHasFilterChanges,
+  selectShouldShowBackdrop,
+  selectMapViewport,
+  selectIsLoading,
+  selectLoadError,
+  selectDataIssueCount,
+  selectDisplayCurrency,
+  selectStayDates,
+  selectFavorites,
+} from './store';
 
 // =============================================================================
 // APP CONFIGURATION
@@ -18,6 +62,7 @@ import { loadHotelData, filterHotels } from './utils/dataProcessor';
 
 const APP_TITLE = import.meta.env.VITE_APP_TITLE || 'Seattle Hotel Explorer';
 const DEBUG_MODE = true; // Temporarily enabled to verify CSS loading status
+const BUNDLED_DATA_SOURCE = 'Bundled dataset (seattle_hotel_data.json)';
 
 // =============================================================================
 // TYPES
@@ -27,6 +72,7 @@ interface DataStats {
   totalHotels: number;
   avgRating: number;
   priceRange: { min: number; max: number };
+  currency: Currency;
 }
 
 // =============================================================================
@@ -34,80 +80,103 @@ interface DataStats {
 // =============================================================================
 
 function App() {
-  // State management
-  const [hotels, setHotels] = useState<Hotel[]>([]);
-  const [selectedHotel, setSelectedHotel] = useState<Hotel | null>(null);
-  const [hoveredHotel, setHoveredHotel] = useState<Hotel | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [dataStats, setDataStats] = useState<DataStats | null>(null);
-  const [mapViewState, setMapViewState] = useState({
-    latitude: 47.6089,
-    longitude: -122.3345,
-    zoom: 12.5,
-  });
+  const route = useRoute();
+
+  // Store state
+  const hotels = useAppStore(selectHotels);
+  const filteredHotels = useAppStore(selectFilteredHotels);
+  const selectedHotel = useAppStore(selectSelectedHotel);
+  const hoveredHotel = useAppStore(selectHoveredHotel);
+  const appliedFilters = useAppStore(selectAppliedFilters);
+  const distanceReference = useAppStore(selectDistanceReference);
+  const filterPanel = useAppStore(selectFilterPanel);
+  const activeFiltersCount = useAppStore(selectActiveFiltersCount);
+  const hasPendingChanges = useAppStore(selectHasPendingChanges);
+  const hasPendingFilters = useAppStore(selectHasPendingFilters);
+  const hasFilterChanges = useAppStore(selectHasFilterChanges);
+  const shouldShowBackdrop = useAppStore(selectShouldShowBackdrop);
+  const mapViewport = useAppStore(selectMapViewport);
+  const isLoading = useAppStore(selectIsLoading);
+  const error = useAppStore(selectLoadError);
+  const dataIssueCount = useAppStore(selectDataIssueCount);
+  const displayCurrency = useAppStore(selectDisplayCurrency);
+  const stayDates = useAppStore(selectStayDates);
+  const favorites = useAppStore(selectFavorites);
+
+  // Store actions
+  const setHotels = useAppStore(state => state.setHotels);
+  const setSelectedHotel = useAppStore(state => state.setSelectedHotel);
+  const setHoveredHotel = useAppStore(state => state.setHoveredHotel);
+  const setMapViewport = useAppStore(state => state.setMapViewport);
+  const setDistanceReference = useAppStore(state => state.setDistanceReference);
+  const setLoading = useAppStore(state => state.setLoading);
+  const setError = useAppStore(state => state.setError);
+  const setDataQualityReport = useAppStore(state => state.setDataQualityReport);
+  const openFilterPanel = useAppStore(state => state.openFilterPanel);
+  const closeFilterPanel = useAppStore(state => state.closeFilterPanel);
+  const setPendingFilters = useAppStore(state => state.setPendingFilters);
+  const togglePreview = useAppStore(state => state.togglePreview);
+  const applyPendingFilters = useAppStore(state => state.applyPendingFilters);
+  const clearAllFilters = useAppStore(state => state.clearAllFilters);
+  const resetPendingFilters = useAppStore(state => state.resetPendingFilters);
+  const setFilters = useAppStore(state => state.setFilters);
+
+  // Local UI state
   const [showClusteringDebug, setShowClusteringDebug] = useState(false);
+  const [isResultsListOpen, setIsResultsListOpen] = useState(true);
+  const [isShortlistOpen, setIsShortlistOpen] = useState(false);
+  const [userLocation, setUserLocation] = useState<Coordinates | null>(null);
+
+  // Map position from the URL, read whenever the map view mounts
+  const isHomeRoute = route.name === 'home';
+  const initialMapView = useMemo(
+    () => (isHomeRoute ? getInitialUrlMapView() : null),
+    [isHomeRoute]
+  );
+
+  // Settled map center, used for distance sorting without a user location
+  const debouncedMapCenter = useDebounced(mapViewport.center, 500);
   const [enableClustering] = useState(true);
+  const [heatmapWeight, setHeatmapWeight] = useState<HeatmapWeight | null>(null);
+  const [markerStyle, setMarkerStyle] = useState<MarkerStyle>(MARKER_STYLES.Rating);
 
-  // Filter state - Enhanced with preview functionality
-  const [pendingFilters, setPendingFilters] = useState<HotelFilters>({});
-  const [appliedFilters, setAppliedFilters] = useState<HotelFilters>({});
-  const [originalFilters, setOriginalFilters] = useState<HotelFilters>({});
-  const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
-  const [showBackdrop, setShowBackdrop] = useState(true);
-  const [isPreviewing, setIsPreviewing] = useState(false);
-  const [isApplyingFilters, setIsApplyingFilters] = useState(false);
-
-  // Apply filters to hotels (only when appliedFilters changes)
-  const filteredHotels = useMemo(() => {
-    if (hotels.length === 0) return [];
-    return filterHotels(hotels, appliedFilters);
-  }, [hotels, appliedFilters]);
-
-  // Calculate preview count for pending filters
-  const previewCount = useMemo(() => {
-    if (hotels.length === 0) return 0;
-    return filterHotels(hotels, pendingFilters).length;
-  }, [hotels, pendingFilters]);
-
-  // Count active applied filters (for badge display)
-  const activeFiltersCount = useMemo(() => {
-    let count = 0;
-    
-    if (appliedFilters.priceRange) count++;
-    if (appliedFilters.ratingRange) count++;
-    if (appliedFilters.starRating && appliedFilters.starRating.length > 0) count++;
-    if (appliedFilters.amenities && appliedFilters.amenities.length > 0) count += appliedFilters.amenities.length;
-    if (appliedFilters.searchQuery && appliedFilters.searchQuery.trim()) count++;
-    
-    return count;
-  }, [appliedFilters]);
-
-  // Check if there are pending changes
-  const hasPendingChanges = useMemo(() => {
-    return JSON.stringify(pendingFilters) !== JSON.stringify(appliedFilters);
-  }, [pendingFilters, appliedFilters]);
-
-  // Check if pending filters are empty
-  const hasPendingFilters = useMemo(() => {
-    return Boolean(
-      pendingFilters.priceRange ||
-      pendingFilters.ratingRange ||
-      (pendingFilters.starRating && pendingFilters.starRating.length > 0) ||
-      (pendingFilters.amenities && pendingFilters.amenities.length > 0) ||
-      (pendingFilters.searchQuery && pendingFilters.searchQuery.trim())
-    );
-  }, [pendingFilters]);
+  // Shortlisted hotels, highlighted on the map
+  const favoriteHotelIds = useMemo(
+    () => new Set(favorites.map(favorite => favorite.hotelId)),
+    [favorites]
+  );
+
+  // Every loaded shortlisted hotel, in shortlist order, offered for export
+  const shortlistedHotels = useMemo(
+    () => resolveFavorites(favorites, hotels).flatMap(({ hotel }) => (hotel ? [hotel] : [])),
+    [favorites, hotels]
+  );
 
-  // Check if filters have changed from original baseline
-  const hasFilterChanges = useMemo(() => {
-    return JSON.stringify(pendingFilters) !== JSON.stringify(originalFilters);
-  }, [pendingFilters, originalFilters]);
+  // Calculate data statistics for the header
+  const dataStats = useMemo<DataStats | null>(() => {
+    if (hotels.length === 0) return null;
+
+    const totalHotels = hotels.length;
+    const avgRating = hotels.reduce((sum, hotel) => sum + hotel.rating, 0) / totalHotels;
+    const prices = hotels.map(hotel => getHotelPrice(hotel, displayCurrency));
+
+    return {
+      totalHotels,
+      avgRating,
+      priceRange: {
+        min: Math.floor(Math.min(...prices)),
+        max: Math.ceil(Math.max(...prices)),
+      },
+      currency: displayCurrency,
+    };
+  }, [hotels, displayCurrency]);
 
-  // Conditional backdrop visibility
-  const shouldShowBackdrop = useMemo(() => {
-    return isFilterPanelOpen && showBackdrop && !isPreviewing;
-  }, [isFilterPanelOpen, showBackdrop, isPreviewing]);
+  // Map view state in the shape the debug tools expect
+  const mapViewState = useMemo(() => ({
+    latitude: mapViewport.center.latitude,
+    longitude: mapViewport.center.longitude,
+    zoom: mapViewport.zoom,
+  }), [mapViewport]);
 
   // Data loading effect
   useEffect(() => {
@@ -115,14 +184,15 @@ function App() {
 
     const loadData = async () => {
       try {
-        setIsLoading(true);
+        setLoading(true);
         setError(null);
         
         if (DEBUG_MODE) {
           console.log('Loading hotel data...');
         }
 
-        const hotelData = await loadHotelData();
+        // Build against the API shape when the mock API is enabled
+        const hotelData = USE_HOTEL_API ? await fetchAllHotels() : await loadHotelData();
         
         if (!isMounted) return;
 
@@ -130,27 +200,15 @@ function App() {
           throw new Error('No hotel data found');
         }
 
-        // Calculate data statistics
-        const totalHotels = hotelData.length;
-        const avgRating = hotelData.reduce((sum, hotel) => sum + hotel.rating, 0) / totalHotels;
-        const prices = hotelData.map(hotel => 
-          typeof hotel.price_per_night === 'number' 
-            ? hotel.price_per_night 
-            : parseFloat(hotel.price_per_night.toString()) || 0
-        );
-        const priceRange = {
-          min: Math.min(...prices),
-          max: Math.max(...prices),
-        };
-
         setHotels(hotelData);
-        setDataStats({ totalHotels, avgRating, priceRange });
+
+        // The API validates server-side; the bundled file is checked here
+        if (!USE_HOTEL_API) {
+          setDataQualityReport(BUNDLED_DATA_SOURCE, await loadHotelDataReport());
+        }
         
         if (DEBUG_MODE) {
-          console.log(`Loaded ${hotelData.length} hotels`, {
-            avgRating: avgRating.toFixed(1),
-            priceRange,
-          });
+          console.log(`Loaded ${hotelData.length} hotels`);
         }
       } catch (err) {
         if (!isMounted) return;
@@ -160,7 +218,7 @@ function App() {
         console.error('Error loading hotel data:', err);
       } finally {
         if (isMounted) {
-          setIsLoading(false);
+          setLoading(false);
         }
       }
     };
@@ -170,7 +228,36 @@ function App() {
     return () => {
       isMounted = false;
     };
-  }, []);
+  }, [setHotels, setLoading, setError, setDataQualityReport]);
+
+  // Sync filters, viewport and selection with the URL once data is available
+  useUrlState(isHomeRoute && !isLoading && hotels.length > 0);
+  useFilterHistoryShortcuts(isHomeRoute && !isLoading);
+
+  // Ask for the user's location only once distance sorting is chosen, so visitors
+  // who never sort by distance get no permission prompt; the map center covers until then
+  const isDistanceSortChosen =
+    appliedFilters.sortBy === SORT_BY.Distance || filterPanel.pendingFilters.sortBy === SORT_BY.Distance;
+  const hasRequestedLocationRef = useRef(false);
+
+  useEffect(() => {
+    if (!isDistanceSortChosen || hasRequestedLocationRef.current) return;
+    hasRequestedLocationRef.current = true;
+
+    // Not cancelled when the sort changes again: the answer is still worth keeping
+    getUserLocation().then(location => {
+      if (location) setUserLocation(location);
+    });
+  }, [isDistanceSortChosen]);
+
+  // Distance sorting measures from the user when known, else from the map center
+  useEffect(() => {
+    setDistanceReference(
+      userLocation
+        ? { coordinates: userLocation, source: 'user-location' }
+        : { coordinates: debouncedMapCenter, source: 'map-center' }
+    );
+  }, [userLocation, debouncedMapCenter, setDistanceReference]);
 
   // Hotel interaction handlers
   const handleHotelSelect = useCallback((hotel: Hotel) => {
@@ -178,117 +265,79 @@ function App() {
     if (DEBUG_MODE) {
       console.log('Selected hotel:', hotel.name);
     }
-  }, []);
-
-  const handleHotelHover = useCallback((hotel: Hotel | null) => {
-    setHoveredHotel(hotel);
-  }, []);
+  }, [setSelectedHotel]);
+
+  // Drawn areas add to any existing ones; hotels inside any area match
+  const handleAreaDrawn = useCallback((area: FilterArea) => {
+    const areas = appliedFilters.areas ?? [];
+    if (areas.some(existing => getAreaKey(existing) === getAreaKey(area))) return;
+    setFilters({ ...appliedFilters, areas: [...areas, area] });
+  }, [appliedFilters, setFilters]);
+
+  const handleNearChange = useCallback((near: RadiusFilter | null) => {
+    const newFilters = { ...appliedFilters };
+    if (near) {
+      newFilters.near = near;
+    } else {
+      delete newFilters.near;
+    }
+    setFilters(newFilters);
+  }, [appliedFilters, setFilters]);
 
   const handleClearSelection = useCallback(() => {
     setSelectedHotel(null);
-  }, []);
+  }, [setSelectedHotel]);
 
   const handleRetry = useCallback(() => {
     window.location.reload();
   }, []);
 
-  const handleMapViewStateChange = useCallback((newViewState: { latitude: number; longitude: number; zoom: number }) => {
-    setMapViewState(newViewState);
+  const handleGoHome = useCallback(() => {
+    navigate('/');
+  }, []);
+
+  const handleMapViewStateChange = useCallback((
+    newViewState: { latitude: number; longitude: number; zoom: number },
+    bounds?: MapBounds
+  ) => {
+    setMapViewport({
+      center: { latitude: newViewState.latitude, longitude: newViewState.longitude },
+      zoom: newViewState.zoom,
+      bounds: bounds ?? useAppStore.getState().map.viewport.bounds,
+    });
+  }, [setMapViewport]);
+
+  const handleToggleResultsList = useCallback(() => {
+    setIsResultsListOpen(prev => !prev);
+  }, []);
+
+  const handleCloseResultsList = useCallback(() => {
+    setIsResultsListOpen(false);
+  }, []);
+
+  const handleToggleShortlist = useCallback(() => {
+    setIsShortlistOpen(prev => !prev);
+  }, []);
+
+  const handleCloseShortlist = useCallback(() => {
+    setIsShortlistOpen(false);
+  }, []);
+
+  const handleShowDataQuality = useCallback(() => {
+    navigate(DATA_QUALITY_PATH);
   }, []);
 
   const handleToggleClusteringDebug = useCallback(() => {
     setShowClusteringDebug(prev => !prev);
   }, []);
 
-  // Filter panel handlers
-  const handleOpenFilterPanel = useCallback(() => {
-    // Save current applied filters as baseline when opening panel
-    setOriginalFilters(appliedFilters);
-    setIsFilterPanelOpen(true);
-    setShowBackdrop(true);
-    setIsPreviewing(false);
-  }, [appliedFilters]);
-
-  const handleCloseFilterPanel = useCallback(() => {
-    setIsFilterPanelOpen(false);
-    setShowBackdrop(false);
-    setIsPreviewing(false);
-    // Reset pending filters to applied filters when closing without applying
-    setPendingFilters(appliedFilters);
-  }, [appliedFilters]);
-
-  // Handle pending filter changes (update UI immediately, don't filter hotels)
-  const handlePendingFiltersChange = useCallback((newFilters: HotelFilters) => {
-    setPendingFilters(newFilters);
-    if (DEBUG_MODE) {
-      console.log('Pending filters changed:', newFilters);
-      console.log('Preview count:', filterHotels(hotels, newFilters).length);
-    }
-  }, [hotels]);
-
-  // Preview functionality
-  const handlePreview = useCallback(() => {
-    if (!isPreviewing) {
-      // Enter preview mode
-      setAppliedFilters(pendingFilters);
-      setShowBackdrop(false);
-      setIsPreviewing(true);
-      
-      if (DEBUG_MODE) {
-        console.log('Preview mode activated:', pendingFilters);
-      }
-    } else {
-      // Exit preview mode
-      setAppliedFilters(originalFilters);
-      setShowBackdrop(true);
-      setIsPreviewing(false);
-      
-      if (DEBUG_MODE) {
-        console.log('Preview mode deactivated, reverted to:', originalFilters);
-      }
-    }
-  }, [isPreviewing, pendingFilters, originalFilters]);
-
-  // Apply pending filters (filter hotels and close panel)
-  const handleApplyFilters = useCallback(async () => {
-    setIsApplyingFilters(true);
-    
-    // Add a small delay for visual feedback
-    await new Promise(resolve => setTimeout(resolve, 300));
-    
-    // Apply filters permanently
-    setAppliedFilters(pendingFilters);
-    setOriginalFilters(pendingFilters);
-    setIsApplyingFilters(false);
-    
-    // Close filter panel completely
-    setIsFilterPanelOpen(false);
-    setShowBackdrop(false);
-    setIsPreviewing(false);
-    
-    if (DEBUG_MODE) {
-      console.log('Filters applied and panel closed:', pendingFilters);
-      console.log('Filtered hotels count:', filterHotels(hotels, pendingFilters).length);
-    }
-  }, [pendingFilters, hotels]);
-
-  // Clear all filters
-  const handleClearAllFilters = useCallback(() => {
-    setPendingFilters({});
-    setAppliedFilters({});
-    setOriginalFilters({});
-    
-    if (DEBUG_MODE) {
-      console.log('All filters cleared');
+  // Log applied filter changes
+  useEffect(() => {
+    if (DEBUG_MODE && hotels.length > 0) {
+      console.log('Applied filters:', appliedFilters);
+      console.log('Filtered hotels count:', filteredHotels.length);
     }
-  }, []);
-
-  // Reset pending filters to applied filters (cancel changes)
-  const handleResetPendingFilters = useCallback(() => {
-    setPendingFilters(appliedFilters);
-    setIsPreviewing(false);
-    setShowBackdrop(true);
-  }, [appliedFilters]);
+  }, [appliedFilters, filteredHotels.length, hotels.length]);
 
   // Loading state
   if (isLoading) {
@@ -300,6 +349,26 @@ function App() {
     return <ErrorScreen error={error} onRetry={handleRetry} />;
   }
 
+  // Hotel detail page
+  if (route.name === 'hotel') {
+    return <HotelDetailPage hotelId={route.hotelId} appTitle={APP_TITLE} />;
+  }
+
+  // Side-by-side comparison
+  if (route.name === 'compare') {
+    return <ComparisonPage hotelIds={route.hotelIds} appTitle={APP_TITLE} />;
+  }
+
+  // Data quality report
+  if (route.name === 'data-quality') {
+    return <DataQualityPage appTitle={APP_TITLE} />;
+  }
+
+  // Unknown path
+  if (route.name === 'not-found') {
+    return <NotFoundScreen onBack={handleGoHome} />;
+  }
+
   // Main app render
   return (
     <div className="h-screen flex flex-col bg-gray-50">
@@ -309,71 +378,136 @@ function App() {
         subtitle={`Discover amazing stays in Seattle • ${filteredHotels.length} hotels found`}
         stats={dataStats}
       >
+        {/* Hotel Search */}
+        <SearchBox className="hidden sm:block" />
+
+        {/* Results List Toggle */}
+        <HotelListToggle
+          isOpen={isResultsListOpen}
+          onClick={handleToggleResultsList}
+        />
+
+        {/* Shortlist Toggle */}
+        <ShortlistToggle
+          isOpen={isShortlistOpen}
+          onClick={handleToggleShortlist}
+        />
+
+        {/* Stay Dates */}
+        <StayDatesPicker className="hidden lg:inline-flex" />
+
+        {/* Display Currency */}
+        <CurrencySelector className="hidden sm:inline-flex" />
+
+        {/* Export Applied Results */}
+        <ExportMenu
+          hotels={filteredHotels}
+          selectedHotel={selectedHotel}
+          shortlist={shortlistedHotels}
+          title={APP_TITLE}
+        />
+
         {/* Filter Button in Header */}
         <FilterButton
-          onClick={handleOpenFilterPanel}
+          onClick={openFilterPanel}
           activeFiltersCount={activeFiltersCount}
-          isOpen={isFilterPanelOpen}
+          isOpen={filterPanel.isOpen}
           variant="secondary"
           size="md"
+          showPresets
         />
       </AppHeader>
 
-      {/* Map Container with Overlay Info Bar */}
-      <motion.main
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        transition={{ delay: 0.2 }}
-        className={`flex-1 relative ${selectedHotel ? 'has-info-bar' : ''}`}
-      >
-        <HotelMap
-          hotels={filteredHotels}
-          selectedHotel={selectedHotel}
-          onHotelSelect={handleHotelSelect}
-          onHotelHover={handleHotelHover}
-          showPopup={true}
-          enableClustering={enableClustering}
-          onMapViewStateChange={handleMapViewStateChange}
-          className="w-full h-full"
-        />
-        
-        {/* Hotel Info Bar as Overlay */}
-        <HotelInfoBar 
-          hotel={selectedHotel}
-          onClose={handleClearSelection}
+      <div className="flex-1 flex min-h-0">
+        {/* Results List */}
+        <HotelList
+          isOpen={isResultsListOpen}
+          onClose={handleCloseResultsList}
         />
 
-        {/* Mobile Floating Filter Button */}
-        <div className="md:hidden">
-          <FloatingFilterButton
-            onClick={handleOpenFilterPanel}
-            activeFiltersCount={activeFiltersCount}
-            isOpen={isFilterPanelOpen}
-            position="bottom-right"
+        {/* Map Container with Overlay Info Bar */}
+        <motion.main
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.2 }}
+          className={`flex-1 relative ${selectedHotel ? 'has-info-bar' : ''}`}
+        >
+          <HotelMap
+            hotels={filteredHotels}
+            initialViewState={initialMapView}
+            selectedHotel={selectedHotel}
+            hoveredHotel={hoveredHotel}
+            favoriteHotelIds={favoriteHotelIds}
+            areas={appliedFilters.areas}
+            onAreaDrawn={handleAreaDrawn}
+            near={appliedFilters.near}
+            onNearChange={handleNearChange}
+            userLocation={userLocation}
+            onUserLocate={setUserLocation}
+            onHotelSelect={handleHotelSelect}
+            onHotelHover={setHoveredHotel}
+            showPopup={true}
+            enableClustering={enableClustering}
+            heatmapWeight={heatmapWeight}
+            onHeatmapWeightChange={setHeatmapWeight}
+            markerStyle={markerStyle}
+            onMarkerStyleChange={setMarkerStyle}
+            onMapViewStateChange={handleMapViewStateChange}
+            className="w-full h-full"
           />
-        </div>
-      </motion.main>
+
+          {/* Search This Area */}
+          <div className="map-overlay-top absolute top-4 left-1/2 -translate-x-1/2 z-[5]">
+            <SearchAreaControl />
+          </div>
+        
+          {/* Hotel Info Bar as Overlay */}
+          <HotelInfoBar 
+            hotel={selectedHotel}
+            onClose={handleClearSelection}
+          />
+
+          {/* Mobile Floating Filter Button */}
+          <div className="md:hidden">
+            <FloatingFilterButton
+              onClick={openFilterPanel}
+              activeFiltersCount={activeFiltersCount}
+              isOpen={filterPanel.isOpen}
+              position="bottom-right"
+            />
+          </div>
+        </motion.main>
+
+        {/* Shortlist */}
+        <ShortlistDrawer
+          isOpen={isShortlistOpen}
+          onClose={handleCloseShortlist}
+        />
+      </div>
 
       {/* Filter Panel */}
       <FilterPanel
-        isOpen={isFilterPanelOpen}
-        onClose={handleCloseFilterPanel}
+        isOpen={filterPanel.isOpen}
+        onClose={closeFilterPanel}
         hotels={hotels}
-        pendingFilters={pendingFilters}
+        pendingFilters={filterPanel.pendingFilters}
         appliedFilters={appliedFilters}
-        originalFilters={originalFilters}
-        onPendingFiltersChange={handlePendingFiltersChange}
-        onApplyFilters={handleApplyFilters}
-        onClearAllFilters={handleClearAllFilters}
-        onResetPendingFilters={handleResetPendingFilters}
-        onPreview={handlePreview}
-        previewCount={previewCount}
-        isApplyingFilters={isApplyingFilters}
+        originalFilters={filterPanel.originalFilters}
+        onPendingFiltersChange={setPendingFilters}
+        onApplyFilters={applyPendingFilters}
+        onClearAllFilters={clearAllFilters}
+        onResetPendingFilters={resetPendingFilters}
+        onPreview={togglePreview}
+        previewCount={filterPanel.previewCount}
+        isApplyingFilters={filterPanel.isApplying}
         hasPendingChanges={hasPendingChanges}
         hasPendingFilters={hasPendingFilters}
         hasFilterChanges={hasFilterChanges}
-        isPreviewing={isPreviewing}
+        isPreviewing={filterPanel.isPreviewing}
         showBackdrop={shouldShowBackdrop}
+        distanceReference={distanceReference}
+        displayCurrency={displayCurrency}
+        stay={stayDates}
       />
 
       {/* Debug Panel */}
@@ -382,8 +516,13 @@ function App() {
         selectedHotel={selectedHotel}
         hoveredHotel={hoveredHotel}
         debugMode={DEBUG_MODE}
+        dataIssueCount={dataIssueCount}
+        onShowDataQuality={handleShowDataQuality}
       />
 
+      {/* CSV / GeoJSON Import */}
+      <DatasetDropZone loadedCount={hotels.length} />
+
       {/* Clustering Debug */}
       <ClusteringDebug
         hotels={filteredHotels}
@@ -0,0 +1,115 @@
+import type { Hotel, HotelFilters, Coordinates, StayDates, ApiResponse, HotelApiResponse } from '../types/index';
+import { toHotelQueryParams, MAX_PAGE_LIMIT, DEFAULT_PAGE_LIMIT } from './hotelQuery';
+
+// =============================================================================
+// API CONFIGURATION
+// =============================================================================
+
+// Served by the mock API plugin in dev; point at the real backend when it lands
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+
+export const USE_HOTEL_API = import.meta.env.VITE_USE_MOCK_API === 'true';
+
+// =============================================================================
+// REQUEST OPTIONS
+// =============================================================================
+
+export interface FetchHotelsOptions {
+  page?: number;
+  limit?: number;
+  referencePoint?: Coordinates | null;
+  stay?: StayDates | null;
+  signal?: AbortSignal;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Fetch JSON and unwrap API errors
+ */
+async function requestJson<T extends ApiResponse<unknown>>(
+  path: string,
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    headers: { Accept: 'application/json' },
+    signal,
+  });
+
+  let body: T;
+  try {
+    body = await response.json();
+  } catch {
+    throw new Error(`Invalid response from ${path} (${response.status})`);
+  }
+
+  if (!response.ok || !body.success) {
+    throw new Error(body.error || `Request to ${path} failed (${response.status})`);
+  }
+
+  return body;
+}
+
+// =============================================================================
+// HOTEL ENDPOINTS
+// =============================================================================
+
+/**
+ * Fetch one page of hotels matching the filters
+ * @param filters - Filter criteria, applied server-side
+ * @param options - Paging, distance reference, stay dates and abort signal
+ * @returns Promise<HotelApiResponse> - Page of hotels with totals
+ */
+export function fetchHotels(
+  filters: HotelFilters = {},
+  { page = 1, limit = DEFAULT_PAGE_LIMIT, referencePoint, stay, signal }: FetchHotelsOptions = {}
+): Promise<HotelApiResponse> {
+  const params = toHotelQueryParams({ filters, page, limit, referencePoint, stay });
+  return requestJson<HotelApiResponse>(`/hotels?${params.toString()}`, signal);
+}
+
+/**
+ * Fetch every hotel matching the filters by walking all pages
+ * @param filters - Filter criteria, applied server-side
+ * @param options - Distance reference, stay dates and abort signal
+ * @returns Promise<Hotel[]> - All matching hotels
+ */
+export async function fetchAllHotels(
+  filters: HotelFilters = {},
+  { referencePoint, stay, signal }: Omit<FetchHotelsOptions, 'page' | 'limit'> = {}
+): Promise<Hotel[]> {
+  const hotels: Hotel[] = [];
+  let page = 1;
+  let total = Infinity;
+
+  while (hotels.length < total) {
+    const response = await fetchHotels(filters, {
+      page,
+      limit: MAX_PAGE_LIMIT,
+      referencePoint,
+      stay,
+      signal,
+    });
+
+    hotels.push(...response.data);
+    total = response.total;
+
+    if (response.data.length === 0) break;
+    page++;
+  }
+
+  return hotels;
+}
+
+/**
+ * Fetch a single hotel by id
+ * @param hotelId - Hotel identifier
+ * @param signal - Optional abort signal
+ * @returns Promise<Hotel> - Hotel details
+ */
+export async function fetchHotel(hotelId: number, signal?: AbortSignal): Promise<Hotel> {
+  const response = await requestJson<ApiResponse<Hotel>>(`/hotels/${hotelId}`, signal);
+  return response.data;
+}
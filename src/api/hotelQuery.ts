@@ -0,0 +1,199 @@
+import type { HotelFilters, Amenity, Coordinates, SortBy, SortOrder, FilterArea, StayDates } from '../types/index';
+import { AMENITIES, SORT_BY, SORT_ORDER } from '../types/index';
+import {
+  encodeArea,
+  decodeArea,
+  encodeBounds,
+  decodeBounds,
+  encodeRadiusFilter,
+  decodeRadiusFilter,
+} from '../utils/areaUtils';
+import { getPointOfInterest } from '../utils/poiUtils';
+import { isValidStay } from '../utils/stayUtils';
+
+// =============================================================================
+// QUERY TYPES
+// =============================================================================
+
+export interface HotelQuery {
+  filters: HotelFilters;
+  page: number;
+  limit: number;
+  referencePoint?: Coordinates | null; // Needed for distance sorting
+  stay?: StayDates | null;             // Prices the stay instead of the base rate
+}
+
+// =============================================================================
+// PAGING CONFIGURATION
+// =============================================================================
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const AMENITY_VALUES = Object.values(AMENITIES) as string[];
+const SORT_BY_VALUES = Object.values(SORT_BY) as string[];
+const SORT_ORDER_VALUES = Object.values(SORT_ORDER) as string[];
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function parseList(value: string | null): string[] {
+  if (!value) return [];
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Clamp a paging value to a positive integer
+ */
+function parsePositiveInt(value: string | null, fallback: number, max = Infinity): number {
+  const parsed = parseNumber(value);
+  if (parsed === undefined || parsed < 1) return fallback;
+  return Math.min(Math.floor(parsed), max);
+}
+
+// =============================================================================
+// ENCODE / DECODE
+// =============================================================================
+
+/**
+ * Convert filters and paging into `/hotels` query parameters
+ * Parameter names mirror the HotelFilters fields; each drawn area is its own `area` parameter
+ * @param query - Filters and paging
+ * @returns URLSearchParams - Query parameters
+ */
+export function toHotelQueryParams(query: HotelQuery): URLSearchParams {
+  const { filters, page, limit, referencePoint, stay } = query;
+  const params = new URLSearchParams();
+
+  if (filters.priceRange) {
+    params.set('minPrice', filters.priceRange.min.toString());
+    params.set('maxPrice', filters.priceRange.max.toString());
+  }
+  if (filters.ratingRange) {
+    params.set('minRating', filters.ratingRange.min.toString());
+    params.set('maxRating', filters.ratingRange.max.toString());
+  }
+  if (filters.starRating && filters.starRating.length > 0) {
+    params.set('starRating', filters.starRating.join(','));
+  }
+  if (filters.amenities && filters.amenities.length > 0) {
+    params.set('amenities', filters.amenities.join(','));
+  }
+  filters.areas?.forEach(area => {
+    params.append('area', encodeArea(area));
+  });
+  if (filters.bounds) {
+    params.set('bounds', encodeBounds(filters.bounds));
+  }
+  if (filters.near) {
+    params.set('near', encodeRadiusFilter(filters.near));
+  }
+  if (filters.searchQuery && filters.searchQuery.trim()) {
+    params.set('searchQuery', filters.searchQuery.trim());
+  }
+  if (filters.sortBy) {
+    params.set('sortBy', filters.sortBy);
+  }
+  if (filters.sortOrder) {
+    params.set('sortOrder', filters.sortOrder);
+  }
+  if (filters.sortBy === SORT_BY.Distance && filters.distanceFromPoi) {
+    params.set('distanceFromPoi', filters.distanceFromPoi);
+  }
+
+  if (referencePoint) {
+    params.set('lat', referencePoint.latitude.toString());
+    params.set('lng', referencePoint.longitude.toString());
+  }
+  if (stay) {
+    params.set('checkIn', stay.checkIn);
+    params.set('checkOut', stay.checkOut);
+  }
+
+  params.set('page', page.toString());
+  params.set('limit', limit.toString());
+
+  return params;
+}
+
+/**
+ * Parse `/hotels` query parameters back into filters and paging
+ * Unknown values are dropped; ranges and stays need both ends
+ * @param params - Request query parameters
+ * @returns HotelQuery - Filters and paging
+ */
+export function parseHotelQueryParams(params: URLSearchParams): HotelQuery {
+  const filters: HotelFilters = {};
+
+  const minPrice = parseNumber(params.get('minPrice'));
+  const maxPrice = parseNumber(params.get('maxPrice'));
+  if (minPrice !== undefined && maxPrice !== undefined) {
+    filters.priceRange = { min: minPrice, max: maxPrice };
+  }
+
+  const minRating = parseNumber(params.get('minRating'));
+  const maxRating = parseNumber(params.get('maxRating'));
+  if (minRating !== undefined && maxRating !== undefined) {
+    filters.ratingRange = { min: minRating, max: maxRating };
+  }
+
+  const starRating = parseList(params.get('starRating'))
+    .map(Number)
+    .filter(star => Number.isInteger(star) && star >= 1 && star <= 5);
+  if (starRating.length > 0) filters.starRating = starRating;
+
+  const amenities = parseList(params.get('amenities'))
+    .filter((amenity): amenity is Amenity => AMENITY_VALUES.includes(amenity));
+  if (amenities.length > 0) filters.amenities = amenities;
+
+  const areas = params.getAll('area')
+    .map(decodeArea)
+    .filter((area): area is FilterArea => area !== null);
+  if (areas.length > 0) filters.areas = areas;
+
+  const bounds = params.get('bounds');
+  const box = bounds ? decodeBounds(bounds) : null;
+  if (box) filters.bounds = box;
+
+  const near = params.get('near');
+  const radiusFilter = near ? decodeRadiusFilter(near) : null;
+  if (radiusFilter) filters.near = radiusFilter;
+
+  const searchQuery = params.get('searchQuery');
+  if (searchQuery && searchQuery.trim()) filters.searchQuery = searchQuery.trim();
+
+  const sortBy = params.get('sortBy');
+  if (sortBy && SORT_BY_VALUES.includes(sortBy)) filters.sortBy = sortBy as SortBy;
+
+  const sortOrder = params.get('sortOrder');
+  if (sortOrder && SORT_ORDER_VALUES.includes(sortOrder)) filters.sortOrder = sortOrder as SortOrder;
+
+  const distanceFromPoi = params.get('distanceFromPoi');
+  if (distanceFromPoi && filters.sortBy === SORT_BY.Distance && getPointOfInterest(distanceFromPoi)) {
+    filters.distanceFromPoi = distanceFromPoi;
+  }
+
+  const latitude = parseNumber(params.get('lat'));
+  const longitude = parseNumber(params.get('lng'));
+
+  const checkIn = params.get('checkIn');
+  const checkOut = params.get('checkOut');
+  const stay = checkIn && checkOut ? { checkIn, checkOut } : null;
+
+  return {
+    filters,
+    referencePoint: latitude !== undefined && longitude !== undefined
+      ? { latitude, longitude }
+      : null,
+    stay: stay && isValidStay(stay) ? stay : null,
+    page: parsePositiveInt(params.get('page'), 1),
+    limit: parsePositiveInt(params.get('limit'), DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT),
+  };
+}
@@ -0,0 +1,91 @@
+import type { Hotel, ApiResponse, HotelApiResponse } from '../types/index';
+import { loadHotelData, filterHotels } from '../utils/dataProcessor';
+import { parseHotelQueryParams } from './hotelQuery';
+
+// =============================================================================
+// MOCK API TYPES
+// =============================================================================
+
+export interface MockApiResult {
+  status: number;
+  body: HotelApiResponse | ApiResponse<Hotel | null>;
+}
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+const HOTELS_ROUTE = /^\/hotels\/?$/;
+const HOTEL_ROUTE = /^\/hotels\/(\d+)\/?$/;
+
+const errorResult = (status: number, error: string): MockApiResult => ({
+  status,
+  body: { data: null, success: false, error },
+});
+
+/**
+ * GET /hotels - filtered, sorted and paginated hotel list
+ */
+async function listHotels(params: URLSearchParams): Promise<MockApiResult> {
+  const { filters, page, limit, referencePoint, stay } = parseHotelQueryParams(params);
+  const hotels = await loadHotelData();
+  const matches = filterHotels(hotels, filters, { referencePoint, stay });
+  const start = (page - 1) * limit;
+
+  return {
+    status: 200,
+    body: {
+      data: matches.slice(start, start + limit),
+      success: true,
+      total: matches.length,
+      page,
+      limit,
+    },
+  };
+}
+
+/**
+ * GET /hotels/:id - single hotel
+ */
+async function getHotel(hotelId: number): Promise<MockApiResult> {
+  const hotels = await loadHotelData();
+  const hotel = hotels.find(h => h.hotel_id === hotelId);
+
+  if (!hotel) {
+    return errorResult(404, `Hotel ${hotelId} not found`);
+  }
+  return { status: 200, body: { data: hotel, success: true } };
+}
+
+/**
+ * Handle a mock API request
+ * Runs in the dev server, reusing the same filtering code as the client
+ * @param method - HTTP method
+ * @param pathname - Path relative to the API base, e.g. "/hotels"
+ * @param params - Query parameters
+ * @returns Promise<MockApiResult> - Status code and JSON body
+ */
+export async function handleMockApiRequest(
+  method: string,
+  pathname: string,
+  params: URLSearchParams
+): Promise<MockApiResult> {
+  if (method !== 'GET') {
+    return errorResult(405, `Method ${method} not allowed`);
+  }
+
+  try {
+    if (HOTELS_ROUTE.test(pathname)) {
+      return await listHotels(params);
+    }
+
+    const hotelMatch = pathname.match(HOTEL_ROUTE);
+    if (hotelMatch) {
+      return await getHotel(Number(hotelMatch[1]));
+    }
+
+    return errorResult(404, `No route for ${pathname}`);
+  } catch (error) {
+    return errorResult(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
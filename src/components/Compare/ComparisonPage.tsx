@@ -0,0 +1,338 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, X, Check, Minus, Star, Navigation, Plus } from 'lucide-react';
+import type { Coordinates, Hotel } from '../../types/index';
+import { cn } from '../../utils/cn';
+import { getColorInfo, getHotelMarkerColor } from '../../utils/colorUtils';
+import { getUserLocation, formatDistance } from '../../utils/distanceUtils';
+import { navigate, getHomeUrl, getHotelPath, getComparePath } from '../../utils/router';
+import {
+  MIN_COMPARED_HOTELS,
+  MAX_COMPARED_HOTELS,
+  COMPARISON_AMENITIES,
+  COMPARISON_DIRECTIONS,
+  getComparisonValues,
+  getBestIndices,
+  type ComparisonValues,
+} from '../../utils/comparisonUtils';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import { useAppStore, selectHotels, selectMapViewport } from '../../store';
+import NotFoundScreen from '../UI/NotFoundScreen';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface ComparisonPageProps {
+  hotelIds: number[];
+  appTitle: string;
+}
+
+type ReferenceOption = 'map-center' | 'user-location';
+
+interface ComparisonRowProps {
+  label: string;
+  cells: ReactNode[];
+  best?: Set<number>;
+}
+
+// =============================================================================
+// TABLE ROW
+// =============================================================================
+
+function ComparisonRow({ label, cells, best }: ComparisonRowProps) {
+  return (
+    <tr className="border-t border-gray-100">
+      <th scope="row" className="py-3 pr-4 text-left text-sm font-medium text-gray-700 whitespace-nowrap">
+        {label}
+      </th>
+      {cells.map((cell, index) => (
+        <td
+          key={index}
+          className={cn(
+            'py-3 px-3 text-sm text-center text-gray-900',
+            best?.has(index) && 'bg-emerald-50 font-semibold text-emerald-700'
+          )}
+        >
+          {cell}
+        </td>
+      ))}
+    </tr>
+  );
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export default function ComparisonPage({ hotelIds, appTitle }: ComparisonPageProps) {
+  const allHotels = useAppStore(selectHotels);
+  const mapCenter = useAppStore(selectMapViewport).center;
+  const { currency, stay, formatHotelPrice, formatStayTotal } = usePriceFormatter();
+
+  const [referenceOption, setReferenceOption] = useState<ReferenceOption>('map-center');
+  const [userLocation, setUserLocation] = useState<Coordinates | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  // Keep the requested column order; ids missing from the dataset are reported
+  const hotels = useMemo(() => {
+    const hotelsById = new Map(allHotels.map(hotel => [hotel.hotel_id, hotel]));
+    return hotelIds
+      .map(id => hotelsById.get(id))
+      .filter((hotel): hotel is Hotel => hotel !== undefined)
+      .slice(0, MAX_COMPARED_HOTELS);
+  }, [allHotels, hotelIds]);
+
+  const missingCount = hotelIds.filter(id => !allHotels.some(hotel => hotel.hotel_id === id)).length;
+
+  const referencePoint = referenceOption === 'user-location' ? userLocation : mapCenter;
+
+  const values = useMemo<ComparisonValues[]>(
+    () => hotels.map(hotel => getComparisonValues(hotel, currency, stay, referencePoint)),
+    [hotels, currency, stay, referencePoint]
+  );
+
+  const bestFor = useCallback(
+    (key: keyof ComparisonValues) => getBestIndices(values.map(value => value[key]), COMPARISON_DIRECTIONS[key]),
+    [values]
+  );
+
+  // Reflect the comparison in the browser tab
+  useEffect(() => {
+    const previousTitle = document.title;
+    document.title = `Compare hotels · ${appTitle}`;
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [appTitle]);
+
+  const handleBackToMap = useCallback(() => {
+    navigate(getHomeUrl());
+  }, []);
+
+  const handleReferenceChange = useCallback(async (option: ReferenceOption) => {
+    setReferenceOption(option);
+    if (option !== 'user-location' || userLocation) return;
+
+    setIsLocating(true);
+    const location = await getUserLocation();
+    setIsLocating(false);
+
+    if (location) {
+      setUserLocation(location);
+    } else {
+      setReferenceOption('map-center');
+    }
+  }, [userLocation]);
+
+  const handleRemove = useCallback((hotelId: number) => {
+    const remaining = hotels.map(hotel => hotel.hotel_id).filter(id => id !== hotelId);
+    if (remaining.length === 0) {
+      navigate(getHomeUrl());
+      return;
+    }
+    navigate(getComparePath(remaining), { replace: true });
+  }, [hotels]);
+
+  const handleAdd = useCallback((hotelId: number) => {
+    navigate(getComparePath([...hotels.map(hotel => hotel.hotel_id), hotelId]), { replace: true });
+  }, [hotels]);
+
+  const addableHotels = useMemo(
+    () => allHotels
+      .filter(hotel => !hotels.some(compared => compared.hotel_id === hotel.hotel_id))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [allHotels, hotels]
+  );
+
+  if (hotels.length === 0) {
+    return (
+      <NotFoundScreen
+        title="Nothing to Compare"
+        message="None of these hotels are in the current dataset."
+        onBack={handleBackToMap}
+      />
+    );
+  }
+
+  return (
+    <div className="h-screen overflow-y-auto bg-gray-50">
+      {/* Top Bar */}
+      <div className="sticky top-0 z-10 bg-white/90 backdrop-blur border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-4 py-3 flex items-center justify-between">
+          <button
+            onClick={handleBackToMap}
+            className="flex items-center space-x-2 text-sm font-medium text-gray-700 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back to map</span>
+          </button>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <Navigation className="h-4 w-4 text-gray-500" />
+            <span>Distance from</span>
+            <select
+              value={referenceOption}
+              onChange={(event) => handleReferenceChange(event.target.value as ReferenceOption)}
+              disabled={isLocating}
+              className="border border-gray-300 rounded-lg px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="map-center">Map center</option>
+              <option value="user-location">{isLocating ? 'Locating…' : 'My location'}</option>
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 12 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="max-w-6xl mx-auto px-4 py-6 space-y-4"
+      >
+        <div className="flex items-baseline justify-between gap-4">
+          <h1 className="text-2xl font-bold text-gray-900">Compare hotels</h1>
+          {hotels.length < MIN_COMPARED_HOTELS && (
+            <p className="text-sm text-gray-500">Add another hotel to compare</p>
+          )}
+        </div>
+
+        {missingCount > 0 && (
+          <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+            {missingCount} {missingCount === 1 ? 'hotel is' : 'hotels are'} no longer in the dataset and {missingCount === 1 ? 'was' : 'were'} left out.
+          </p>
+        )}
+
+        <div className="bg-white rounded-xl border border-gray-200 p-4 overflow-x-auto">
+          <table className="w-full table-fixed min-w-[640px]">
+            <colgroup>
+              <col className="w-40" />
+              {hotels.map(hotel => <col key={hotel.hotel_id} />)}
+              {hotels.length < MAX_COMPARED_HOTELS && <col />}
+            </colgroup>
+            <thead>
+              <tr>
+                <th scope="col" className="sr-only">Attribute</th>
+                {hotels.map(hotel => (
+                  <th key={hotel.hotel_id} scope="col" className="px-3 pb-3 align-top">
+                    <div className="relative">
+                      <img
+                        src={hotel.image_url}
+                        alt={hotel.name}
+                        className="w-full h-24 rounded-lg object-cover"
+                        loading="lazy"
+                      />
+                      <button
+                        onClick={() => handleRemove(hotel.hotel_id)}
+                        className="absolute top-1 right-1 p-1 rounded-full bg-white/90 hover:bg-white shadow transition-colors"
+                        aria-label={`Remove ${hotel.name} from comparison`}
+                      >
+                        <X className="h-3.5 w-3.5 text-gray-600" />
+                      </button>
+                    </div>
+                    <button
+                      onClick={() => navigate(getHotelPath(hotel.hotel_id))}
+                      className="mt-2 text-sm font-semibold text-gray-900 hover:text-blue-600 line-clamp-2 transition-colors"
+                    >
+                      {hotel.name}
+                    </button>
+                  </th>
+                ))}
+                {hotels.length < MAX_COMPARED_HOTELS && (
+                  <th scope="col" className="px-3 pb-3 align-top">
+                    <label className="flex flex-col items-center justify-center h-24 rounded-lg border-2 border-dashed border-gray-300 text-gray-500 text-sm font-normal gap-1 cursor-pointer hover:border-gray-400">
+                      <Plus className="h-4 w-4" />
+                      <span>Add hotel</span>
+                      <select
+                        value=""
+                        onChange={(event) => handleAdd(Number(event.target.value))}
+                        className="w-32 text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+                      >
+                        <option value="" disabled>Choose…</option>
+                        {addableHotels.map(hotel => (
+                          <option key={hotel.hotel_id} value={hotel.hotel_id}>{hotel.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </th>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              <ComparisonRow
+                label={stay ? 'Avg. nightly price' : 'Price per night'}
+                best={bestFor('price')}
+                cells={hotels.map(hotel => (
+                  <div>
+                    <div>{formatHotelPrice(hotel)}</div>
+                    {formatStayTotal(hotel) && (
+                      <div className="text-xs font-normal text-gray-500">{formatStayTotal(hotel)}</div>
+                    )}
+                  </div>
+                ))}
+              />
+              <ComparisonRow
+                label="Hotel class"
+                best={bestFor('starRating')}
+                cells={hotels.map(hotel => (
+                  <span className="inline-flex items-center gap-0.5">
+                    {hotel.star_rating}
+                    <Star className="h-3.5 w-3.5 text-yellow-500 fill-current" />
+                  </span>
+                ))}
+              />
+              <ComparisonRow
+                label="Guest rating"
+                best={bestFor('rating')}
+                cells={hotels.map(hotel => (
+                  <span className="inline-flex items-center gap-1.5">
+                    <span
+                      className="px-1.5 py-0.5 rounded-full text-white text-xs font-semibold"
+                      style={{ backgroundColor: getHotelMarkerColor(hotel.rating) }}
+                    >
+                      {hotel.rating.toFixed(1)}
+                    </span>
+                    <span className="text-xs text-gray-500 font-normal">{getColorInfo(hotel.rating).description}</span>
+                  </span>
+                ))}
+              />
+              <ComparisonRow
+                label="Reviews"
+                best={bestFor('reviewCount')}
+                cells={hotels.map(hotel => hotel.review_count.toLocaleString())}
+              />
+              <ComparisonRow
+                label="Room type"
+                cells={hotels.map(hotel => hotel.room_type)}
+              />
+              <ComparisonRow
+                label={referenceOption === 'user-location' ? 'Distance from you' : 'Distance from map center'}
+                best={bestFor('distance')}
+                cells={values.map(value => (value.distance !== null ? formatDistance(value.distance) : '—'))}
+              />
+              <ComparisonRow
+                label="Amenities"
+                best={bestFor('amenityCount')}
+                cells={hotels.map(hotel => `${hotel.amenities.length} of ${COMPARISON_AMENITIES.length}`)}
+              />
+              {COMPARISON_AMENITIES.map(amenity => {
+                const has = hotels.map(hotel => hotel.amenities.includes(amenity));
+                return (
+                  <ComparisonRow
+                    key={amenity}
+                    label={amenity}
+                    best={getBestIndices(has.map(Number), 'highest')}
+                    cells={has.map(hasAmenity => (
+                      hasAmenity
+                        ? <Check className="h-4 w-4 mx-auto text-green-600" aria-label="Yes" />
+                        : <Minus className="h-4 w-4 mx-auto text-gray-300" aria-label="No" />
+                    ))}
+                  />
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -1,14 +1,14 @@
 import React, { useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Settings, MapPin, Users, Star, Eye } from 'lucide-react';
-import type { Hotel, MapViewport } from '../../types/index';
+import type { Hotel } from '../../types/index';
 import { cn } from '../../utils/cn';
 import { 
-  calculateClustersCached, 
   DEFAULT_CLUSTERING_CONFIG, 
   shouldCluster,
   getClusterSize,
 } from '../../utils/clusteringUtils';
+import { getClusterTree } from '../../utils/clusterTree';
 import { getClusterColor } from '../../utils/colorUtils';
 
 // =============================================================================
@@ -49,30 +49,11 @@ export const ClusteringDebug: React.FC<ClusteringDebugProps> = ({
       };
     }
 
-    const viewport: MapViewport = {
-      bounds: {
-        northeast: {
-          latitude: viewState.latitude + 0.1,
-          longitude: viewState.longitude + 0.1,
-        },
-        southwest: {
-          latitude: viewState.latitude - 0.1,
-          longitude: viewState.longitude - 0.1,
-        },
-      },
-      center: {
-        latitude: viewState.latitude,
-        longitude: viewState.longitude,
-      },
-      zoom: viewState.zoom,
-    };
-
     const shouldClusterAtZoom = shouldCluster(viewState.zoom, DEFAULT_CLUSTERING_CONFIG);
-    const { clusters, individualHotels } = calculateClustersCached(
+    const { clusters, individualHotels } = getClusterTree(
       hotels,
-      viewport,
       DEFAULT_CLUSTERING_CONFIG
-    );
+    ).getClusters(viewState.zoom);
 
     return {
       totalHotels: hotels.length,
@@ -80,7 +61,7 @@ export const ClusteringDebug: React.FC<ClusteringDebugProps> = ({
       individualHotels,
       shouldClusterAtZoom,
     };
-  }, [hotels, viewState]);
+  }, [hotels, viewState.zoom]);
 
   if (!isVisible) {
     return (
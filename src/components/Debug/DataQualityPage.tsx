@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, AlertOctagon, AlertTriangle, CheckCircle2, Database } from 'lucide-react';
+import type { ValidationIssue, ValidationSeverity } from '../../types/index';
+import { VALIDATION_SEVERITY } from '../../types/index';
+import { cn } from '../../utils/cn';
+import { navigate, getHomeUrl } from '../../utils/router';
+import { useAppStore, selectDataQuality } from '../../store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface DataQualityPageProps {
+  appTitle: string;
+}
+
+type SeverityFilter = ValidationSeverity | 'all';
+
+interface SummaryCardProps {
+  label: string;
+  value: number;
+  tone: 'neutral' | 'success' | 'error' | 'warning';
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const SEVERITY_FILTERS: Array<{ value: SeverityFilter; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: VALIDATION_SEVERITY.Error, label: 'Dropped records' },
+  { value: VALIDATION_SEVERITY.Warning, label: 'Fixed values' },
+];
+
+const SUMMARY_TONES: Record<SummaryCardProps['tone'], string> = {
+  neutral: 'text-gray-900',
+  success: 'text-green-600',
+  error: 'text-red-600',
+  warning: 'text-amber-600',
+};
+
+const MAX_RAW_VALUE_LENGTH = 80;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Render a raw source value compactly for the issue table
+ */
+function formatRawValue(value: unknown): string {
+  if (value === undefined) return '—';
+
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > MAX_RAW_VALUE_LENGTH ? `${text.slice(0, MAX_RAW_VALUE_LENGTH)}…` : text;
+}
+
+// =============================================================================
+// SUMMARY CARD
+// =============================================================================
+
+function SummaryCard({ label, value, tone }: SummaryCardProps) {
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-4">
+      <div className="text-sm text-gray-500">{label}</div>
+      <div className={cn('text-2xl font-bold', SUMMARY_TONES[tone])}>{value.toLocaleString()}</div>
+    </div>
+  );
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export default function DataQualityPage({ appTitle }: DataQualityPageProps) {
+  const dataQuality = useAppStore(selectDataQuality);
+  const [severityFilter, setSeverityFilter] = useState<SeverityFilter>('all');
+
+  const { source, totalRecords, validRecords, issues, checkedAt } = dataQuality;
+
+  const errorCount = useMemo(
+    () => issues.filter(issue => issue.severity === VALIDATION_SEVERITY.Error).length,
+    [issues]
+  );
+
+  const visibleIssues = useMemo<ValidationIssue[]>(
+    () => (severityFilter === 'all' ? issues : issues.filter(issue => issue.severity === severityFilter)),
+    [issues, severityFilter]
+  );
+
+  useEffect(() => {
+    const previousTitle = document.title;
+    document.title = `Data quality · ${appTitle}`;
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [appTitle]);
+
+  const handleBackToMap = useCallback(() => {
+    navigate(getHomeUrl());
+  }, []);
+
+  return (
+    <div className="h-screen overflow-y-auto bg-gray-50">
+      {/* Top Bar */}
+      <div className="sticky top-0 z-10 bg-white/90 backdrop-blur border-b border-gray-200">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center justify-between">
+          <button
+            onClick={handleBackToMap}
+            className="flex items-center space-x-2 text-sm font-medium text-gray-700 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back to map</span>
+          </button>
+          <div className="flex items-center space-x-2 text-sm text-gray-500">
+            <Database className="h-4 w-4" />
+            <span>{source ?? 'No dataset checked'}</span>
+          </div>
+        </div>
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 12 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="max-w-5xl mx-auto px-4 py-6 space-y-6"
+      >
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Data quality</h1>
+          <p className="text-sm text-gray-600">
+            Problems found while validating hotel records. Fix them in the source data so
+            no hotels are dropped and no values need to be guessed.
+            {checkedAt && ` Checked ${new Date(checkedAt).toLocaleString()}.`}
+          </p>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <SummaryCard label="Records" value={totalRecords} tone="neutral" />
+          <SummaryCard label="Loaded" value={validRecords} tone="success" />
+          <SummaryCard label="Dropped" value={totalRecords - validRecords} tone="error" />
+          <SummaryCard label="Issues" value={issues.length} tone={issues.length > 0 ? 'warning' : 'success'} />
+        </div>
+
+        {issues.length === 0 ? (
+          <div className="bg-white rounded-xl border border-gray-200 p-8 text-center">
+            <CheckCircle2 className="h-10 w-10 text-green-500 mx-auto mb-3" />
+            <p className="font-medium text-gray-900">
+              {source ? 'No issues found' : 'No validation report available'}
+            </p>
+            <p className="text-sm text-gray-500">
+              {source
+                ? 'Every record passed validation without changes.'
+                : 'Records loaded from the API are validated by the server.'}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+            {/* Severity Filter */}
+            <div className="flex items-center gap-2 p-3 border-b border-gray-200">
+              {SEVERITY_FILTERS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setSeverityFilter(value)}
+                  className={cn(
+                    'px-3 py-1.5 text-sm rounded-lg transition-colors',
+                    severityFilter === value
+                      ? 'bg-blue-600 text-white'
+                      : 'text-gray-700 hover:bg-gray-100'
+                  )}
+                >
+                  {label}
+                  {value === VALIDATION_SEVERITY.Error && ` (${errorCount})`}
+                  {value === VALIDATION_SEVERITY.Warning && ` (${issues.length - errorCount})`}
+                </button>
+              ))}
+            </div>
+
+            {/* Issue Table */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-500">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">Record</th>
+                    <th className="px-4 py-2 font-medium">Field</th>
+                    <th className="px-4 py-2 font-medium">Outcome</th>
+                    <th className="px-4 py-2 font-medium">Problem</th>
+                    <th className="px-4 py-2 font-medium">Source value</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {visibleIssues.map((issue, index) => {
+                    const isError = issue.severity === VALIDATION_SEVERITY.Error;
+                    const SeverityIcon = isError ? AlertOctagon : AlertTriangle;
+
+                    return (
+                      <tr key={`${issue.recordIndex}-${issue.field}-${index}`} className="align-top">
+                        <td className="px-4 py-2 whitespace-nowrap text-gray-900">
+                          #{issue.recordIndex}
+                          <div className="text-xs text-gray-500">
+                            {issue.hotelId !== null ? `ID ${issue.hotelId}` : 'No ID'}
+                          </div>
+                        </td>
+                        <td className="px-4 py-2 font-mono text-xs text-gray-700">{issue.field}</td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          <span
+                            className={cn(
+                              'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium',
+                              isError ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-700'
+                            )}
+                          >
+                            <SeverityIcon className="h-3 w-3" />
+                            {issue.resolution}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-gray-700">{issue.message}</td>
+                        <td className="px-4 py-2 font-mono text-xs text-gray-500 break-all">
+                          {formatRawValue(issue.rawValue)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
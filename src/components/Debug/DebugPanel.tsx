@@ -7,13 +7,17 @@ interface DebugPanelProps {
   selectedHotel?: Hotel | null;
   hoveredHotel?: Hotel | null;
   debugMode: boolean;
+  dataIssueCount?: number;
+  onShowDataQuality?: () => void;
 }
 
 const DebugPanel: React.FC<DebugPanelProps> = ({ 
   hotels, 
   selectedHotel, 
   hoveredHotel,
-  debugMode 
+  debugMode,
+  dataIssueCount = 0,
+  onShowDataQuality,
 }) => {
   const [mapboxCssLoaded, setMapboxCssLoaded] = useState(false);
 
@@ -82,6 +86,12 @@ const DebugPanel: React.FC<DebugPanelProps> = ({
         <div>Selected: {selectedHotel?.name || 'None'}</div>
         <div>Hovered: {hoveredHotel?.name || 'None'}</div>
         <div>Map: Loaded</div>
+        <button
+          onClick={onShowDataQuality}
+          className={`underline ${dataIssueCount > 0 ? 'text-yellow-400' : 'text-green-400'}`}
+        >
+          Data issues: {dataIssueCount}
+        </button>
       </div>
 
       <div className="border-t border-gray-600 pt-2 mt-2">
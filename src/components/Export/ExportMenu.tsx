@@ -0,0 +1,178 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Download, ChevronDown } from 'lucide-react';
+import type { Hotel } from '../../types/index';
+import { cn } from '../../utils/cn';
+import {
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_INFO,
+  downloadHotels,
+  type ExportFormat,
+} from '../../utils/hotelExport';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface ExportMenuProps {
+  hotels: Hotel[];              // Applied result set, in display order
+  selectedHotel?: Hotel | null;
+  shortlist?: Hotel[];          // Every shortlisted hotel, exportable as a curated list
+  title: string;
+  className?: string;
+}
+
+type ExportScope = 'results' | 'selected' | 'shortlist';
+
+const NO_HOTELS: Hotel[] = [];
+
+const FORMAT_ORDER: ExportFormat[] = [EXPORT_FORMATS.GeoJSON, EXPORT_FORMATS.CSV, EXPORT_FORMATS.KML];
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export default function ExportMenu({
+  hotels,
+  selectedHotel = null,
+  shortlist = NO_HOTELS,
+  title,
+  className,
+}: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<ExportScope>('results');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Fall back to the full results when the selection or shortlist goes away
+  const effectiveScope: ExportScope =
+    (scope === 'selected' && !selectedHotel) || (scope === 'shortlist' && shortlist.length === 0)
+      ? 'results'
+      : scope;
+  const exportHotels = useMemo(() => {
+    if (effectiveScope === 'selected' && selectedHotel) return [selectedHotel];
+    if (effectiveScope === 'shortlist') return shortlist;
+    return hotels;
+  }, [effectiveScope, selectedHotel, shortlist, hotels]);
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleToggle = useCallback(() => {
+    setIsOpen(prev => !prev);
+  }, []);
+
+  const handleExport = useCallback((format: ExportFormat) => {
+    const exportTitle = effectiveScope === 'selected' && selectedHotel
+      ? selectedHotel.name
+      : effectiveScope === 'shortlist'
+        ? `${title} shortlist`
+        : title;
+    downloadHotels(exportHotels, format, exportTitle);
+    setIsOpen(false);
+  }, [effectiveScope, exportHotels, selectedHotel, title]);
+
+  return (
+    <div ref={menuRef} className={cn('relative', className)}>
+      <motion.button
+        onClick={handleToggle}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className={cn(
+          "inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium",
+          "bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 active:bg-gray-100",
+          "shadow-sm hover:shadow-md transition-all duration-200",
+          "focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500",
+          isOpen && "bg-gray-50 border-gray-400 shadow-md"
+        )}
+        whileHover={{ scale: 1.02 }}
+        whileTap={{ scale: 0.98 }}
+        transition={{ duration: 0.1 }}
+      >
+        <Download className="h-4 w-4" />
+        <span className="hidden lg:inline">Export</span>
+        <ChevronDown className={cn('h-3 w-3 transition-transform', isOpen && 'rotate-180')} />
+      </motion.button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration: 0.15 }}
+            role="menu"
+            className="absolute right-0 mt-2 w-64 bg-white rounded-xl shadow-lg border border-gray-200 z-50 overflow-hidden"
+          >
+            {/* Scope */}
+            <div className="p-3 border-b border-gray-100 space-y-2 text-sm">
+              <label className="flex items-center gap-2 text-gray-700">
+                <input
+                  type="radio"
+                  name="export-scope"
+                  checked={effectiveScope === 'results'}
+                  onChange={() => setScope('results')}
+                />
+                <span>Current results ({hotels.length})</span>
+              </label>
+              <label className={cn('flex items-center gap-2', selectedHotel ? 'text-gray-700' : 'text-gray-400')}>
+                <input
+                  type="radio"
+                  name="export-scope"
+                  checked={effectiveScope === 'selected'}
+                  disabled={!selectedHotel}
+                  onChange={() => setScope('selected')}
+                />
+                <span className="truncate">
+                  {selectedHotel ? `Selected only (${selectedHotel.name})` : 'Selected only (none selected)'}
+                </span>
+              </label>
+              <label className={cn('flex items-center gap-2', shortlist.length > 0 ? 'text-gray-700' : 'text-gray-400')}>
+                <input
+                  type="radio"
+                  name="export-scope"
+                  checked={effectiveScope === 'shortlist'}
+                  disabled={shortlist.length === 0}
+                  onChange={() => setScope('shortlist')}
+                />
+                <span>Shortlist ({shortlist.length})</span>
+              </label>
+            </div>
+
+            {/* Formats */}
+            <div className="py-1">
+              {FORMAT_ORDER.map(format => (
+                <button
+                  key={format}
+                  role="menuitem"
+                  onClick={() => handleExport(format)}
+                  disabled={exportHotels.length === 0}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {EXPORT_FORMAT_INFO[format].label}
+                </button>
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import React, { useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Heart } from 'lucide-react';
+import type { Hotel } from '../../types/index';
+import { cn } from '../../utils/cn';
+import { useAppStore, selectIsFavorite } from '../../store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface FavoriteButtonProps {
+  hotel: Hotel;
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+const SIZE_CLASSES = {
+  sm: { button: 'p-1.5', icon: 'w-4 h-4' },
+  md: { button: 'p-2', icon: 'w-5 h-5' },
+};
+
+// =============================================================================
+// FAVORITE BUTTON COMPONENT
+// =============================================================================
+
+export const FavoriteButton = React.memo<FavoriteButtonProps>(({ hotel, size = 'md', className }) => {
+  const isFavorite = useAppStore(selectIsFavorite(hotel.hotel_id));
+  const toggleFavorite = useAppStore(state => state.toggleFavorite);
+
+  // Don't let the click select or close whatever the button sits on
+  const handleClick = useCallback((event: React.MouseEvent) => {
+    event.stopPropagation();
+    toggleFavorite(hotel);
+  }, [hotel, toggleFavorite]);
+
+  const sizeClasses = SIZE_CLASSES[size];
+
+  return (
+    <motion.button
+      onClick={handleClick}
+      aria-pressed={isFavorite}
+      aria-label={isFavorite ? `Remove ${hotel.name} from shortlist` : `Add ${hotel.name} to shortlist`}
+      title={isFavorite ? 'Remove from shortlist' : 'Add to shortlist'}
+      className={cn(
+        'rounded-full bg-white border transition-colors',
+        'focus:outline-none focus:ring-2 focus:ring-pink-400',
+        isFavorite ? 'border-pink-200 hover:bg-pink-50' : 'border-gray-200 hover:bg-gray-50',
+        sizeClasses.button,
+        className
+      )}
+      whileTap={{ scale: 0.85 }}
+    >
+      <Heart
+        className={cn(sizeClasses.icon, isFavorite ? 'text-pink-500' : 'text-gray-500')}
+        fill={isFavorite ? 'currentColor' : 'none'}
+      />
+    </motion.button>
+  );
+});
+
+FavoriteButton.displayName = 'FavoriteButton';
+
+export default FavoriteButton;
@@ -0,0 +1,260 @@
+import { useCallback, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Heart, X, Star, ArrowRight, AlertCircle, Columns3 } from 'lucide-react';
+import type { Hotel } from '../../types/index';
+import { cn } from '../../utils/cn';
+import { resolveFavorites } from '../../utils/favoritesUtils';
+import { navigate, getHotelPath, getComparePath } from '../../utils/router';
+import { MIN_COMPARED_HOTELS, MAX_COMPARED_HOTELS } from '../../utils/comparisonUtils';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import {
+  useAppStore,
+  selectFavorites,
+  selectFavoritesCount,
+  selectHotels,
+  selectSelectedHotel,
+} from '../../store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface ShortlistDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  className?: string;
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export default function ShortlistDrawer({ isOpen, onClose, className }: ShortlistDrawerProps) {
+  const favorites = useAppStore(selectFavorites);
+  const hotels = useAppStore(selectHotels);
+  const selectedHotel = useAppStore(selectSelectedHotel);
+  const setSelectedHotel = useAppStore(state => state.setSelectedHotel);
+  const removeFavorite = useAppStore(state => state.removeFavorite);
+  const removeUnavailableFavorites = useAppStore(state => state.removeUnavailableFavorites);
+  const { formatHotelPrice, formatStayTotal } = usePriceFormatter();
+
+  const [checkedIds, setCheckedIds] = useState<number[]>([]);
+
+  const entries = useMemo(() => resolveFavorites(favorites, hotels), [favorites, hotels]);
+  const unavailableCount = entries.filter(entry => !entry.hotel).length;
+
+  // Ignore checks on hotels that were since unfavorited or unloaded
+  const compareIds = useMemo(
+    () => checkedIds.filter(id => entries.some(entry => entry.hotel?.hotel_id === id)),
+    [checkedIds, entries]
+  );
+
+  const handleSelect = useCallback((hotel: Hotel) => {
+    setSelectedHotel(hotel);
+  }, [setSelectedHotel]);
+
+  const handleToggleCompare = useCallback((hotelId: number) => {
+    setCheckedIds(prev => (prev.includes(hotelId) ? prev.filter(id => id !== hotelId) : [...prev, hotelId]));
+  }, []);
+
+  const handleCompare = useCallback(() => {
+    navigate(getComparePath(compareIds));
+  }, [compareIds]);
+
+  return (
+    <AnimatePresence initial={false}>
+      {isOpen && (
+        <motion.aside
+          initial={{ width: 0, opacity: 0 }}
+          animate={{ width: 320, opacity: 1 }}
+          exit={{ width: 0, opacity: 0 }}
+          transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+          className={cn(
+            'hidden md:flex flex-col flex-shrink-0 bg-gray-50 border-l border-gray-200 overflow-hidden',
+            className
+          )}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 bg-white border-b border-gray-200">
+            <div className="flex items-center space-x-2">
+              <Heart className="h-4 w-4 text-pink-500" fill="currentColor" />
+              <h2 className="text-sm font-semibold text-gray-900">Shortlist</h2>
+              <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded-full">
+                {favorites.length}
+              </span>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1.5 hover:bg-gray-100 rounded-lg transition-colors"
+              aria-label="Close shortlist"
+            >
+              <X className="h-4 w-4 text-gray-500" />
+            </button>
+          </div>
+
+          {/* Entries */}
+          <ul className="flex-1 overflow-y-auto p-3 space-y-2 w-[320px]">
+            {entries.map(({ favorite, hotel }) => (
+              <li key={favorite.hotelId}>
+                {hotel ? (
+                  <div
+                    className={cn(
+                      'flex gap-3 p-2 rounded-lg border bg-white transition-colors',
+                      selectedHotel?.hotel_id === hotel.hotel_id
+                        ? 'border-red-300 bg-red-50'
+                        : 'border-gray-200 hover:border-gray-300'
+                    )}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(hotel.hotel_id)}
+                      disabled={!compareIds.includes(hotel.hotel_id) && compareIds.length >= MAX_COMPARED_HOTELS}
+                      onChange={() => handleToggleCompare(hotel.hotel_id)}
+                      className="self-center"
+                      aria-label={`Compare ${hotel.name}`}
+                      title={`Select ${MIN_COMPARED_HOTELS} to ${MAX_COMPARED_HOTELS} hotels to compare`}
+                    />
+                    <button
+                      onClick={() => handleSelect(hotel)}
+                      className="flex gap-3 flex-1 min-w-0 text-left"
+                    >
+                      <img
+                        src={hotel.image_url}
+                        alt={hotel.name}
+                        className="w-14 h-14 rounded-lg object-cover flex-shrink-0"
+                        loading="lazy"
+                      />
+                      <div className="min-w-0 flex-1 space-y-0.5">
+                        <div className="text-sm font-medium text-gray-900 truncate">{hotel.name}</div>
+                        <div className="flex items-center gap-2 text-xs text-gray-500">
+                          <span className="flex items-center gap-0.5">
+                            <Star className="h-3 w-3 text-yellow-500 fill-current" />
+                            {hotel.rating.toFixed(1)}
+                          </span>
+                          <span className="font-semibold text-green-600">{formatHotelPrice(hotel)}</span>
+                          <span>/ night</span>
+                        </div>
+                        {formatStayTotal(hotel) && (
+                          <div className="text-xs text-gray-600">{formatStayTotal(hotel)}</div>
+                        )}
+                      </div>
+                    </button>
+                    <div className="flex flex-col items-center justify-between">
+                      <button
+                        onClick={() => removeFavorite(hotel.hotel_id)}
+                        className="p-1 rounded hover:bg-gray-100 transition-colors"
+                        aria-label={`Remove ${hotel.name} from shortlist`}
+                      >
+                        <X className="h-3.5 w-3.5 text-gray-500" />
+                      </button>
+                      <button
+                        onClick={() => navigate(getHotelPath(hotel.hotel_id))}
+                        className="p-1 rounded hover:bg-blue-50 transition-colors"
+                        aria-label={`View ${hotel.name} details`}
+                      >
+                        <ArrowRight className="h-3.5 w-3.5 text-blue-600" />
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-3 p-2 rounded-lg border border-dashed border-gray-300 bg-white">
+                    <AlertCircle className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm font-medium text-gray-500 truncate">{favorite.name}</div>
+                      <div className="text-xs text-gray-400">Not in the current dataset</div>
+                    </div>
+                    <button
+                      onClick={() => removeFavorite(favorite.hotelId)}
+                      className="p-1 rounded hover:bg-gray-100 transition-colors"
+                      aria-label={`Remove ${favorite.name} from shortlist`}
+                    >
+                      <X className="h-3.5 w-3.5 text-gray-500" />
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+
+            {/* Empty State */}
+            {entries.length === 0 && (
+              <li className="text-center py-12 text-gray-500">
+                <Heart className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+                <p className="text-sm">Tap the heart on a hotel to shortlist it</p>
+              </li>
+            )}
+          </ul>
+
+          {/* Compare Checked Hotels */}
+          {entries.length >= MIN_COMPARED_HOTELS && (
+            <div className="px-4 py-3 bg-white border-t border-gray-200 w-[320px]">
+              <button
+                onClick={handleCompare}
+                disabled={compareIds.length < MIN_COMPARED_HOTELS}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+              >
+                <Columns3 className="h-4 w-4" />
+                <span>
+                  {compareIds.length < MIN_COMPARED_HOTELS
+                    ? `Check ${MIN_COMPARED_HOTELS}–${MAX_COMPARED_HOTELS} hotels to compare`
+                    : `Compare ${compareIds.length} hotels`}
+                </span>
+              </button>
+            </div>
+          )}
+
+          {/* Unavailable Entries */}
+          {unavailableCount > 0 && (
+            <div className="px-4 py-3 bg-white border-t border-gray-200 w-[320px]">
+              <button
+                onClick={removeUnavailableFavorites}
+                className="w-full text-sm text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                Remove {unavailableCount} unavailable {unavailableCount === 1 ? 'hotel' : 'hotels'}
+              </button>
+            </div>
+          )}
+        </motion.aside>
+      )}
+    </AnimatePresence>
+  );
+}
+
+// =============================================================================
+// SHORTLIST TOGGLE BUTTON (FOR HEADERS)
+// =============================================================================
+
+interface ShortlistToggleProps {
+  isOpen: boolean;
+  onClick: () => void;
+  className?: string;
+}
+
+export function ShortlistToggle({ isOpen, onClick, className }: ShortlistToggleProps) {
+  const favoritesCount = useAppStore(selectFavoritesCount);
+
+  return (
+    <motion.button
+      onClick={onClick}
+      aria-pressed={isOpen}
+      className={cn(
+        "hidden md:inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium",
+        "bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 active:bg-gray-100",
+        "shadow-sm hover:shadow-md transition-all duration-200",
+        "focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500",
+        isOpen && "bg-gray-50 border-gray-400 shadow-md",
+        className
+      )}
+      whileHover={{ scale: 1.02 }}
+      whileTap={{ scale: 0.98 }}
+      transition={{ duration: 0.1 }}
+    >
+      <Heart className={cn('h-4 w-4', favoritesCount > 0 && 'text-pink-500')} fill={favoritesCount > 0 ? 'currentColor' : 'none'} />
+      <span className="hidden lg:inline">Shortlist</span>
+      {favoritesCount > 0 && (
+        <span className="text-xs bg-pink-100 text-pink-700 px-1.5 py-0.5 rounded-full">
+          {favoritesCount}
+        </span>
+      )}
+    </motion.button>
+  );
+}
@@ -1,8 +1,10 @@
 import React, { useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, DollarSign, Star, ThumbsUp, Wifi, RotateCcw } from 'lucide-react';
+import { X, DollarSign, Star, ThumbsUp, Wifi, RotateCcw, PenTool, Scan, Radius } from 'lucide-react';
 import { cn } from '../../utils/cn';
-import type { HotelFilters } from '../../types/index';
+import type { Currency, HotelFilters } from '../../types/index';
+import { CURRENCIES } from '../../types/index';
+import { getFilterChips, type FilterChipInfo, type FilterChipType } from '../../utils/filterUtils';
 
 // =============================================================================
 // TYPES
@@ -12,15 +14,12 @@ interface ActiveFiltersProps {
   filters: HotelFilters;
   onRemoveFilter: (filterType: string, value?: string) => void;
   onClearAll: () => void;
+  currency?: Currency; // Display currency for the price chip
   className?: string;
 }
 
-interface FilterChip {
-  id: string;
-  type: string;
-  label: string;
+interface FilterChip extends FilterChipInfo {
   icon?: React.ReactNode;
-  value?: string;
   color?: string;
 }
 
@@ -28,17 +27,26 @@ interface FilterChip {
 // UTILITIES
 // =============================================================================
 
-const formatPrice = (price: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(price);
+const CHIP_ICONS: Record<FilterChipType, React.ReactNode> = {
+  price: <DollarSign className="h-3 w-3" />,
+  rating: <ThumbsUp className="h-3 w-3" />,
+  star: <Star className="h-3 w-3" />,
+  amenity: null,
+  area: <PenTool className="h-3 w-3" />,
+  bounds: <Scan className="h-3 w-3" />,
+  near: <Radius className="h-3 w-3" />,
+  search: <span className="text-xs">🔍</span>,
 };
 
-const formatRating = (rating: number): string => {
-  return rating.toFixed(1);
+const CHIP_COLORS: Record<FilterChipType, string> = {
+  price: 'bg-green-100 text-green-800 border-green-200',
+  rating: 'bg-blue-100 text-blue-800 border-blue-200',
+  star: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  amenity: 'bg-purple-100 text-purple-800 border-purple-200',
+  area: 'bg-indigo-100 text-indigo-800 border-indigo-200',
+  bounds: 'bg-indigo-100 text-indigo-800 border-indigo-200',
+  near: 'bg-indigo-100 text-indigo-800 border-indigo-200',
+  search: 'bg-gray-100 text-gray-800 border-gray-200',
 };
 
 const getAmenityIcon = (amenity: string): React.ReactNode => {
@@ -64,73 +72,19 @@ export default function ActiveFilters({
   filters,
   onRemoveFilter,
   onClearAll,
+  currency = CURRENCIES.USD,
   className
 }: ActiveFiltersProps) {
-  // Convert filters to chip objects
-  const filterChips = useMemo<FilterChip[]>(() => {
-    const chips: FilterChip[] = [];
-
-    // Price range filter
-    if (filters.priceRange) {
-      chips.push({
-        id: 'price',
-        type: 'price',
-        label: `${formatPrice(filters.priceRange.min)} - ${formatPrice(filters.priceRange.max)}`,
-        icon: <DollarSign className="h-3 w-3" />,
-        color: 'bg-green-100 text-green-800 border-green-200'
-      });
-    }
-
-    // Rating range filter
-    if (filters.ratingRange) {
-      chips.push({
-        id: 'rating',
-        type: 'rating',
-        label: `${formatRating(filters.ratingRange.min)} - ${formatRating(filters.ratingRange.max)} rating`,
-        icon: <ThumbsUp className="h-3 w-3" />,
-        color: 'bg-blue-100 text-blue-800 border-blue-200'
-      });
-    }
-
-    // Star rating filter
-    if (filters.starRating && filters.starRating.length > 0) {
-      const sortedRatings = [...filters.starRating].sort((a, b) => b - a);
-      chips.push({
-        id: 'star',
-        type: 'star',
-        label: `${sortedRatings.join(', ')} star${sortedRatings.length > 1 ? 's' : ''}`,
-        icon: <Star className="h-3 w-3" />,
-        color: 'bg-yellow-100 text-yellow-800 border-yellow-200'
-      });
-    }
 
-    // Individual amenity filters
-    if (filters.amenities && filters.amenities.length > 0) {
-      filters.amenities.forEach(amenity => {
-        chips.push({
-          id: `amenity-${amenity}`,
-          type: 'amenity',
-          label: amenity,
-          icon: getAmenityIcon(amenity),
-          value: amenity,
-          color: 'bg-purple-100 text-purple-800 border-purple-200'
-        });
-      });
-    }
-
-    // Search query filter
-    if (filters.searchQuery && filters.searchQuery.trim()) {
-      chips.push({
-        id: 'search',
-        type: 'search',
-        label: `"${filters.searchQuery.trim()}"`,
-        icon: <span className="text-xs">🔍</span>,
-        color: 'bg-gray-100 text-gray-800 border-gray-200'
-      });
-    }
-
-    return chips;
-  }, [filters]);
+  // Convert filters to chip objects
+  const filterChips = useMemo<FilterChip[]>(
+    () => getFilterChips(filters, currency).map(chip => ({
+      ...chip,
+      icon: chip.type === 'amenity' && chip.value ? getAmenityIcon(chip.value) : CHIP_ICONS[chip.type],
+      color: CHIP_COLORS[chip.type],
+    })),
+    [filters, currency]
+  );
 
   // Animation variants for chips
   const chipVariants = {
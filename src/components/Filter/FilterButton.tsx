@@ -1,6 +1,7 @@
 import { motion } from 'framer-motion';
 import { SlidersHorizontal, Filter } from 'lucide-react';
 import { cn } from '../../utils/cn';
+import FilterPresetMenu from './FilterPresetMenu';
 
 // =============================================================================
 // TYPES
@@ -16,6 +17,7 @@ interface FilterButtonProps {
   disabled?: boolean;
   showIcon?: boolean;
   showCount?: boolean;
+  showPresets?: boolean; // Attach the saved presets menu to the button
 }
 
 // =============================================================================
@@ -31,7 +33,8 @@ export default function FilterButton({
   size = 'md',
   disabled = false,
   showIcon = true,
-  showCount = true
+  showCount = true,
+  showPresets = false
 }: FilterButtonProps) {
   // Base styles
   const baseStyles = cn(
@@ -76,7 +79,7 @@ export default function FilterButton({
 
   const hasActiveFilters = activeFiltersCount > 0;
 
-  return (
+  const button = (
     <motion.button
       onClick={onClick}
       disabled={disabled}
@@ -84,7 +87,8 @@ export default function FilterButton({
         baseStyles,
         variantStyles[variant],
         sizeStyles[size],
-        className
+        showPresets && "rounded-r-none",
+        !showPresets && className
       )}
       whileHover={{ scale: disabled ? 1 : 1.02 }}
       whileTap={{ scale: disabled ? 1 : 0.98 }}
@@ -134,6 +138,15 @@ export default function FilterButton({
       )}
     </motion.button>
   );
+
+  if (!showPresets) return button;
+
+  return (
+    <div className={cn("relative inline-flex items-stretch", className)}>
+      {button}
+      <FilterPresetMenu />
+    </div>
+  );
 }
 
 // =============================================================================
@@ -0,0 +1,52 @@
+import { Undo2, Redo2 } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import { useAppStore, selectUndoFilterEntry, selectRedoFilterEntry } from '../../store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface FilterHistoryControlsProps {
+  className?: string;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const UNDO_SHORTCUT = isMac ? '⌘Z' : 'Ctrl+Z';
+const REDO_SHORTCUT = isMac ? '⇧⌘Z' : 'Ctrl+Shift+Z';
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export default function FilterHistoryControls({ className }: FilterHistoryControlsProps) {
+  const undoEntry = useAppStore(selectUndoFilterEntry);
+  const redoEntry = useAppStore(selectRedoFilterEntry);
+  const undoFilterChange = useAppStore(state => state.undoFilterChange);
+  const redoFilterChange = useAppStore(state => state.redoFilterChange);
+
+  const undoLabel = undoEntry ? `Undo: ${undoEntry.description}` : 'Nothing to undo';
+  const redoLabel = redoEntry ? `Redo: ${redoEntry.description}` : 'Nothing to redo';
+
+  return (
+    <div className={cn('flex items-center', className)}>
+      <button
+        onClick={undoFilterChange}
+        disabled={!undoEntry}
+        className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+        aria-label={undoLabel}
+        title={undoEntry ? `${undoLabel} (${UNDO_SHORTCUT})` : undoLabel}
+      >
+        <Undo2 className="h-4 w-4 text-gray-600" />
+      </button>
+      <button
+        onClick={redoFilterChange}
+        disabled={!redoEntry}
+        className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+        aria-label={redoLabel}
+        title={redoEntry ? `${redoLabel} (${REDO_SHORTCUT})` : redoLabel}
+      >
+        <Redo2 className="h-4 w-4 text-gray-600" />
+      </button>
+    </div>
+  );
+}
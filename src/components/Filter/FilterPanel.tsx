@@ -2,12 +2,19 @@ import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Filter, RotateCcw, Check, Loader2, Eye, EyeOff } from 'lucide-react';
 import { cn } from '../../utils/cn';
-import type { Hotel, HotelFilters, Amenity } from '../../types/index';
+import type { Hotel, HotelFilters, Amenity, SortBy, SortOrder, DistanceReference, Currency, StayDates } from '../../types/index';
+import { CURRENCIES, SORT_BY } from '../../types/index';
+import { getHotelPrice } from '../../utils/dataProcessor';
+import { getStayNightCount, formatStayDates } from '../../utils/stayUtils';
+import { fromBaseCurrency, toBaseCurrency, getExchangeRates } from '../../utils/currencyUtils';
+import { getAreaKey } from '../../utils/areaUtils';
 import PriceRangeSlider from './PriceRangeSlider';
 import AmenitiesFilter from './AmenitiesFilter';
 import StarRatingFilter from './StarRatingFilter';
 import GuestRatingFilter from './GuestRatingFilter';
 import ActiveFilters from './ActiveFilters';
+import SortControl from './SortControl';
+import FilterHistoryControls from './FilterHistoryControls';
 
 // =============================================================================
 // TYPES
@@ -32,6 +39,9 @@ interface FilterPanelProps {
   hasFilterChanges: boolean;
   isPreviewing: boolean;
   showBackdrop: boolean;
+  distanceReference?: DistanceReference | null;
+  displayCurrency?: Currency;
+  stay?: StayDates | null;
 }
 
 // =============================================================================
@@ -79,17 +89,21 @@ export default function FilterPanel({
   hasPendingFilters,
   hasFilterChanges,
   isPreviewing,
-  showBackdrop
+  showBackdrop,
+  distanceReference,
+  displayCurrency = CURRENCIES.USD,
+  stay = null
 }: FilterPanelProps) {
-  // Calculate price range from hotel data
+  const stayNights = stay ? getStayNightCount(stay) : 0;
+
+  // Calculate price range from hotel data, in the display currency
+  // With a stay, the range covers each hotel's average nightly rate for it
   const priceRange = React.useMemo(() => {
     if (hotels.length === 0) return { min: 0, max: 1000 };
     
-    return hotels.reduce(
+    const range = hotels.reduce(
       (range, hotel) => {
-        const price = typeof hotel.price_per_night === 'number' 
-          ? hotel.price_per_night 
-          : parseFloat(hotel.price_per_night.toString()) || 0;
+        const price = getHotelPrice(hotel, displayCurrency, stay);
         return {
           min: Math.min(range.min, price),
           max: Math.max(range.max, price)
@@ -97,7 +111,14 @@ export default function FilterPanel({
       },
       { min: Infinity, max: -Infinity }
     );
-  }, [hotels]);
+
+    return { min: Math.floor(range.min), max: Math.ceil(range.max) };
+  }, [hotels, displayCurrency, stay]);
+
+  const isPriceConverted = React.useMemo(
+    () => hotels.some(hotel => hotel.currency !== displayCurrency),
+    [hotels, displayCurrency]
+  );
 
   // Get unique amenities from all hotels
   const allAmenities = React.useMemo(() => {
@@ -111,12 +132,17 @@ export default function FilterPanel({
   }, [hotels]);
 
   // Filter update handlers
+  // The slider works in the display currency; filters store the base currency,
+  // widened by a cent so the range still covers its end points
   const handlePriceRangeChange = React.useCallback((range: [number, number]) => {
     onPendingFiltersChange({
       ...pendingFilters,
-      priceRange: { min: range[0], max: range[1] }
+      priceRange: {
+        min: Math.floor(toBaseCurrency(range[0], displayCurrency) * 100) / 100,
+        max: Math.ceil(toBaseCurrency(range[1], displayCurrency) * 100) / 100,
+      }
     });
-  }, [pendingFilters, onPendingFiltersChange]);
+  }, [pendingFilters, onPendingFiltersChange, displayCurrency]);
 
   const handleStarRatingChange = React.useCallback((ratings: number[]) => {
     onPendingFiltersChange({
@@ -139,6 +165,32 @@ export default function FilterPanel({
     });
   }, [pendingFilters, onPendingFiltersChange]);
 
+  const handleSortChange = React.useCallback((sortBy?: SortBy, sortOrder?: SortOrder) => {
+    const newFilters = { ...pendingFilters };
+    if (sortBy) {
+      newFilters.sortBy = sortBy;
+      newFilters.sortOrder = sortOrder;
+    } else {
+      delete newFilters.sortBy;
+      delete newFilters.sortOrder;
+    }
+    // A point of interest only applies while sorting by distance
+    if (sortBy !== SORT_BY.Distance) {
+      delete newFilters.distanceFromPoi;
+    }
+    onPendingFiltersChange(newFilters);
+  }, [pendingFilters, onPendingFiltersChange]);
+
+  const handleDistancePoiChange = React.useCallback((poiId?: string) => {
+    const newFilters = { ...pendingFilters };
+    if (poiId) {
+      newFilters.distanceFromPoi = poiId;
+    } else {
+      delete newFilters.distanceFromPoi;
+    }
+    onPendingFiltersChange(newFilters);
+  }, [pendingFilters, onPendingFiltersChange]);
+
   const handleRemoveFilter = React.useCallback((filterType: string, value?: string | number) => {
     const newFilters = { ...pendingFilters };
     
@@ -152,6 +204,15 @@ export default function FilterPanel({
       case 'star':
         delete newFilters.starRating;
         break;
+      case 'bounds':
+        delete newFilters.bounds;
+        break;
+      case 'near':
+        delete newFilters.near;
+        break;
+      case 'search':
+        delete newFilters.searchQuery;
+        break;
       case 'amenity':
         if (value && newFilters.amenities) {
           newFilters.amenities = newFilters.amenities.filter(a => a !== value);
@@ -160,6 +221,14 @@ export default function FilterPanel({
           }
         }
         break;
+      case 'area':
+        if (value && newFilters.areas) {
+          newFilters.areas = newFilters.areas.filter(area => getAreaKey(area) !== value);
+          if (newFilters.areas.length === 0) {
+            delete newFilters.areas;
+          }
+        }
+        break;
       default:
         break;
     }
@@ -174,10 +243,13 @@ export default function FilterPanel({
   // Convert filter values for component consumption
   const priceRangeValue: [number, number] = React.useMemo(() => {
     if (pendingFilters.priceRange) {
-      return [pendingFilters.priceRange.min, pendingFilters.priceRange.max];
+      return [
+        Math.round(fromBaseCurrency(pendingFilters.priceRange.min, displayCurrency)),
+        Math.round(fromBaseCurrency(pendingFilters.priceRange.max, displayCurrency)),
+      ];
     }
     return [priceRange.min, priceRange.max];
-  }, [pendingFilters.priceRange, priceRange]);
+  }, [pendingFilters.priceRange, priceRange, displayCurrency]);
 
   const ratingRangeValue: [number, number] = React.useMemo(() => {
     if (pendingFilters.ratingRange) {
@@ -246,13 +318,16 @@ export default function FilterPanel({
                   </span>
                 )}
               </div>
-              <button
-                onClick={onClose}
-                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
-                aria-label="Close filter panel"
-              >
-                <X className="h-5 w-5 text-gray-500" />
-              </button>
+              <div className="flex items-center space-x-1">
+                <FilterHistoryControls />
+                <button
+                  onClick={onClose}
+                  className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                  aria-label="Close filter panel"
+                >
+                  <X className="h-5 w-5 text-gray-500" />
+                </button>
+              </div>
             </div>
 
             {/* Content */}
@@ -262,20 +337,48 @@ export default function FilterPanel({
                 filters={pendingFilters}
                 onRemoveFilter={handleRemoveFilter}
                 onClearAll={handleClearPendingFilters}
+                currency={displayCurrency}
               />
 
+              {/* Sort Order */}
+              <div className="space-y-3">
+                <h3 className="text-sm font-medium text-gray-900">
+                  Sort By
+                </h3>
+                <SortControl
+                  sortBy={pendingFilters.sortBy}
+                  sortOrder={pendingFilters.sortOrder}
+                  onChange={handleSortChange}
+                  distanceReference={distanceReference}
+                  distancePoiId={pendingFilters.distanceFromPoi}
+                  onDistancePoiChange={handleDistancePoiChange}
+                />
+              </div>
+
               {/* Price Range */}
               <div className="space-y-3">
                 <h3 className="text-sm font-medium text-gray-900">
-                  Price Range
+                  {stay ? 'Average Nightly Price' : 'Price per Night'}
                 </h3>
+                {stay && (
+                  <p className="text-xs text-gray-500">
+                    For your stay, {formatStayDates(stay)}
+                  </p>
+                )}
                 <PriceRangeSlider
                   min={priceRange.min}
                   max={priceRange.max}
                   step={25}
                   value={priceRangeValue}
                   onChange={handlePriceRangeChange}
+                  currency={displayCurrency}
+                  nights={stayNights || undefined}
                 />
+                {isPriceConverted && (
+                  <p className="text-xs text-gray-500">
+                    Prices converted to {displayCurrency} at rates as of {getExchangeRates().asOf}
+                  </p>
+                )}
               </div>
 
               {/* Star Rating */}
@@ -0,0 +1,330 @@
+import { useCallback, useEffect, useRef, useState, type ChangeEvent, type FormEvent } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  ChevronDown,
+  ChevronUp,
+  Bookmark,
+  Check,
+  Pencil,
+  Trash2,
+  Upload,
+  Download,
+} from 'lucide-react';
+import type { FilterPreset } from '../../types/index';
+import { cn } from '../../utils/cn';
+import { areFiltersEqual, countActiveFilters, getSortDescription } from '../../utils/filterUtils';
+import {
+  MAX_PRESET_NAME_LENGTH,
+  exportFilterPresets,
+  parseFilterPresetFile,
+} from '../../utils/filterPresets';
+import { downloadTextFile } from '../../utils/download';
+import { useAppStore, selectFilterPresets, selectAppliedFilters } from '../../store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface FilterPresetMenuProps {
+  className?: string;
+}
+
+interface PresetRowProps {
+  preset: FilterPreset;
+  index: number;
+  count: number;
+  isActive: boolean;
+}
+
+type ImportStatus = { kind: 'success' | 'error'; message: string } | null;
+
+const PRESETS_FILE_NAME = 'hotel-filter-presets.json';
+
+// =============================================================================
+// UTILITIES
+// =============================================================================
+
+// e.g. "3 filters · Price"
+const describePreset = (preset: FilterPreset): string => {
+  const count = countActiveFilters(preset.filters);
+  const parts = [count === 1 ? '1 filter' : `${count} filters`];
+  if (preset.filters.sortBy) parts.push(getSortDescription(preset.filters));
+  return parts.join(' · ');
+};
+
+// =============================================================================
+// PRESET ROW
+// =============================================================================
+
+function PresetRow({ preset, index, count, isActive }: PresetRowProps) {
+  const applyFilterPreset = useAppStore(state => state.applyFilterPreset);
+  const renameFilterPreset = useAppStore(state => state.renameFilterPreset);
+  const deleteFilterPreset = useAppStore(state => state.deleteFilterPreset);
+  const moveFilterPreset = useAppStore(state => state.moveFilterPreset);
+
+  const [draftName, setDraftName] = useState<string | null>(null);
+
+  const commitRename = useCallback(() => {
+    if (draftName !== null) renameFilterPreset(preset.id, draftName);
+    setDraftName(null);
+  }, [draftName, preset.id, renameFilterPreset]);
+
+  if (draftName !== null) {
+    return (
+      <li className="px-3 py-2">
+        <input
+          autoFocus
+          value={draftName}
+          maxLength={MAX_PRESET_NAME_LENGTH}
+          onChange={(event) => setDraftName(event.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') commitRename();
+            if (event.key === 'Escape') {
+              event.stopPropagation();
+              setDraftName(null);
+            }
+          }}
+          aria-label="Preset name"
+          className="w-full px-2 py-1 text-sm border border-blue-400 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </li>
+    );
+  }
+
+  return (
+    <li className="group flex items-center gap-1 px-2 py-1 hover:bg-gray-50">
+      <button
+        role="menuitem"
+        onClick={() => applyFilterPreset(preset.id)}
+        className="flex-1 min-w-0 flex items-center gap-2 px-1 py-1 text-left"
+      >
+        <Check className={cn('h-4 w-4 flex-shrink-0 text-blue-600', !isActive && 'invisible')} />
+        <span className="min-w-0">
+          <span className="block text-sm text-gray-900 truncate">{preset.name}</span>
+          <span className="block text-xs text-gray-500">{describePreset(preset)}</span>
+        </span>
+      </button>
+      <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+        <button
+          onClick={() => moveFilterPreset(preset.id, index - 1)}
+          disabled={index === 0}
+          className="p-1 rounded hover:bg-gray-200 disabled:opacity-30"
+          aria-label={`Move ${preset.name} up`}
+        >
+          <ChevronUp className="h-3.5 w-3.5 text-gray-600" />
+        </button>
+        <button
+          onClick={() => moveFilterPreset(preset.id, index + 1)}
+          disabled={index === count - 1}
+          className="p-1 rounded hover:bg-gray-200 disabled:opacity-30"
+          aria-label={`Move ${preset.name} down`}
+        >
+          <ChevronDown className="h-3.5 w-3.5 text-gray-600" />
+        </button>
+        <button
+          onClick={() => setDraftName(preset.name)}
+          className="p-1 rounded hover:bg-gray-200"
+          aria-label={`Rename ${preset.name}`}
+        >
+          <Pencil className="h-3.5 w-3.5 text-gray-600" />
+        </button>
+        <button
+          onClick={() => deleteFilterPreset(preset.id)}
+          className="p-1 rounded hover:bg-red-100"
+          aria-label={`Delete ${preset.name}`}
+        >
+          <Trash2 className="h-3.5 w-3.5 text-red-600" />
+        </button>
+      </div>
+    </li>
+  );
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export default function FilterPresetMenu({ className }: FilterPresetMenuProps) {
+  const presets = useAppStore(selectFilterPresets);
+  const appliedFilters = useAppStore(selectAppliedFilters);
+  const saveFilterPreset = useAppStore(state => state.saveFilterPreset);
+  const importFilterPresets = useAppStore(state => state.importFilterPresets);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [newPresetName, setNewPresetName] = useState('');
+  const [importStatus, setImportStatus] = useState<ImportStatus>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const canSave = countActiveFilters(appliedFilters) > 0 || appliedFilters.sortBy !== undefined;
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleToggle = useCallback(() => {
+    setIsOpen(prev => !prev);
+    setImportStatus(null);
+  }, []);
+
+  const handleSave = useCallback((event: FormEvent) => {
+    event.preventDefault();
+    if (!newPresetName.trim()) return;
+
+    saveFilterPreset(newPresetName);
+    setNewPresetName('');
+  }, [newPresetName, saveFilterPreset]);
+
+  const handleExport = useCallback(() => {
+    downloadTextFile(exportFilterPresets(presets), PRESETS_FILE_NAME, 'application/json');
+  }, [presets]);
+
+  const handleImport = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseFilterPresetFile(await file.text());
+      importFilterPresets(imported);
+      setImportStatus({
+        kind: 'success',
+        message: `Imported ${imported.length} ${imported.length === 1 ? 'preset' : 'presets'}`,
+      });
+    } catch (error) {
+      setImportStatus({
+        kind: 'error',
+        message: error instanceof Error ? error.message : 'Could not import presets',
+      });
+    }
+  }, [importFilterPresets]);
+
+  return (
+    <div ref={menuRef} className={cn('relative', className)}>
+      <button
+        onClick={handleToggle}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label="Filter presets"
+        title="Filter presets"
+        className={cn(
+          "h-full inline-flex items-center justify-center px-2 rounded-r-lg",
+          "bg-white text-gray-700 border border-l-0 border-gray-300 hover:bg-gray-50 active:bg-gray-100",
+          "shadow-sm transition-all duration-200",
+          "focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500",
+          isOpen && "bg-gray-50 border-gray-400"
+        )}
+      >
+        <Bookmark className="h-4 w-4" />
+        <ChevronDown className={cn('h-3 w-3 transition-transform', isOpen && 'rotate-180')} />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration: 0.15 }}
+            role="menu"
+            className="absolute right-0 mt-2 w-72 bg-white rounded-xl shadow-lg border border-gray-200 z-50 overflow-hidden"
+          >
+            {/* Presets */}
+            <div className="px-3 pt-3 pb-1 text-xs font-medium uppercase tracking-wide text-gray-500">
+              Saved presets
+            </div>
+            {presets.length > 0 ? (
+              <ul className="max-h-64 overflow-y-auto pb-1">
+                {presets.map((preset, index) => (
+                  <PresetRow
+                    key={preset.id}
+                    preset={preset}
+                    index={index}
+                    count={presets.length}
+                    isActive={areFiltersEqual(preset.filters, appliedFilters)}
+                  />
+                ))}
+              </ul>
+            ) : (
+              <p className="px-3 pb-3 text-sm text-gray-500">No presets yet</p>
+            )}
+
+            {/* Save Current Filters */}
+            <form onSubmit={handleSave} className="flex items-center gap-2 p-3 border-t border-gray-100">
+              <input
+                value={newPresetName}
+                onChange={(event) => setNewPresetName(event.target.value)}
+                maxLength={MAX_PRESET_NAME_LENGTH}
+                placeholder={canSave ? 'Name current filters' : 'Apply filters to save them'}
+                disabled={!canSave}
+                aria-label="New preset name"
+                className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+              />
+              <button
+                type="submit"
+                disabled={!canSave || !newPresetName.trim()}
+                className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+              >
+                Save
+              </button>
+            </form>
+
+            {/* Share */}
+            <div className="flex items-center justify-between px-3 py-2 border-t border-gray-100 bg-gray-50">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-1 text-xs font-medium text-gray-600 hover:text-gray-900"
+              >
+                <Upload className="h-3.5 w-3.5" />
+                <span>Import JSON</span>
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={presets.length === 0}
+                className="flex items-center gap-1 text-xs font-medium text-gray-600 hover:text-gray-900 disabled:opacity-40"
+              >
+                <Download className="h-3.5 w-3.5" />
+                <span>Export JSON</span>
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleImport}
+                className="hidden"
+              />
+            </div>
+            {importStatus && (
+              <p
+                className={cn(
+                  'px-3 pb-2 text-xs bg-gray-50',
+                  importStatus.kind === 'success' ? 'text-green-700' : 'text-red-600'
+                )}
+              >
+                {importStatus.message}
+              </p>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { DollarSign } from 'lucide-react';
+import type { Currency } from '../../types/index';
+import { CURRENCIES } from '../../types/index';
 import { cn } from '../../utils/cn';
+import { formatCurrency, getCurrencySymbol } from '../../utils/currencyUtils';
+import { formatNightCount } from '../../utils/stayUtils';
 
 // =============================================================================
 // TYPES
@@ -13,6 +16,8 @@ interface PriceRangeSliderProps {
   step: number;
   value: [number, number];
   onChange: (value: [number, number]) => void;
+  currency?: Currency; // Currency of min, max and value
+  nights?: number;     // Stay length; shows the matching stay totals when set
   className?: string;
   disabled?: boolean;
 }
@@ -21,15 +26,6 @@ interface PriceRangeSliderProps {
 // UTILITIES
 // =============================================================================
 
-const formatPrice = (price: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(price);
-};
-
 const clamp = (value: number, min: number, max: number): number => {
   return Math.min(Math.max(value, min), max);
 };
@@ -51,9 +47,14 @@ export default function PriceRangeSlider({
   step,
   value,
   onChange,
+  currency = CURRENCIES.USD,
+  nights,
   className,
   disabled = false
 }: PriceRangeSliderProps) {
+  const currencySymbol = getCurrencySymbol(currency);
+  const formatPrice = (price: number) => formatCurrency(price, currency);
+
   const [isDragging, setIsDragging] = useState<'min' | 'max' | null>(null);
   
   // Separate state for input display strings and actual values
@@ -208,7 +209,7 @@ export default function PriceRangeSlider({
             Minimum
           </label>
           <div className="relative">
-            <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-sm text-gray-400">{currencySymbol}</span>
             <input
               type="text"
               value={inputState.minInput}
@@ -223,7 +224,7 @@ export default function PriceRangeSlider({
                 "disabled:bg-gray-50 disabled:text-gray-500",
                 "transition-colors"
               )}
-              placeholder="$0"
+              placeholder={`${currencySymbol}0`}
             />
           </div>
         </div>
@@ -237,7 +238,7 @@ export default function PriceRangeSlider({
             Maximum
           </label>
           <div className="relative">
-            <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-sm text-gray-400">{currencySymbol}</span>
             <input
               type="text"
               value={inputState.maxInput}
@@ -252,7 +253,7 @@ export default function PriceRangeSlider({
                 "disabled:bg-gray-50 disabled:text-gray-500",
                 "transition-colors"
               )}
-              placeholder="$1000"
+              placeholder={`${currencySymbol}1000`}
             />
           </div>
         </div>
@@ -324,8 +325,13 @@ export default function PriceRangeSlider({
       {/* Current selection display */}
       <div className="text-center">
         <span className="text-sm text-gray-600">
-          {formatPrice(value[0])} - {formatPrice(value[1])}
+          {formatPrice(value[0])} - {formatPrice(value[1])}{nights ? ' per night' : ''}
         </span>
+        {nights && (
+          <div className="text-xs text-gray-500">
+            ≈ {formatPrice(value[0] * nights)} - {formatPrice(value[1] * nights)} total for {formatNightCount(nights)}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,212 @@
+import { useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowUpDown, ArrowUp, ArrowDown, LocateFixed, Map as MapIcon, Landmark } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import { getDefaultSortOrder } from '../../utils/dataProcessor';
+import { getSortLabel } from '../../utils/filterUtils';
+import { getPointsOfInterest, getPointOfInterest, POI_CATEGORY_LABELS } from '../../utils/poiUtils';
+import type { SortBy, SortOrder, DistanceReference } from '../../types/index';
+import { SORT_BY, SORT_ORDER, POI_CATEGORIES } from '../../types/index';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface SortControlProps {
+  sortBy?: SortBy;
+  sortOrder?: SortOrder;
+  onChange: (sortBy?: SortBy, sortOrder?: SortOrder) => void;
+  distanceReference?: DistanceReference | null;
+  distancePoiId?: string; // Point of interest distances are measured from, if any
+  onDistancePoiChange?: (poiId?: string) => void;
+  className?: string;
+  disabled?: boolean;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const SORT_OPTIONS = Object.values(SORT_BY).map(value => ({
+  value,
+  label: getSortLabel(value),
+}));
+
+const RECOMMENDED_VALUE = '';
+
+const REFERENCE_POINT_VALUE = '';
+
+// Points of interest grouped by category for the "Measured from" picker
+const POI_GROUPS = Object.values(POI_CATEGORIES)
+  .map(category => ({
+    category,
+    label: POI_CATEGORY_LABELS[category],
+    points: getPointsOfInterest().filter(poi => poi.category === category),
+  }))
+  .filter(group => group.points.length > 0);
+
+// =============================================================================
+// UTILITIES
+// =============================================================================
+
+const getOrderLabel = (sortBy: SortBy, sortOrder: SortOrder): string => {
+  const ascending = sortOrder === SORT_ORDER.Ascending;
+
+  switch (sortBy) {
+    case SORT_BY.Price:
+      return ascending ? 'Low to high' : 'High to low';
+    case SORT_BY.Name:
+      return ascending ? 'A to Z' : 'Z to A';
+    case SORT_BY.Distance:
+      return ascending ? 'Nearest first' : 'Farthest first';
+    default:
+      return ascending ? 'Lowest first' : 'Highest first';
+  }
+};
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export default function SortControl({
+  sortBy,
+  sortOrder,
+  onChange,
+  distanceReference,
+  distancePoiId,
+  onDistancePoiChange,
+  className,
+  disabled = false
+}: SortControlProps) {
+  const distancePoi = distancePoiId ? getPointOfInterest(distancePoiId) : null;
+  const effectiveOrder = sortBy ? sortOrder ?? getDefaultSortOrder(sortBy) : undefined;
+
+  // Switching criteria resets to its natural order
+  const handleSortByChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value;
+    if (value === RECOMMENDED_VALUE) {
+      onChange(undefined, undefined);
+      return;
+    }
+    const nextSortBy = value as SortBy;
+    onChange(nextSortBy, getDefaultSortOrder(nextSortBy));
+  }, [onChange]);
+
+  const handleToggleOrder = useCallback(() => {
+    if (!sortBy || disabled) return;
+    onChange(
+      sortBy,
+      effectiveOrder === SORT_ORDER.Ascending ? SORT_ORDER.Descending : SORT_ORDER.Ascending
+    );
+  }, [sortBy, effectiveOrder, onChange, disabled]);
+
+  const handleDistancePoiChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value;
+    onDistancePoiChange?.(value === REFERENCE_POINT_VALUE ? undefined : value);
+  }, [onDistancePoiChange]);
+
+  return (
+    <div className={cn("w-full space-y-2", className)}>
+      <div className="flex items-center space-x-2">
+        <div className="relative flex-1">
+          <ArrowUpDown className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400 pointer-events-none" />
+          <select
+            value={sortBy ?? RECOMMENDED_VALUE}
+            onChange={handleSortByChange}
+            disabled={disabled}
+            aria-label="Sort hotels by"
+            className={cn(
+              "w-full pl-10 pr-3 py-2 text-sm border border-gray-300 rounded-lg bg-white appearance-none",
+              "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent",
+              "disabled:bg-gray-50 disabled:text-gray-500",
+              "transition-colors"
+            )}
+          >
+            <option value={RECOMMENDED_VALUE}>Recommended</option>
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Sort Order Toggle */}
+        {sortBy && effectiveOrder && (
+          <motion.button
+            type="button"
+            onClick={handleToggleOrder}
+            disabled={disabled}
+            className={cn(
+              "flex items-center space-x-1 px-3 py-2 text-sm border border-gray-300 rounded-lg",
+              "hover:bg-gray-50 transition-colors whitespace-nowrap",
+              "disabled:opacity-50 disabled:cursor-not-allowed"
+            )}
+            whileTap={{ scale: 0.95 }}
+            aria-label="Toggle sort order"
+          >
+            {effectiveOrder === SORT_ORDER.Ascending ? (
+              <ArrowUp className="h-4 w-4" />
+            ) : (
+              <ArrowDown className="h-4 w-4" />
+            )}
+            <span>{getOrderLabel(sortBy, effectiveOrder)}</span>
+          </motion.button>
+        )}
+      </div>
+
+      {/* Distance Origin Picker */}
+      {sortBy === SORT_BY.Distance && onDistancePoiChange && (
+        <select
+          value={distancePoi?.id ?? REFERENCE_POINT_VALUE}
+          onChange={handleDistancePoiChange}
+          disabled={disabled}
+          aria-label="Measure distance from"
+          className={cn(
+            "w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white",
+            "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent",
+            "disabled:bg-gray-50 disabled:text-gray-500",
+            "transition-colors"
+          )}
+        >
+          <option value={REFERENCE_POINT_VALUE}>
+            {distanceReference?.source === 'user-location' ? 'Your location' : 'Map center'}
+          </option>
+          {POI_GROUPS.map(group => (
+            <optgroup key={group.category} label={group.label}>
+              {group.points.map(poi => (
+                <option key={poi.id} value={poi.id}>
+                  {poi.name}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      )}
+
+      {/* Distance Reference Hint */}
+      {sortBy === SORT_BY.Distance && (
+        <div className="flex items-center space-x-1 text-xs text-gray-500">
+          {distancePoi ? (
+            <>
+              <Landmark className="h-3 w-3" />
+              <span>Measured from {distancePoi.name}</span>
+            </>
+          ) : distanceReference?.source === 'user-location' ? (
+            <>
+              <LocateFixed className="h-3 w-3" />
+              <span>Measured from your location</span>
+            </>
+          ) : distanceReference ? (
+            <>
+              <MapIcon className="h-3 w-3" />
+              <span>Measured from the map center</span>
+            </>
+          ) : (
+            <span>Waiting for a location to measure from…</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import React, { useCallback, forwardRef } from 'react';
+import { motion } from 'framer-motion';
+import { Star, MapPin } from 'lucide-react';
+import type { HotelCardProps } from '../../types/index';
+import { cn } from '../../utils/cn';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import { getHotelMarkerColor } from '../../utils/colorUtils';
+import { formatDistance, toMiles } from '../../utils/distanceUtils';
+
+// =============================================================================
+// HOTEL CARD COMPONENT
+// =============================================================================
+
+export const HotelCard = React.memo(forwardRef<HTMLDivElement, HotelCardProps>(({
+  hotel,
+  isSelected = false,
+  isHovered = false,
+  onSelect,
+  onHover,
+  showDistance = false,
+  distance,
+  className,
+}, ref) => {
+  const handleClick = useCallback(() => {
+    onSelect?.(hotel);
+  }, [hotel, onSelect]);
+
+  const handleMouseEnter = useCallback(() => {
+    onHover?.(hotel);
+  }, [hotel, onHover]);
+
+  const handleMouseLeave = useCallback(() => {
+    onHover?.(null);
+  }, [onHover]);
+
+  const handleKeyDown = useCallback((event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      onSelect?.(hotel);
+    }
+  }, [hotel, onSelect]);
+
+  // Same color semantics as the hotel's map marker
+  const ratingColor = getHotelMarkerColor(hotel.rating, isSelected, isHovered);
+  const { formatHotelPrice } = usePriceFormatter();
+
+  return (
+    <motion.div
+      ref={ref}
+      layout="position"
+      role="button"
+      tabIndex={0}
+      aria-pressed={isSelected}
+      onClick={handleClick}
+      onKeyDown={handleKeyDown}
+      onMouseEnter={handleMouseEnter}
+      onMouseLeave={handleMouseLeave}
+      className={cn(
+        'flex gap-3 p-3 rounded-lg border bg-white cursor-pointer',
+        'transition-colors duration-200',
+        'focus:outline-none focus:ring-2 focus:ring-blue-500',
+        isSelected
+          ? 'border-red-300 bg-red-50 shadow-md'
+          : isHovered
+          ? 'border-orange-300 bg-orange-50 shadow-sm'
+          : 'border-gray-200 hover:border-gray-300',
+        className
+      )}
+    >
+      {/* Hotel Image */}
+      <div className="relative flex-shrink-0">
+        <img
+          src={hotel.image_url}
+          alt={hotel.name}
+          className="w-20 h-20 rounded-lg object-cover"
+          loading="lazy"
+        />
+        <div className="absolute top-1 left-1 bg-black/70 text-white px-1.5 py-0.5 rounded text-xs">
+          {hotel.star_rating}★
+        </div>
+      </div>
+
+      {/* Hotel Info */}
+      <div className="flex-1 min-w-0 space-y-1">
+        <h3 className="font-semibold text-sm leading-tight line-clamp-2 text-gray-900">
+          {hotel.name}
+        </h3>
+
+        <p className="text-xs text-gray-500 truncate">
+          {hotel.address}
+        </p>
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-1 text-xs">
+            <span
+              className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-white font-semibold"
+              style={{ backgroundColor: ratingColor }}
+            >
+              <Star className="w-3 h-3" fill="currentColor" />
+              {hotel.rating.toFixed(1)}
+            </span>
+            <span className="text-gray-500">
+              ({hotel.review_count})
+            </span>
+          </div>
+
+          <span className="text-sm font-semibold text-green-600">
+            {formatHotelPrice(hotel)}
+          </span>
+        </div>
+
+        {showDistance && distance !== undefined && (
+          <div className="flex items-center gap-1 text-xs text-gray-500">
+            <MapPin className="w-3 h-3" />
+            <span>{formatDistance(toMiles(distance))} away</span>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}));
+
+HotelCard.displayName = 'HotelCard';
+
+export default HotelCard;
@@ -0,0 +1,345 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ArrowLeft,
+  Star,
+  MapPin,
+  BedDouble,
+  Check,
+  Map as MapIcon,
+  Navigation,
+} from 'lucide-react';
+import type { Hotel } from '../../types/index';
+import { cn } from '../../utils/cn';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import { getColorInfo, getHotelMarkerColor } from '../../utils/colorUtils';
+import { findNearbyHotels, formatDistance } from '../../utils/distanceUtils';
+import { getStaticMapUrl } from '../../utils/mapUtils';
+import { navigate, getHomeUrl, getHotelPath } from '../../utils/router';
+import { decodeUrlState, encodeUrlState } from '../../utils/urlState';
+import { useAppStore, selectHotels } from '../../store';
+import NotFoundScreen from '../UI/NotFoundScreen';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface HotelDetailPageProps {
+  hotelId: number;
+  appTitle: string;
+}
+
+interface RatingBreakdownProps {
+  hotel: Hotel;
+  hotels: Hotel[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const NEARBY_HOTELS_LIMIT = 5;
+const MAX_GUEST_RATING = 10;
+
+// =============================================================================
+// RATING BREAKDOWN
+// =============================================================================
+
+function RatingBreakdown({ hotel, hotels }: RatingBreakdownProps) {
+  const colorInfo = getColorInfo(hotel.rating);
+  const ratingColor = getHotelMarkerColor(hotel.rating);
+
+  // Compare against the rest of the dataset
+  const { rank, averageRating } = useMemo(() => {
+    const ratings = hotels.map(h => h.rating);
+    return {
+      rank: ratings.filter(rating => rating > hotel.rating).length + 1,
+      averageRating: ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length,
+    };
+  }, [hotel.rating, hotels]);
+
+  const difference = hotel.rating - averageRating;
+
+  return (
+    <div className="space-y-4">
+      {/* Guest Rating */}
+      <div>
+        <div className="flex items-baseline justify-between mb-1">
+          <span className="text-sm font-medium text-gray-700">Guest rating</span>
+          <span className="text-sm text-gray-500">
+            <span className="text-lg font-semibold text-gray-900">{hotel.rating.toFixed(1)}</span>
+            /{MAX_GUEST_RATING} · {colorInfo.description}
+          </span>
+        </div>
+        <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+          <motion.div
+            className="h-full rounded-full"
+            style={{ backgroundColor: ratingColor }}
+            initial={{ width: 0 }}
+            animate={{ width: `${(hotel.rating / MAX_GUEST_RATING) * 100}%` }}
+            transition={{ duration: 0.6, ease: 'easeOut' }}
+          />
+        </div>
+      </div>
+
+      {/* Star Rating */}
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">Hotel class</span>
+        <div className="flex items-center space-x-0.5" aria-label={`${hotel.star_rating} stars`}>
+          {Array.from({ length: 5 }, (_, index) => (
+            <Star
+              key={index}
+              className={cn(
+                'h-4 w-4',
+                index < hotel.star_rating ? 'text-yellow-500 fill-current' : 'text-gray-300'
+              )}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Reviews */}
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">Reviews</span>
+        <span className="text-sm text-gray-900">{hotel.review_count.toLocaleString()}</span>
+      </div>
+
+      {/* Dataset Comparison */}
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">Ranking</span>
+        <span className="text-sm text-gray-900">
+          #{rank} of {hotels.length} ·{' '}
+          <span className={difference >= 0 ? 'text-green-600' : 'text-red-600'}>
+            {difference >= 0 ? '+' : ''}{difference.toFixed(1)} vs. average
+          </span>
+        </span>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export default function HotelDetailPage({ hotelId, appTitle }: HotelDetailPageProps) {
+  const hotels = useAppStore(selectHotels);
+  const { formatHotelPrice, formatListedPrice, formatStayTotal } = usePriceFormatter();
+
+  const hotel = useMemo(
+    () => hotels.find(h => h.hotel_id === hotelId) ?? null,
+    [hotels, hotelId]
+  );
+
+  const nearbyHotels = useMemo(
+    () => (hotel ? findNearbyHotels(hotel, hotels, NEARBY_HOTELS_LIMIT) : []),
+    [hotel, hotels]
+  );
+
+  const staticMapUrl = hotel ? getStaticMapUrl(hotel.latitude, hotel.longitude) : null;
+
+  // Reflect the hotel in the browser tab
+  useEffect(() => {
+    if (!hotel) return;
+
+    const previousTitle = document.title;
+    document.title = `${hotel.name} · ${appTitle}`;
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [hotel, appTitle]);
+
+  const handleBackToMap = useCallback(() => {
+    navigate(getHomeUrl());
+  }, []);
+
+  // Return to the map with this hotel selected, keeping the previous filters
+  const handleShowOnMap = useCallback(() => {
+    const homeState = decodeUrlState(getHomeUrl().split('?')[1] ?? '');
+    navigate(`/${encodeUrlState({ ...homeState, view: null, selectedHotelId: hotelId })}`);
+  }, [hotelId]);
+
+  if (!hotel) {
+    return (
+      <NotFoundScreen
+        title="Hotel Not Found"
+        message={`We couldn't find a hotel with ID ${hotelId}.`}
+        onBack={handleBackToMap}
+      />
+    );
+  }
+
+  const listedPrice = formatListedPrice(hotel);
+  const stayTotal = formatStayTotal(hotel);
+
+  return (
+    <div className="h-screen overflow-y-auto bg-gray-50">
+      {/* Top Bar */}
+      <div className="sticky top-0 z-10 bg-white/90 backdrop-blur border-b border-gray-200">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center justify-between">
+          <button
+            onClick={handleBackToMap}
+            className="flex items-center space-x-2 text-sm font-medium text-gray-700 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back to map</span>
+          </button>
+          <button
+            onClick={handleShowOnMap}
+            className="flex items-center space-x-2 px-3 py-1.5 text-sm font-medium text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors"
+          >
+            <MapIcon className="h-4 w-4" />
+            <span>Show on map</span>
+          </button>
+        </div>
+      </div>
+
+      <motion.div
+        key={hotel.hotel_id}
+        initial={{ opacity: 0, y: 12 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="max-w-5xl mx-auto px-4 py-6 space-y-6"
+      >
+        {/* Hero Image */}
+        <div className="relative rounded-2xl overflow-hidden shadow-lg bg-gray-200">
+          <img
+            src={hotel.image_url}
+            alt={hotel.name}
+            className="w-full h-64 md:h-96 object-cover"
+          />
+          <div className="absolute top-4 right-4 bg-black/70 text-white px-3 py-1 rounded-lg text-sm">
+            {hotel.star_rating}★
+          </div>
+        </div>
+
+        {/* Title */}
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div className="space-y-1">
+            <h1 className="text-3xl font-bold text-gray-900">{hotel.name}</h1>
+            <div className="flex items-center space-x-1 text-gray-600">
+              <MapPin className="h-4 w-4 flex-shrink-0" />
+              <span>{hotel.address}</span>
+            </div>
+          </div>
+          <div className="flex-shrink-0 md:text-right">
+            <div className="flex items-center space-x-1 text-green-600 md:justify-end">
+              <span className="text-3xl font-bold">{formatHotelPrice(hotel)}</span>
+              <span className="text-sm text-gray-500 self-end mb-1">/ night</span>
+            </div>
+            {stayTotal && (
+              <div className="text-sm text-gray-700">{stayTotal}</div>
+            )}
+            {listedPrice && (
+              <div className="text-xs text-gray-500">Listed at {listedPrice}</div>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="md:col-span-2 space-y-6">
+            {/* Room Type */}
+            <section className="bg-white rounded-xl border border-gray-200 p-5">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Room</h2>
+              <div className="flex items-center space-x-2 text-gray-700">
+                <BedDouble className="h-5 w-5 text-gray-500" />
+                <span>{hotel.room_type}</span>
+              </div>
+            </section>
+
+            {/* Amenities */}
+            <section className="bg-white rounded-xl border border-gray-200 p-5">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Amenities</h2>
+              {hotel.amenities.length > 0 ? (
+                <ul className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {hotel.amenities.map(amenity => (
+                    <li key={amenity} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <Check className="h-4 w-4 text-green-600 flex-shrink-0" />
+                      <span>{amenity}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500">No amenities listed</p>
+              )}
+            </section>
+
+            {/* Rating Breakdown */}
+            <section className="bg-white rounded-xl border border-gray-200 p-5">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Ratings</h2>
+              <RatingBreakdown hotel={hotel} hotels={hotels} />
+            </section>
+          </div>
+
+          <div className="space-y-6">
+            {/* Static Map */}
+            <section className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+              {staticMapUrl ? (
+                <button
+                  onClick={handleShowOnMap}
+                  className="block w-full"
+                  aria-label="Show on interactive map"
+                >
+                  <img
+                    src={staticMapUrl}
+                    alt={`Map of ${hotel.name}`}
+                    className="w-full h-48 object-cover"
+                    loading="lazy"
+                  />
+                </button>
+              ) : (
+                <div className="h-48 flex items-center justify-center bg-gray-100 text-sm text-gray-500">
+                  Map preview unavailable
+                </div>
+              )}
+              <div className="px-4 py-3 text-xs text-gray-500">
+                {hotel.latitude.toFixed(4)}, {hotel.longitude.toFixed(4)}
+              </div>
+            </section>
+
+            {/* Nearby Hotels */}
+            <section className="bg-white rounded-xl border border-gray-200 p-5">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Nearby hotels</h2>
+              {nearbyHotels.length > 0 ? (
+                <ul className="space-y-2">
+                  {nearbyHotels.map(({ hotel: nearbyHotel, distance }) => (
+                    <li key={nearbyHotel.hotel_id}>
+                      <button
+                        onClick={() => navigate(getHotelPath(nearbyHotel.hotel_id))}
+                        className="w-full flex items-center gap-3 p-2 rounded-lg hover:bg-gray-50 text-left transition-colors"
+                      >
+                        <img
+                          src={nearbyHotel.image_url}
+                          alt={nearbyHotel.name}
+                          className="w-12 h-12 rounded-lg object-cover flex-shrink-0"
+                          loading="lazy"
+                        />
+                        <div className="min-w-0 flex-1">
+                          <div className="text-sm font-medium text-gray-900 truncate">
+                            {nearbyHotel.name}
+                          </div>
+                          <div className="flex items-center space-x-2 text-xs text-gray-500">
+                            <span className="flex items-center space-x-0.5">
+                              <Star className="h-3 w-3 text-yellow-500 fill-current" />
+                              <span>{nearbyHotel.rating.toFixed(1)}</span>
+                            </span>
+                            <span className="flex items-center space-x-0.5">
+                              <Navigation className="h-3 w-3" />
+                              <span>{formatDistance(distance)}</span>
+                            </span>
+                          </div>
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500">No other hotels nearby</p>
+              )}
+            </section>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Star, MapPin } from 'lucide-react';
+import { Star, MapPin, ArrowRight } from 'lucide-react';
 import type { Hotel } from '../../types/index';
-import { calculateDistance, getUserLocation } from '../../utils/distanceUtils';
+import { calculateDistance } from '../../utils/dataProcessor';
+import { formatDistance, getUserLocation, toMiles } from '../../utils/distanceUtils';
 import type { UserLocation } from '../../utils/distanceUtils';
+import { navigate, getHotelPath } from '../../utils/router';
+import FavoriteButton from '../Favorites/FavoriteButton';
+import NearbyPlaces from './NearbyPlaces';
 
 interface HotelInfoBarProps {
   hotel: Hotel | null;
@@ -37,13 +41,13 @@ const HotelInfoBar: React.FC<HotelInfoBarProps> = ({ hotel, onClose }) => {
           className="absolute top-0 left-0 right-0 z-10 bg-blue-50 border-b border-blue-200 px-4 py-3 shadow-lg"
         >
           <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-3">
+            <div className="flex items-center space-x-3 min-w-0">
               <img
                 src={hotel.image_url}
                 alt={hotel.name}
                 className="w-12 h-12 rounded-lg object-cover"
               />
-              <div>
+              <div className="min-w-0">
                 <h3 className="font-semibold text-gray-900">{hotel.name}</h3>
                 <div className="flex items-center space-x-4 text-sm text-gray-600">
                   <div className="flex items-center space-x-1">
@@ -53,22 +57,33 @@ const HotelInfoBar: React.FC<HotelInfoBarProps> = ({ hotel, onClose }) => {
                   {userLocation && (
                     <div className="flex items-center space-x-1">
                       <MapPin className="w-3 h-3" />
-                      <span>{calculateDistance(userLocation.latitude, userLocation.longitude, hotel.latitude, hotel.longitude)} mi</span>
+                      <span>{formatDistance(toMiles(calculateDistance(userLocation, hotel)))}</span>
                     </div>
                   )}
                   <span>{hotel.address}</span>
                 </div>
+                <NearbyPlaces hotel={hotel} limit={2} variant="inline" className="mt-0.5" />
               </div>
             </div>
-            <button
-              onClick={onClose}
-              className="text-gray-400 hover:text-gray-600 transition-colors"
-            >
-              <span className="sr-only">Close</span>
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-              </svg>
-            </button>
+            <div className="flex items-center space-x-3">
+              <FavoriteButton hotel={hotel} size="sm" />
+              <button
+                onClick={() => navigate(getHotelPath(hotel.hotel_id))}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm font-medium text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors"
+              >
+                <span>Details</span>
+                <ArrowRight className="w-4 h-4" />
+              </button>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <span className="sr-only">Close</span>
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
           </div>
         </motion.div>
       )}
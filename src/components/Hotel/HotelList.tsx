@@ -0,0 +1,207 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { List, X, SearchX, ArrowUpDown } from 'lucide-react';
+import type { Hotel } from '../../types/index';
+import { cn } from '../../utils/cn';
+import { getSortDescription } from '../../utils/filterUtils';
+import {
+  useAppStore,
+  selectAppliedFilters,
+  selectFilteredHotels,
+  selectSelectedHotel,
+  selectHoveredHotel,
+} from '../../store';
+import HotelCard from './HotelCard';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface HotelListProps {
+  isOpen: boolean;
+  onClose: () => void;
+  className?: string;
+}
+
+type HoverSource = 'list' | 'map';
+
+// =============================================================================
+// UTILITIES
+// =============================================================================
+
+// Distance is only present when results are sorted by distance or within a radius
+const getHotelDistance = (hotel: Hotel): number | undefined => {
+  return 'distance' in hotel && typeof hotel.distance === 'number' ? hotel.distance : undefined;
+};
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export default function HotelList({ isOpen, onClose, className }: HotelListProps) {
+  const hotels = useAppStore(selectFilteredHotels);
+  const appliedFilters = useAppStore(selectAppliedFilters);
+  const selectedHotel = useAppStore(selectSelectedHotel);
+  const hoveredHotel = useAppStore(selectHoveredHotel);
+  const setSelectedHotel = useAppStore(state => state.setSelectedHotel);
+  const setHoveredHotel = useAppStore(state => state.setHoveredHotel);
+
+  const cardRefs = useRef(new Map<number, HTMLDivElement>());
+  // Remember where the hover came from so hovering a card doesn't scroll the list
+  const hoverSourceRef = useRef<HoverSource>('map');
+
+  const refCallbacks = useRef(new Map<number, (element: HTMLDivElement | null) => void>());
+
+  // Stable ref callback per hotel so memoized cards don't re-render
+  const registerCard = useCallback((hotelId: number) => {
+    let callback = refCallbacks.current.get(hotelId);
+    if (!callback) {
+      callback = (element: HTMLDivElement | null) => {
+        if (element) {
+          cardRefs.current.set(hotelId, element);
+        } else {
+          cardRefs.current.delete(hotelId);
+        }
+      };
+      refCallbacks.current.set(hotelId, callback);
+    }
+    return callback;
+  }, []);
+
+  const handleCardHover = useCallback((hotel: Hotel | null) => {
+    hoverSourceRef.current = 'list';
+    setHoveredHotel(hotel);
+  }, [setHoveredHotel]);
+
+  const handleCardSelect = useCallback((hotel: Hotel) => {
+    setSelectedHotel(hotel);
+  }, [setSelectedHotel]);
+
+  // Scroll to the card of a hotel hovered on the map
+  useEffect(() => {
+    const hoverSource = hoverSourceRef.current;
+    hoverSourceRef.current = 'map';
+
+    if (!isOpen || !hoveredHotel || hoverSource === 'list') return;
+
+    cardRefs.current.get(hoveredHotel.hotel_id)?.scrollIntoView({
+      behavior: 'smooth',
+      block: 'nearest',
+    });
+  }, [hoveredHotel, isOpen]);
+
+  // Keep the selected hotel's card in view
+  useEffect(() => {
+    if (!isOpen || !selectedHotel) return;
+
+    cardRefs.current.get(selectedHotel.hotel_id)?.scrollIntoView({
+      behavior: 'smooth',
+      block: 'nearest',
+    });
+  }, [selectedHotel, isOpen]);
+
+  return (
+    <AnimatePresence initial={false}>
+      {isOpen && (
+        <motion.aside
+          initial={{ width: 0, opacity: 0 }}
+          animate={{ width: 360, opacity: 1 }}
+          exit={{ width: 0, opacity: 0 }}
+          transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+          className={cn(
+            'hidden md:flex flex-col flex-shrink-0 bg-gray-50 border-r border-gray-200 overflow-hidden',
+            className
+          )}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 bg-white border-b border-gray-200">
+            <div className="flex items-center space-x-2">
+              <List className="h-4 w-4 text-gray-700" />
+              <h2 className="text-sm font-semibold text-gray-900">Results</h2>
+              <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded-full">
+                {hotels.length}
+              </span>
+            </div>
+            <div className="flex items-center space-x-2">
+              {appliedFilters.sortBy && (
+                <span className="flex items-center space-x-1 text-xs text-gray-500">
+                  <ArrowUpDown className="h-3 w-3" />
+                  <span>{getSortDescription(appliedFilters)}</span>
+                </span>
+              )}
+              <button
+                onClick={onClose}
+                className="p-1.5 hover:bg-gray-100 rounded-lg transition-colors"
+                aria-label="Close results list"
+              >
+                <X className="h-4 w-4 text-gray-500" />
+              </button>
+            </div>
+          </div>
+
+          {/* Hotel Cards */}
+          <div className="flex-1 overflow-y-auto p-3 space-y-2 w-[360px]">
+            {hotels.map(hotel => {
+              const distance = getHotelDistance(hotel);
+
+              return (
+                <HotelCard
+                  key={hotel.hotel_id}
+                  ref={registerCard(hotel.hotel_id)}
+                  hotel={hotel}
+                  isSelected={selectedHotel?.hotel_id === hotel.hotel_id}
+                  isHovered={hoveredHotel?.hotel_id === hotel.hotel_id}
+                  onSelect={handleCardSelect}
+                  onHover={handleCardHover}
+                  showDistance={distance !== undefined}
+                  distance={distance}
+                />
+              );
+            })}
+
+            {/* Empty State */}
+            {hotels.length === 0 && (
+              <div className="text-center py-12 text-gray-500">
+                <SearchX className="w-8 h-8 mx-auto mb-2 text-gray-400" />
+                <p className="text-sm">No hotels match the current filters</p>
+              </div>
+            )}
+          </div>
+        </motion.aside>
+      )}
+    </AnimatePresence>
+  );
+}
+
+// =============================================================================
+// LIST TOGGLE BUTTON (FOR HEADERS)
+// =============================================================================
+
+interface HotelListToggleProps {
+  isOpen: boolean;
+  onClick: () => void;
+  className?: string;
+}
+
+export function HotelListToggle({ isOpen, onClick, className }: HotelListToggleProps) {
+  return (
+    <motion.button
+      onClick={onClick}
+      aria-pressed={isOpen}
+      className={cn(
+        "hidden md:inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium",
+        "bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 active:bg-gray-100",
+        "shadow-sm hover:shadow-md transition-all duration-200",
+        "focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500",
+        isOpen && "bg-gray-50 border-gray-400 shadow-md",
+        className
+      )}
+      whileHover={{ scale: 1.02 }}
+      whileTap={{ scale: 0.98 }}
+      transition={{ duration: 0.1 }}
+    >
+      <List className="h-4 w-4" />
+      <span>List</span>
+    </motion.button>
+  );
+}
@@ -0,0 +1,82 @@
+import React, { useMemo } from 'react';
+import { Footprints } from 'lucide-react';
+import type { Hotel } from '../../types/index';
+import { cn } from '../../utils/cn';
+import { findNearestPointsOfInterest } from '../../utils/dataProcessor';
+import { formatDistance, toMiles } from '../../utils/distanceUtils';
+import {
+  getPointsOfInterest,
+  formatWalkingTime,
+  POI_CATEGORY_COLORS,
+  POI_CATEGORY_LABELS,
+} from '../../utils/poiUtils';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface NearbyPlacesProps {
+  hotel: Hotel;
+  limit?: number;
+  variant?: 'list' | 'inline'; // Inline fits a single line, e.g. in the info bar
+  className?: string;
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+/**
+ * Nearest points of interest to a hotel with distances and walking times
+ */
+export const NearbyPlaces = React.memo<NearbyPlacesProps>(({
+  hotel,
+  limit = 3,
+  variant = 'list',
+  className,
+}) => {
+  const nearby = useMemo(
+    () => findNearestPointsOfInterest(hotel, getPointsOfInterest(), limit),
+    [hotel, limit]
+  );
+
+  if (nearby.length === 0) return null;
+
+  if (variant === 'inline') {
+    return (
+      <div className={cn('flex items-center gap-1 text-xs text-gray-500 min-w-0', className)}>
+        <Footprints className="w-3 h-3 flex-shrink-0" />
+        <span className="truncate">
+          {nearby
+            .map(({ poi, walkingMinutes }) => `${poi.name} · ${formatWalkingTime(walkingMinutes)}`)
+            .join(', ')}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wide">Nearby</h4>
+      <ul className="space-y-1">
+        {nearby.map(({ poi, distance, walkingMinutes }) => (
+          <li key={poi.id} className="flex items-center gap-2 text-sm">
+            <span
+              className="w-2 h-2 rounded-full flex-shrink-0"
+              style={{ backgroundColor: POI_CATEGORY_COLORS[poi.category] }}
+              title={POI_CATEGORY_LABELS[poi.category]}
+            />
+            <span className="flex-1 truncate text-gray-700">{poi.name}</span>
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              {formatDistance(toMiles(distance))} · {formatWalkingTime(walkingMinutes)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+});
+
+NearbyPlaces.displayName = 'NearbyPlaces';
+
+export default NearbyPlaces;
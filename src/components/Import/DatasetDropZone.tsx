@@ -0,0 +1,255 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FileUp, FileWarning, Loader2, X } from 'lucide-react';
+import { VALIDATION_SEVERITY } from '../../types/index';
+import { cn } from '../../utils/cn';
+import {
+  importHotelFile,
+  combineHotelDatasets,
+  type HotelImportMode,
+  type HotelImportResult,
+} from '../../utils/hotelImport';
+import { useAppStore } from '../../store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface DatasetDropZoneProps {
+  loadedCount: number;
+}
+
+type ImportPhase =
+  | { status: 'idle' }
+  | { status: 'dragging' }
+  | { status: 'parsing'; fileName: string }
+  | { status: 'ready'; result: HotelImportResult }
+  | { status: 'error'; fileName: string; message: string };
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function hasFiles(event: DragEvent): boolean {
+  return event.dataTransfer?.types.includes('Files') ?? false;
+}
+
+// Issues listed in the dialog; the full list is on the data quality page
+const MAX_LISTED_ISSUES = 3;
+
+const FORMAT_LABELS: Record<HotelImportResult['format'], string> = {
+  csv: 'CSV',
+  geojson: 'GeoJSON',
+  json: 'JSON',
+};
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+/**
+ * Window-wide drop target for CSV and GeoJSON hotel datasets
+ * Parsed files are validated, then the user chooses to replace or merge
+ */
+export default function DatasetDropZone({ loadedCount }: DatasetDropZoneProps) {
+  const [phase, setPhase] = useState<ImportPhase>({ status: 'idle' });
+  const dragDepthRef = useRef(0);
+
+  const setHotels = useAppStore(state => state.setHotels);
+  const setDataQualityReport = useAppStore(state => state.setDataQualityReport);
+
+  const handleFile = useCallback(async (file: File) => {
+    setPhase({ status: 'parsing', fileName: file.name });
+
+    try {
+      const result = await importHotelFile(file);
+      setPhase({ status: 'ready', result });
+    } catch (error) {
+      setPhase({
+        status: 'error',
+        fileName: file.name,
+        message: error instanceof Error ? error.message : 'Could not read file',
+      });
+    }
+  }, []);
+
+  // Listen on the window so files can be dropped anywhere in the app
+  useEffect(() => {
+    const handleDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      dragDepthRef.current += 1;
+      setPhase(current => (current.status === 'idle' ? { status: 'dragging' } : current));
+    };
+
+    const handleDragOver = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      if (event.dataTransfer) event.dataTransfer.dropEffect = 'copy';
+    };
+
+    const handleDragLeave = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+      if (dragDepthRef.current === 0) {
+        setPhase(current => (current.status === 'dragging' ? { status: 'idle' } : current));
+      }
+    };
+
+    const handleDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      dragDepthRef.current = 0;
+
+      const file = event.dataTransfer?.files[0];
+      if (file) {
+        handleFile(file);
+      } else {
+        setPhase({ status: 'idle' });
+      }
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, [handleFile]);
+
+  const handleDismiss = useCallback(() => {
+    setPhase({ status: 'idle' });
+  }, []);
+
+  const handleImport = useCallback((result: HotelImportResult, mode: HotelImportMode) => {
+    const current = useAppStore.getState().hotels;
+    setHotels(combineHotelDatasets(current, result.hotels, mode));
+    setDataQualityReport(`Imported ${FORMAT_LABELS[result.format]} (${result.fileName})`, result);
+    setPhase({ status: 'idle' });
+  }, [setHotels, setDataQualityReport]);
+
+  return (
+    <AnimatePresence>
+      {phase.status !== 'idle' && (
+        <motion.div
+          key="dataset-drop-zone"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className={cn(
+            'fixed inset-0 z-[60] flex items-center justify-center p-4',
+            phase.status === 'dragging' ? 'bg-blue-600/20 backdrop-blur-sm' : 'bg-black/40'
+          )}
+        >
+          {phase.status === 'dragging' && (
+            <div className="pointer-events-none w-full h-full rounded-2xl border-4 border-dashed border-blue-500 flex flex-col items-center justify-center text-blue-700">
+              <FileUp className="h-12 w-12 mb-3" />
+              <p className="text-lg font-semibold">Drop a CSV or GeoJSON file to import hotels</p>
+            </div>
+          )}
+
+          {phase.status === 'parsing' && (
+            <div className="bg-white rounded-xl shadow-xl p-6 flex items-center space-x-3">
+              <Loader2 className="h-5 w-5 text-blue-600 animate-spin" />
+              <span className="text-sm text-gray-700">Reading {phase.fileName}…</span>
+            </div>
+          )}
+
+          {phase.status === 'error' && (
+            <div className="bg-white rounded-xl shadow-xl p-6 max-w-md w-full space-y-4">
+              <div className="flex items-start space-x-3">
+                <FileWarning className="h-6 w-6 text-red-600 flex-shrink-0" />
+                <div>
+                  <h2 className="font-semibold text-gray-900">Could not import {phase.fileName}</h2>
+                  <p className="text-sm text-gray-600">{phase.message}</p>
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <button
+                  onClick={handleDismiss}
+                  className="px-4 py-2 text-sm rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+          )}
+
+          {phase.status === 'ready' && (() => {
+            const { result } = phase;
+            const droppedCount = result.totalRecords - result.hotels.length;
+            const fixedCount = result.issues.filter(issue => issue.severity === VALIDATION_SEVERITY.Warning).length;
+
+            return (
+              <motion.div
+                initial={{ scale: 0.95, y: 10 }}
+                animate={{ scale: 1, y: 0 }}
+                className="bg-white rounded-xl shadow-xl p-6 max-w-md w-full space-y-4"
+                role="dialog"
+                aria-label={`Import ${result.fileName}`}
+              >
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h2 className="font-semibold text-gray-900">Import {result.fileName}</h2>
+                    <p className="text-sm text-gray-500">{FORMAT_LABELS[result.format]} · {result.totalRecords} records</p>
+                  </div>
+                  <button
+                    onClick={handleDismiss}
+                    className="p-1 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-100 transition-colors"
+                    aria-label="Cancel import"
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
+                </div>
+
+                <ul className="text-sm text-gray-700 space-y-1">
+                  <li><span className="font-medium text-green-600">{result.hotels.length}</span> hotels ready to load</li>
+                  {droppedCount > 0 && (
+                    <li><span className="font-medium text-red-600">{droppedCount}</span> records dropped</li>
+                  )}
+                  {fixedCount > 0 && (
+                    <li><span className="font-medium text-amber-600">{fixedCount}</span> values fixed</li>
+                  )}
+                </ul>
+
+                {result.issues.length > 0 && (
+                  <ul className="text-xs text-gray-500 space-y-1 border-t border-gray-100 pt-3">
+                    {result.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                      <li key={`${issue.recordIndex}-${issue.field}-${index}`}>
+                        #{issue.recordIndex} {issue.field}: {issue.message}
+                      </li>
+                    ))}
+                    {result.issues.length > MAX_LISTED_ISSUES && (
+                      <li>…and {result.issues.length - MAX_LISTED_ISSUES} more, listed on the data quality page after import</li>
+                    )}
+                  </ul>
+                )}
+
+                <div className="flex flex-col sm:flex-row gap-2 pt-2">
+                  <button
+                    onClick={() => handleImport(result, 'replace')}
+                    className="flex-1 px-4 py-2 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                  >
+                    Replace dataset
+                  </button>
+                  <button
+                    onClick={() => handleImport(result, 'merge')}
+                    disabled={loadedCount === 0}
+                    className="flex-1 px-4 py-2 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                  >
+                    Merge with {loadedCount} loaded
+                  </button>
+                </div>
+              </motion.div>
+            );
+          })()}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,11 +1,14 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { MapPin, Users, Star } from 'lucide-react';
+import type { Currency } from '../../types/index';
+import { formatCurrency } from '../../utils/currencyUtils';
 
 interface DataStats {
   totalHotels: number;
   avgRating: number;
   priceRange: { min: number; max: number };
+  currency: Currency; // Currency of priceRange
 }
 
 interface AppHeaderProps {
@@ -51,7 +54,7 @@ const AppHeader: React.FC<AppHeaderProps> = ({ title, subtitle, stats, children
               </div>
               <div className="flex items-center space-x-2">
                 <span className="text-green-600 font-medium">
-                  ${stats.priceRange.min} - ${stats.priceRange.max}
+                  {formatCurrency(stats.priceRange.min, stats.currency)} - {formatCurrency(stats.priceRange.max, stats.currency)}
                 </span>
                 <span className="text-gray-500">per night</span>
               </div>
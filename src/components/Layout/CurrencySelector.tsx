@@ -0,0 +1,53 @@
+import { Coins } from 'lucide-react';
+import type { Currency } from '../../types/index';
+import { CURRENCIES } from '../../types/index';
+import { cn } from '../../utils/cn';
+import { getExchangeRates, getCurrencySymbol } from '../../utils/currencyUtils';
+import { useAppStore, selectDisplayCurrency } from '../../store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface CurrencySelectorProps {
+  className?: string;
+}
+
+const CURRENCY_OPTIONS = Object.values(CURRENCIES);
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export default function CurrencySelector({ className }: CurrencySelectorProps) {
+  const displayCurrency = useAppStore(selectDisplayCurrency);
+  const setDisplayCurrency = useAppStore(state => state.setDisplayCurrency);
+  const { asOf } = getExchangeRates();
+
+  return (
+    <label
+      className={cn(
+        "relative inline-flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium",
+        "bg-white text-gray-700 border border-gray-300 hover:bg-gray-50",
+        "shadow-sm transition-all duration-200",
+        "focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-blue-500",
+        className
+      )}
+      title={`Exchange rates as of ${asOf}`}
+    >
+      <Coins className="h-4 w-4" />
+      <span className="sr-only">Display currency</span>
+      <select
+        value={displayCurrency}
+        onChange={(event) => setDisplayCurrency(event.target.value as Currency)}
+        className="bg-transparent focus:outline-none cursor-pointer"
+      >
+        {CURRENCY_OPTIONS.map(currency => (
+          <option key={currency} value={currency}>
+            {currency} ({getCurrencySymbol(currency)})
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CalendarDays, X } from 'lucide-react';
+import type { StayDates } from '../../types/index';
+import { cn } from '../../utils/cn';
+import {
+  MAX_STAY_NIGHTS,
+  addDays,
+  getTodayIsoDate,
+  getStayNightCount,
+  isValidStay,
+  formatNightCount,
+} from '../../utils/stayUtils';
+import { useAppStore, selectStayDates } from '../../store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface StayDatesPickerProps {
+  className?: string;
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export default function StayDatesPicker({ className }: StayDatesPickerProps) {
+  const stay = useAppStore(selectStayDates);
+  const setStayDates = useAppStore(state => state.setStayDates);
+
+  // Draft dates; only a complete, valid stay reaches the store
+  const [draft, setDraft] = useState<StayDates>({
+    checkIn: stay?.checkIn ?? '',
+    checkOut: stay?.checkOut ?? '',
+  });
+
+  useEffect(() => {
+    setDraft({ checkIn: stay?.checkIn ?? '', checkOut: stay?.checkOut ?? '' });
+  }, [stay]);
+
+  const commit = useCallback((next: StayDates) => {
+    setDraft(next);
+    if (isValidStay(next)) {
+      setStayDates(next);
+    }
+  }, [setStayDates]);
+
+  // Keep check-out after check-in, defaulting to a one-night stay
+  const handleCheckInChange = useCallback((checkIn: string) => {
+    const keepsCheckOut = draft.checkOut && isValidStay({ checkIn, checkOut: draft.checkOut });
+    commit({ checkIn, checkOut: keepsCheckOut || !checkIn ? draft.checkOut : addDays(checkIn, 1) });
+  }, [draft.checkOut, commit]);
+
+  const handleCheckOutChange = useCallback((checkOut: string) => {
+    commit({ ...draft, checkOut });
+  }, [draft, commit]);
+
+  const handleClear = useCallback(() => {
+    setDraft({ checkIn: '', checkOut: '' });
+    setStayDates(null);
+  }, [setStayDates]);
+
+  const today = getTodayIsoDate();
+  const nights = getStayNightCount(draft);
+  const hasDraft = Boolean(draft.checkIn || draft.checkOut);
+  const isDraftInvalid = Boolean(draft.checkIn && draft.checkOut) && !isValidStay(draft);
+
+  return (
+    <div
+      className={cn(
+        "relative inline-flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm",
+        "bg-white text-gray-700 border shadow-sm transition-all duration-200",
+        "focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-blue-500",
+        isDraftInvalid ? "border-red-300" : "border-gray-300",
+        className
+      )}
+      title={
+        isDraftInvalid
+          ? `Stays must be 1 to ${MAX_STAY_NIGHTS} nights`
+          : stay ? `Prices for ${formatNightCount(nights)}` : 'Pick dates to see stay totals'
+      }
+    >
+      <CalendarDays className="h-4 w-4 flex-shrink-0" />
+      <label className="sr-only" htmlFor="stay-check-in">Check-in</label>
+      <input
+        id="stay-check-in"
+        type="date"
+        value={draft.checkIn}
+        min={today}
+        onChange={(event) => handleCheckInChange(event.target.value)}
+        className="bg-transparent focus:outline-none w-[8.5rem]"
+      />
+      <span className="text-gray-400">–</span>
+      <label className="sr-only" htmlFor="stay-check-out">Check-out</label>
+      <input
+        id="stay-check-out"
+        type="date"
+        value={draft.checkOut}
+        min={draft.checkIn ? addDays(draft.checkIn, 1) : today}
+        max={draft.checkIn ? addDays(draft.checkIn, MAX_STAY_NIGHTS) : undefined}
+        onChange={(event) => handleCheckOutChange(event.target.value)}
+        className="bg-transparent focus:outline-none w-[8.5rem]"
+      />
+      {hasDraft && (
+        <button
+          onClick={handleClear}
+          className="p-0.5 rounded hover:bg-gray-100 transition-colors"
+          aria-label="Clear stay dates"
+        >
+          <X className="h-3.5 w-3.5 text-gray-500" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { Source, Layer } from 'react-map-gl';
+import type { Coordinates, FilterArea } from '../../types/index';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface AreaOverlayProps {
+  areas: FilterArea[];
+  draftPoints: Coordinates[]; // Vertices of the area being drawn
+}
+
+const AREA_COLOR = '#4f46e5';
+
+// =============================================================================
+// GEOJSON HELPERS
+// =============================================================================
+
+const toPosition = (point: Coordinates): GeoJSON.Position => [point.longitude, point.latitude];
+
+function getAreaCollection(areas: FilterArea[]): GeoJSON.FeatureCollection<GeoJSON.Polygon> {
+  return {
+    type: 'FeatureCollection',
+    features: areas.map(area => ({
+      type: 'Feature',
+      properties: {},
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[...area.points, area.points[0]].map(toPosition)],
+      },
+    })),
+  };
+}
+
+function getDraftCollection(points: Coordinates[]): GeoJSON.FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: [
+      ...(points.length > 1
+        ? [{
+            type: 'Feature' as const,
+            properties: {},
+            geometry: { type: 'LineString' as const, coordinates: points.map(toPosition) },
+          }]
+        : []),
+      ...points.map(point => ({
+        type: 'Feature' as const,
+        properties: {},
+        geometry: { type: 'Point' as const, coordinates: toPosition(point) },
+      })),
+    ],
+  };
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+/**
+ * Draws filter areas and the area being sketched beneath the hotel markers
+ */
+export const AreaOverlay = React.memo<AreaOverlayProps>(({ areas, draftPoints }) => {
+  const areaData = useMemo(() => getAreaCollection(areas), [areas]);
+  const draftData = useMemo(() => getDraftCollection(draftPoints), [draftPoints]);
+
+  return (
+    <>
+      <Source id="filter-areas" type="geojson" data={areaData}>
+        <Layer
+          id="filter-areas-fill"
+          type="fill"
+          paint={{ 'fill-color': AREA_COLOR, 'fill-opacity': 0.12 }}
+        />
+        <Layer
+          id="filter-areas-outline"
+          type="line"
+          paint={{ 'line-color': AREA_COLOR, 'line-width': 2 }}
+        />
+      </Source>
+
+      <Source id="filter-area-draft" type="geojson" data={draftData}>
+        <Layer
+          id="filter-area-draft-line"
+          type="line"
+          filter={['==', ['geometry-type'], 'LineString']}
+          paint={{ 'line-color': AREA_COLOR, 'line-width': 2, 'line-dasharray': [2, 1] }}
+        />
+        <Layer
+          id="filter-area-draft-points"
+          type="circle"
+          filter={['==', ['geometry-type'], 'Point']}
+          paint={{
+            'circle-radius': 4,
+            'circle-color': '#ffffff',
+            'circle-stroke-color': AREA_COLOR,
+            'circle-stroke-width': 2,
+          }}
+        />
+      </Source>
+    </>
+  );
+});
+
+AreaOverlay.displayName = 'AreaOverlay';
+
+export default AreaOverlay;
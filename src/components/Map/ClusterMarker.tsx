@@ -2,10 +2,13 @@ import React, { useCallback, useMemo } from 'react';
 import { Marker } from 'react-map-gl';
 import { motion, AnimatePresence, useReducedMotion } from 'framer-motion';
 import { Users, Star } from 'lucide-react';
-import type { HotelCluster } from '../../types/index';
+import type { HotelCluster, Coordinates, MarkerStyle } from '../../types/index';
+import { MARKER_STYLES } from '../../types/index';
 import { cn } from '../../utils/cn';
 import { getClusterColor } from '../../utils/colorUtils';
 import { getClusterSize } from '../../utils/clusteringUtils';
+import { useMarkerTransition } from '../../hooks/useMarkerTransition';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
 
 // =============================================================================
 // INTERFACES
@@ -15,6 +18,8 @@ export interface ClusterMarkerProps {
   cluster: HotelCluster;
   onClusterClick: (cluster: HotelCluster) => void;
   isHovered?: boolean;
+  enterFrom?: Coordinates | null; // Parent cluster center when splitting
+  markerStyle?: MarkerStyle; // Price style swaps the rating badge for the price range
   className?: string;
 }
 
@@ -26,9 +31,19 @@ export const ClusterMarker = React.memo<ClusterMarkerProps>(({
   cluster,
   onClusterClick,
   isHovered = false,
+  enterFrom,
+  markerStyle = MARKER_STYLES.Rating,
   className,
 }) => {
   const prefersReducedMotion = useReducedMotion();
+  const { formatBaseAmount, formatPriceTagRange } = usePriceFormatter();
+  const isPriceTag = markerStyle === MARKER_STYLES.Price;
+
+  // Match the hotel price tags, which show stay totals when a stay is set
+  const priceTagRange = useMemo(
+    () => (isPriceTag ? formatPriceTagRange(cluster.hotels) : null),
+    [isPriceTag, formatPriceTagRange, cluster.hotels]
+  );
 
   const handleClick = useCallback((e: any) => {
     e.originalEvent?.stopPropagation();
@@ -72,6 +87,9 @@ export const ClusterMarker = React.memo<ClusterMarkerProps>(({
     };
   }, [prefersReducedMotion]);
 
+  // Grow out of the parent on split, collapse into it on merge
+  const transitionVariants = useMarkerTransition(cluster.id, cluster.center, enterFrom, clusterVariants);
+
   // Simple hover effects
   const hoverEffects = useMemo(() => {
     if (prefersReducedMotion) return {};
@@ -109,7 +127,7 @@ export const ClusterMarker = React.memo<ClusterMarkerProps>(({
           'relative flex items-center justify-center',
           className
         )}
-        variants={clusterVariants}
+        variants={transitionVariants}
         initial="initial"
         animate="animate"
         exit="exit"
@@ -146,7 +164,7 @@ export const ClusterMarker = React.memo<ClusterMarkerProps>(({
           </div>
         </div>
 
-        {/* ✅ PRESERVED: Beloved elastic rating badge rotation */}
+        {/* ✅ PRESERVED: Beloved elastic rating badge rotation (price range in price style) */}
         <motion.div
           className={cn(
             'absolute -top-1 -right-1 z-30',
@@ -175,14 +193,20 @@ export const ClusterMarker = React.memo<ClusterMarkerProps>(({
             transition: { type: "spring" as const, stiffness: 400, damping: 10 }
           }}
         >
-          <Star className="w-2.5 h-2.5 mr-0.5" fill="currentColor" />
-          <span className="leading-none">
-            {cluster.avgRating.toFixed(1)}
-          </span>
+          {isPriceTag ? (
+            <span className="leading-none whitespace-nowrap">{priceTagRange}</span>
+          ) : (
+            <>
+              <Star className="w-2.5 h-2.5 mr-0.5" fill="currentColor" />
+              <span className="leading-none">
+                {cluster.avgRating.toFixed(1)}
+              </span>
+            </>
+          )}
         </motion.div>
 
         {/* Price range indicator for large clusters */}
-        {category === 'large' && cluster.priceRange.min !== cluster.priceRange.max && (
+        {!isPriceTag && category === 'large' && cluster.priceRange.min !== cluster.priceRange.max && (
           <motion.div
             className={cn(
               'absolute -bottom-1 -left-1 z-30',
@@ -212,7 +236,7 @@ export const ClusterMarker = React.memo<ClusterMarkerProps>(({
             }}
           >
             <span className="leading-none">
-              ${Math.round(cluster.priceRange.min)}-${Math.round(cluster.priceRange.max)}
+              {formatBaseAmount(cluster.priceRange.min)}-{formatBaseAmount(cluster.priceRange.max)}
             </span>
           </motion.div>
         )}
@@ -0,0 +1,46 @@
+import React, { useMemo } from 'react';
+import { Source, Layer, type HeatmapLayer as HeatmapLayerStyle } from 'react-map-gl';
+import type { Hotel, HeatmapWeight } from '../../types/index';
+import { getHeatmapData } from '../../utils/heatmapUtils';
+import { getHeatmapColorExpression } from '../../utils/colorUtils';
+import { useAppStore, selectStayDates } from '../../store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface HeatmapLayerProps {
+  hotels: Hotel[];
+  weight: HeatmapWeight;
+}
+
+// Spread points wider when zoomed in so neighborhoods blend into one another
+const HEATMAP_PAINT: HeatmapLayerStyle['paint'] = {
+  'heatmap-weight': ['get', 'weight'],
+  'heatmap-intensity': ['interpolate', ['linear'], ['zoom'], 10, 0.8, 16, 2],
+  'heatmap-radius': ['interpolate', ['linear'], ['zoom'], 10, 12, 16, 40],
+  'heatmap-opacity': 0.75,
+  'heatmap-color': getHeatmapColorExpression(),
+};
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+/**
+ * Draws hotels as a heatmap weighted by price, rating or value
+ */
+export const HeatmapLayer = React.memo<HeatmapLayerProps>(({ hotels, weight }) => {
+  const stay = useAppStore(selectStayDates);
+  const data = useMemo(() => getHeatmapData(hotels, weight, stay), [hotels, weight, stay]);
+
+  return (
+    <Source id="hotel-heatmap" type="geojson" data={data}>
+      <Layer id="hotel-heatmap-layer" type="heatmap" paint={HEATMAP_PAINT} />
+    </Source>
+  );
+});
+
+HeatmapLayer.displayName = 'HeatmapLayer';
+
+export default HeatmapLayer;
@@ -0,0 +1,61 @@
+import type { HeatmapWeight } from '../../types/index';
+import { HEATMAP_WEIGHTS } from '../../types/index';
+import { cn } from '../../utils/cn';
+import { getHeatmapGradient } from '../../utils/colorUtils';
+import { HEATMAP_WEIGHT_LABELS, HEATMAP_LEGEND_LABELS } from '../../utils/heatmapUtils';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface HeatmapLegendProps {
+  weight: HeatmapWeight;
+  onWeightChange: (weight: HeatmapWeight) => void;
+  className?: string;
+}
+
+const WEIGHT_OPTIONS = Object.values(HEATMAP_WEIGHTS);
+const GRADIENT = getHeatmapGradient();
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export default function HeatmapLegend({ weight, onWeightChange, className }: HeatmapLegendProps) {
+  const labels = HEATMAP_LEGEND_LABELS[weight];
+
+  return (
+    <div className={cn('w-56 bg-white rounded-lg shadow-lg p-3 space-y-2 text-sm', className)}>
+      {/* Weighting Selector */}
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-900">Heatmap by</span>
+        <div className="flex rounded-md border border-gray-200 overflow-hidden" role="radiogroup" aria-label="Heatmap weighting">
+          {WEIGHT_OPTIONS.map(option => (
+            <button
+              key={option}
+              onClick={() => onWeightChange(option)}
+              role="radio"
+              aria-checked={weight === option}
+              className={cn(
+                'px-2 py-1 text-xs transition-colors',
+                weight === option ? 'bg-indigo-600 text-white' : 'text-gray-600 hover:bg-gray-50'
+              )}
+            >
+              {HEATMAP_WEIGHT_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Color Scale */}
+      <div>
+        <div className="h-2 rounded-full" style={{ background: GRADIENT }} />
+        <div className="flex justify-between mt-1 text-xs text-gray-500">
+          <span>{labels.low}</span>
+          <span>{labels.high}</span>
+        </div>
+      </div>
+      <p className="text-xs text-gray-400">Denser color means more matching hotels nearby</p>
+    </div>
+  );
+}
@@ -3,23 +3,37 @@ import Map, {
   NavigationControl,
   GeolocateControl,
   type ViewStateChangeEvent,
+  type MapLayerMouseEvent,
   type MapRef,
+  type GeolocateResultEvent,
 } from 'react-map-gl';
 import { motion, AnimatePresence } from 'framer-motion';
-import { MapPin, Users } from 'lucide-react';
-import type { Hotel, Coordinates, HotelCluster, MapViewport } from '../../types/index';
+import { MapPin, Users, PenTool, Check, X, Radius, LocateFixed, Landmark, Flame, Star, Tag } from 'lucide-react';
+import type { Hotel, Coordinates, HotelCluster, MapBounds, FilterArea, RadiusFilter, HeatmapWeight, MarkerStyle } from '../../types/index';
+import { HEATMAP_WEIGHTS, MARKER_STYLES } from '../../types/index';
 import { cn } from '../../utils/cn';
 import { refreshMapDisplay } from '../../utils/mapUtils';
-import { 
-  calculateClustersCached, 
-  DEFAULT_CLUSTERING_CONFIG, 
-  shouldCluster,
-  clearClusterCache 
-} from '../../utils/clusteringUtils';
+import { getHotelNodeId } from '../../utils/clusterTree';
+import {
+  createFilterArea,
+  createRadiusFilter,
+  MIN_AREA_POINTS,
+  MAX_AREA_POINTS,
+  DEFAULT_RADIUS_KM,
+} from '../../utils/areaUtils';
+import { getPointsOfInterest } from '../../utils/poiUtils';
+import { getCollapsedPriceLabels } from '../../utils/priceLabelUtils';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
 import { useDebounced } from '../../hooks/useDebounced';
+import { getHotelWorker, isCancelledError, type ClusterLevelResult } from '../../workers/hotelWorkerClient';
 import HotelMarker from './HotelMarker';
 import HotelPopup from './HotelPopup';
 import ClusterMarker from './ClusterMarker';
+import AreaOverlay from './AreaOverlay';
+import RadiusOverlay from './RadiusOverlay';
+import PoiLayer from './PoiLayer';
+import HeatmapLayer from './HeatmapLayer';
+import HeatmapLegend from './HeatmapLegend';
 
 // =============================================================================
 // MAPBOX CONFIGURATION
@@ -54,43 +68,89 @@ const MAP_STYLE = 'mapbox://styles/mapbox/streets-v12';
 
 export interface HotelMapProps {
   hotels: Hotel[];
+  initialViewState?: { latitude: number; longitude: number; zoom: number } | null; // e.g. restored from the URL
   selectedHotel?: Hotel | null;
+  hoveredHotel?: Hotel | null; // Controlled hover, e.g. from the results list
+  favoriteHotelIds?: ReadonlySet<number>; // Shortlisted hotels, drawn distinctly
+  areas?: FilterArea[];                    // Area filters to outline on the map
+  onAreaDrawn?: (area: FilterArea) => void; // Enables the area drawing tool
+  near?: RadiusFilter | null;                // Radius filter to draw as a circle
+  onNearChange?: (near: RadiusFilter | null) => void; // Enables the radius tool
+  userLocation?: Coordinates | null;         // Offered as a radius center
+  onUserLocate?: (location: Coordinates) => void; // Called when the user locates themselves on the map
   onHotelSelect?: (hotel: Hotel) => void;
   onHotelHover?: (hotel: Hotel | null) => void;
   className?: string;
   showPopup?: boolean;
   enableClustering?: boolean;
+  heatmapWeight?: HeatmapWeight | null; // Draws a heatmap instead of markers when set
+  onHeatmapWeightChange?: (weight: HeatmapWeight | null) => void; // Enables the heatmap toggle
+  markerStyle?: MarkerStyle;
+  onMarkerStyleChange?: (style: MarkerStyle) => void; // Enables the rating/price marker toggle
   mapStyle?: string;
-  onMapViewStateChange?: (viewState: { latitude: number; longitude: number; zoom: number }) => void;
+  onMapViewStateChange?: (
+    viewState: { latitude: number; longitude: number; zoom: number },
+    bounds?: MapBounds
+  ) => void;
 }
 
 
 
+const NO_AREAS: FilterArea[] = [];
+const NO_POINTS: Coordinates[] = [];
+const NO_COLLAPSED_TAGS: ReadonlySet<number> = new Set();
+const POINTS_OF_INTEREST = getPointsOfInterest();
+
 // =============================================================================
 // MAIN HOTEL MAP COMPONENT
 // =============================================================================
 
 export const HotelMap = React.memo<HotelMapProps>(({
   hotels,
+  initialViewState,
   selectedHotel,
+  hoveredHotel: controlledHoveredHotel,
+  favoriteHotelIds,
+  areas = NO_AREAS,
+  onAreaDrawn,
+  near = null,
+  onNearChange,
+  userLocation = null,
+  onUserLocate,
   onHotelSelect,
   onHotelHover,
   className,
   showPopup = true,
   enableClustering = false,
+  heatmapWeight = null,
+  onHeatmapWeightChange,
+  markerStyle = MARKER_STYLES.Rating,
+  onMarkerStyleChange,
   mapStyle = MAP_STYLE,
   onMapViewStateChange,
 }) => {
   const mapRef = useRef<MapRef>(null);
   const animationTimeoutRef = useRef<number | null>(null);
+  // Last cluster result and the hotel list it was computed for
+  const clusterResultRef = useRef<{ hotels: Hotel[]; result: ClusterLevelResult } | null>(null);
   
   // Local state
-  const [viewState, setViewState] = useState(INITIAL_VIEW_STATE);
-  const [hoveredHotel, setHoveredHotel] = useState<Hotel | null>(null);
+  const [viewState, setViewState] = useState(() => ({ ...INITIAL_VIEW_STATE, ...initialViewState }));
+  const [localHoveredHotel, setHoveredHotel] = useState<Hotel | null>(null);
   const [popupHotel, setPopupHotel] = useState<Hotel | null>(null);
   const [isMapLoaded, setIsMapLoaded] = useState(false);
   const [mapError, setMapError] = useState<string | null>(null);
   const [isAnimating, setIsAnimating] = useState(false);
+  const [clusterResult, setClusterResult] = useState<ClusterLevelResult | null>(null);
+  // Area drawing: null when not drawing, otherwise the vertices placed so far
+  const [draftPoints, setDraftPoints] = useState<Coordinates[] | null>(null);
+  const isDrawing = draftPoints !== null;
+  // Radius tool: waiting for a click to drop the center pin
+  const [isPlacingPin, setIsPlacingPin] = useState(false);
+  const [isPoiLayerVisible, setIsPoiLayerVisible] = useState(false);
+
+  // Prefer hover state owned by the parent so list and map stay in sync
+  const hoveredHotel = controlledHoveredHotel !== undefined ? controlledHoveredHotel : localHoveredHotel;
 
   // Debounced zoom value to prevent excessive clustering calculations
   const debouncedZoom = useDebounced(viewState.zoom, 300);
@@ -100,12 +160,21 @@ export const HotelMap = React.memo<HotelMapProps>(({
     const newViewState = evt.viewState;
     setViewState(newViewState);
     
-    // Notify parent about view state changes
-    onMapViewStateChange?.({
-      latitude: newViewState.latitude,
-      longitude: newViewState.longitude,
-      zoom: newViewState.zoom,
-    });
+    // Notify parent about view state changes, including the visible bounds
+    const mapBounds = evt.target.getBounds();
+    onMapViewStateChange?.(
+      {
+        latitude: newViewState.latitude,
+        longitude: newViewState.longitude,
+        zoom: newViewState.zoom,
+      },
+      mapBounds
+        ? {
+            northeast: { latitude: mapBounds.getNorth(), longitude: mapBounds.getEast() },
+            southwest: { latitude: mapBounds.getSouth(), longitude: mapBounds.getWest() },
+          }
+        : undefined
+    );
     
     // Debug logging for zoom-related positioning issues
     if (import.meta.env.DEV && Math.abs(newViewState.zoom - viewState.zoom) > 0.5) {
@@ -138,10 +207,81 @@ export const HotelMap = React.memo<HotelMapProps>(({
     setPopupHotel(null);
   }, []);
 
-  const handleMapClick = useCallback(() => {
+  const handleMapClick = useCallback((evt: MapLayerMouseEvent) => {
+    const point = { latitude: evt.lngLat.lat, longitude: evt.lngLat.lng };
+
+    if (isDrawing) {
+      setDraftPoints(prev => (prev && prev.length < MAX_AREA_POINTS ? [...prev, point] : prev));
+      return;
+    }
+    if (isPlacingPin) {
+      onNearChange?.(createRadiusFilter(point, near?.radius ?? DEFAULT_RADIUS_KM));
+      setIsPlacingPin(false);
+      return;
+    }
+    setPopupHotel(null);
+  }, [isDrawing, isPlacingPin, near, onNearChange]);
+
+  const handleStartDrawing = useCallback(() => {
     setPopupHotel(null);
+    setIsPlacingPin(false);
+    setDraftPoints([]);
+  }, []);
+
+  const handleCancelDrawing = useCallback(() => {
+    setDraftPoints(null);
+    setIsPlacingPin(false);
+  }, []);
+
+  const handleStartPlacingPin = useCallback(() => {
+    setPopupHotel(null);
+    setDraftPoints(null);
+    setIsPlacingPin(true);
+  }, []);
+
+  const handleUseMyLocation = useCallback(() => {
+    if (!userLocation) return;
+    onNearChange?.(createRadiusFilter(userLocation, near?.radius ?? DEFAULT_RADIUS_KM));
+    setIsPlacingPin(false);
+  }, [userLocation, near, onNearChange]);
+
+  const handleRemoveNear = useCallback(() => {
+    onNearChange?.(null);
+  }, [onNearChange]);
+
+  const handleTogglePoiLayer = useCallback(() => {
+    setIsPoiLayerVisible(prev => !prev);
   }, []);
 
+  const handleToggleHeatmap = useCallback(() => {
+    onHeatmapWeightChange?.(heatmapWeight ? null : HEATMAP_WEIGHTS.Price);
+  }, [heatmapWeight, onHeatmapWeightChange]);
+
+  const handleFinishDrawing = useCallback(() => {
+    const area = draftPoints ? createFilterArea(draftPoints) : null;
+    if (!area) return;
+
+    onAreaDrawn?.(area);
+    setDraftPoints(null);
+  }, [draftPoints, onAreaDrawn]);
+
+  // Enter finishes the area, Escape abandons the current tool
+  useEffect(() => {
+    if (!isDrawing && !isPlacingPin) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') handleCancelDrawing();
+      if (event.key === 'Enter') handleFinishDrawing();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isDrawing, isPlacingPin, handleCancelDrawing, handleFinishDrawing]);
+
+  const handleGeolocate = useCallback((event: GeolocateResultEvent) => {
+    onUserLocate?.({ latitude: event.coords.latitude, longitude: event.coords.longitude });
+  }, [onUserLocate]);
+
   const handleMapLoad = useCallback(() => {
     setIsMapLoaded(true);
     setMapError(null);
@@ -154,60 +294,93 @@ export const HotelMap = React.memo<HotelMapProps>(({
   }, []);
 
   const handleClusterClick = useCallback((cluster: HotelCluster) => {
-    if (mapRef.current) {
-      // Calculate padding based on cluster size
-      const padding = Math.max(50, cluster.count * 2);
-      
-      // Zoom to cluster bounds with animation
-      mapRef.current.fitBounds([
-        [cluster.bounds.west, cluster.bounds.south],
-        [cluster.bounds.east, cluster.bounds.north]
-      ], { 
-        padding: { top: padding, bottom: padding, left: padding, right: padding },
+    if (!mapRef.current) return;
+
+    // Zoom to exactly the level where the cluster breaks apart
+    if (cluster.expansionZoom !== undefined) {
+      mapRef.current.flyTo({
+        center: [cluster.center.longitude, cluster.center.latitude],
+        zoom: cluster.expansionZoom,
         duration: 800,
         essential: true,
       });
+      return;
     }
+
+    // Clusters without a hierarchy: calculate padding based on cluster size
+    const padding = Math.max(50, cluster.count * 2);
+
+    // Zoom to cluster bounds with animation
+    mapRef.current.fitBounds([
+      [cluster.bounds.west, cluster.bounds.south],
+      [cluster.bounds.east, cluster.bounds.north]
+    ], { 
+      padding: { top: padding, bottom: padding, left: padding, right: padding },
+      duration: 800,
+      essential: true,
+    });
   }, []);
 
+  // Clusters are computed in the hotel worker; only the latest request is delivered
+  useEffect(() => {
+    if (!enableClustering || heatmapWeight || hotels.length === 0) {
+      clusterResultRef.current = null;
+      setClusterResult(null);
+      return;
+    }
+
+    // Transitions only make sense between levels of the same hotel list
+    const previous = clusterResultRef.current;
+    const previousLevel = previous?.hotels === hotels ? previous.result.level : null;
+    let isCurrent = true;
+
+    getHotelWorker()
+      .getClusters(hotels, debouncedZoom, previousLevel)
+      .then(result => {
+        if (!isCurrent) return;
+        clusterResultRef.current = { hotels, result };
+        setClusterResult(result);
+      })
+      .catch(error => {
+        if (!isCancelledError(error)) {
+          console.error('Clustering failed:', error);
+        }
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [hotels, debouncedZoom, enableClustering, heatmapWeight]);
+
+  // Price tags that would overlap a tag placed before them collapse to dots
+  const { formatPriceTag } = usePriceFormatter();
+  const selectedHotelId = selectedHotel?.hotel_id ?? null;
+  const collapsedPriceTags = useMemo(() => {
+    if (markerStyle !== MARKER_STYLES.Price) return NO_COLLAPSED_TAGS;
+
+    const visibleHotels = enableClustering ? clusterResult?.individualHotels ?? [] : hotels;
+    const labels = visibleHotels.map(hotel => ({
+      id: hotel.hotel_id,
+      coordinates: hotel,
+      text: formatPriceTag(hotel),
+    }));
+    return getCollapsedPriceLabels(
+      labels,
+      debouncedZoom,
+      selectedHotelId !== null ? new Set([selectedHotelId]) : undefined
+    );
+  }, [markerStyle, enableClustering, clusterResult, hotels, formatPriceTag, debouncedZoom, selectedHotelId]);
+
   // Memoized hotel markers and clusters (after event handlers are declared)
   const markers = useMemo(() => {
     if (!hotels || hotels.length === 0) return [];
 
-    // Use clustering if enabled and should cluster at current zoom level
-    if (enableClustering && shouldCluster(debouncedZoom, DEFAULT_CLUSTERING_CONFIG)) {
-      const viewport: MapViewport = {
-        bounds: {
-          northeast: {
-            latitude: viewState.latitude + 0.1,
-            longitude: viewState.longitude + 0.1,
-          },
-          southwest: {
-            latitude: viewState.latitude - 0.1,
-            longitude: viewState.longitude - 0.1,
-          },
-        },
-        center: {
-          latitude: viewState.latitude,
-          longitude: viewState.longitude,
-        },
-        zoom: debouncedZoom,
-      };
-
-      // Performance monitoring for clustering calculations
-      if (import.meta.env.DEV) {
-        console.time('clustering-calculation');
-      }
-
-      const { clusters, individualHotels } = calculateClustersCached(
-        hotels,
-        viewport,
-        DEFAULT_CLUSTERING_CONFIG
-      );
+    // Use the cluster hierarchy when clustering is enabled
+    if (enableClustering) {
+      // Nothing to show until the worker answers the first request
+      if (!clusterResult) return [];
 
-      if (import.meta.env.DEV) {
-        console.timeEnd('clustering-calculation');
-      }
+      const { clusters, individualHotels, enterFrom, level } = clusterResult;
 
       // Debug logging for clustering with timestamp for deduplication detection
       if (import.meta.env.DEV && (clusters.length > 0 || individualHotels.length !== hotels.length)) {
@@ -216,7 +389,7 @@ export const HotelMap = React.memo<HotelMapProps>(({
           clusters: clusters.length,
           individualHotels: individualHotels.length,
           zoom: debouncedZoom.toFixed(2),
-          shouldCluster: shouldCluster(debouncedZoom, DEFAULT_CLUSTERING_CONFIG),
+          level,
           timestamp: Date.now(),
           clusterIds: clusters.map(c => c.id).join(', '),
         });
@@ -229,6 +402,9 @@ export const HotelMap = React.memo<HotelMapProps>(({
             key={cluster.id}
             cluster={cluster}
             onClusterClick={handleClusterClick}
+            isHovered={!!hoveredHotel && cluster.hotels.some(h => h.hotel_id === hoveredHotel.hotel_id)}
+            enterFrom={enterFrom[cluster.id]}
+            markerStyle={markerStyle}
           />
         )),
         // Render individual hotel markers
@@ -238,8 +414,12 @@ export const HotelMap = React.memo<HotelMapProps>(({
             hotel={hotel}
             isSelected={selectedHotel?.hotel_id === hotel.hotel_id}
             isHovered={hoveredHotel?.hotel_id === hotel.hotel_id}
+            isFavorite={favoriteHotelIds?.has(hotel.hotel_id)}
             onClick={handleHotelClick}
             onHover={handleHotelHover}
+            enterFrom={enterFrom[getHotelNodeId(hotel)]}
+            markerStyle={markerStyle}
+            isPriceCollapsed={collapsedPriceTags.has(hotel.hotel_id)}
           />
         )),
       ];
@@ -252,11 +432,14 @@ export const HotelMap = React.memo<HotelMapProps>(({
         hotel={hotel}
         isSelected={selectedHotel?.hotel_id === hotel.hotel_id}
         isHovered={hoveredHotel?.hotel_id === hotel.hotel_id}
+        isFavorite={favoriteHotelIds?.has(hotel.hotel_id)}
         onClick={handleHotelClick}
         onHover={handleHotelHover}
+        markerStyle={markerStyle}
+        isPriceCollapsed={collapsedPriceTags.has(hotel.hotel_id)}
       />
     ));
-  }, [hotels, selectedHotel, hoveredHotel, debouncedZoom, enableClustering, viewState.latitude, viewState.longitude, handleHotelClick, handleHotelHover, handleClusterClick]);
+  }, [hotels, selectedHotel, hoveredHotel, favoriteHotelIds, debouncedZoom, enableClustering, clusterResult, markerStyle, collapsedPriceTags, handleHotelClick, handleHotelHover, handleClusterClick]);
 
   // Fly to selected hotel with consistent animation timing
   useEffect(() => {
@@ -297,13 +480,6 @@ export const HotelMap = React.memo<HotelMapProps>(({
     };
   }, []);
 
-  // Cleanup cluster cache on unmount
-  useEffect(() => {
-    return () => {
-      clearClusterCache();
-    };
-  }, []);
-
   // Error boundary for missing token
   if (!MAPBOX_ACCESS_TOKEN) {
     return (
@@ -343,6 +519,8 @@ export const HotelMap = React.memo<HotelMapProps>(({
         {...viewState}
         onMove={handleViewStateChange}
         onClick={handleMapClick}
+        onDblClick={isDrawing ? handleFinishDrawing : undefined}
+        doubleClickZoom={!isDrawing}
         onLoad={handleMapLoad}
         onError={handleMapError}
         mapboxAccessToken={MAPBOX_ACCESS_TOKEN}
@@ -358,7 +536,7 @@ export const HotelMap = React.memo<HotelMapProps>(({
         preserveDrawingBuffer={true}
         attributionControl={false}
         interactiveLayerIds={[]}
-        cursor="grab"
+        cursor={isDrawing || isPlacingPin ? 'crosshair' : 'grab'}
       >
         {/* Navigation Controls */}
         <NavigationControl
@@ -371,15 +549,36 @@ export const HotelMap = React.memo<HotelMapProps>(({
         {/* Geolocation Control */}
         <GeolocateControl
           position="top-right"
+          onGeolocate={handleGeolocate}
           positionOptions={{ enableHighAccuracy: true }}
           trackUserLocation={true}
           showAccuracyCircle={true}
           showUserLocation={true}
         />
 
+        {/* Area Filters */}
+        {isMapLoaded && (
+          <AreaOverlay areas={areas} draftPoints={draftPoints ?? NO_POINTS} />
+        )}
+
+        {/* Radius Filter */}
+        {isMapLoaded && near && onNearChange && (
+          <RadiusOverlay near={near} onChange={onNearChange} />
+        )}
+
+        {/* Points of Interest */}
+        {isMapLoaded && isPoiLayerVisible && (
+          <PoiLayer points={POINTS_OF_INTEREST} />
+        )}
+
+        {/* Heatmap Mode */}
+        {isMapLoaded && heatmapWeight && (
+          <HeatmapLayer hotels={hotels} weight={heatmapWeight} />
+        )}
+
         {/* Hotel Markers and Clusters */}
-        <AnimatePresence>
-          {isMapLoaded && markers}
+        <AnimatePresence custom={clusterResult?.exitInto}>
+          {isMapLoaded && !heatmapWeight && markers}
         </AnimatePresence>
 
         {/* Hotel Popup */}
@@ -391,6 +590,163 @@ export const HotelMap = React.memo<HotelMapProps>(({
         )}
       </Map>
 
+      {/* Map Tools: Area Drawing, Radius and Points of Interest */}
+      {isMapLoaded && (
+        <div className="map-overlay-top absolute top-4 left-4 z-[5] flex items-center gap-2">
+          {isDrawing ? (
+            <div className="flex items-center gap-2 bg-white rounded-lg shadow-lg pl-3 pr-1 py-1 text-sm">
+              <span className="text-gray-700">
+                {draftPoints.length < MIN_AREA_POINTS
+                  ? `Click the map to place at least ${MIN_AREA_POINTS} points`
+                  : 'Double-click or press Enter to finish'}
+              </span>
+              <button
+                onClick={handleFinishDrawing}
+                disabled={draftPoints.length < MIN_AREA_POINTS}
+                className="p-1.5 rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 transition-colors"
+                aria-label="Finish area"
+              >
+                <Check className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleCancelDrawing}
+                className="p-1.5 rounded-md hover:bg-gray-100 transition-colors"
+                aria-label="Cancel drawing"
+              >
+                <X className="w-4 h-4 text-gray-600" />
+              </button>
+            </div>
+          ) : isPlacingPin ? (
+            <div className="flex items-center gap-2 bg-white rounded-lg shadow-lg pl-3 pr-1 py-1 text-sm">
+              <span className="text-gray-700">Click the map to drop a pin</span>
+              {userLocation && (
+                <button
+                  onClick={handleUseMyLocation}
+                  className="flex items-center gap-1 px-2 py-1 rounded-md text-indigo-700 hover:bg-indigo-50 transition-colors"
+                >
+                  <LocateFixed className="w-4 h-4" />
+                  <span>Use my location</span>
+                </button>
+              )}
+              <button
+                onClick={handleCancelDrawing}
+                className="p-1.5 rounded-md hover:bg-gray-100 transition-colors"
+                aria-label="Cancel placing pin"
+              >
+                <X className="w-4 h-4 text-gray-600" />
+              </button>
+            </div>
+          ) : (
+            <>
+              {onAreaDrawn && (
+                <button
+                  onClick={handleStartDrawing}
+                  className="flex items-center gap-2 bg-white rounded-lg shadow-lg px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                  title="Draw an area to only show hotels inside it"
+                >
+                  <PenTool className="w-4 h-4 text-indigo-600" />
+                  <span>Draw area</span>
+                </button>
+              )}
+              {onNearChange && (
+                <div className="flex items-center bg-white rounded-lg shadow-lg text-sm font-medium text-gray-700">
+                  <button
+                    onClick={handleStartPlacingPin}
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+                    title="Only show hotels within a distance of a point"
+                  >
+                    <Radius className="w-4 h-4 text-indigo-600" />
+                    <span>{near ? 'Move pin' : 'Radius'}</span>
+                  </button>
+                  {near && (
+                    <button
+                      onClick={handleRemoveNear}
+                      className="p-2 border-l border-gray-200 rounded-r-lg hover:bg-gray-50 transition-colors"
+                      aria-label="Remove radius filter"
+                    >
+                      <X className="w-4 h-4 text-gray-500" />
+                    </button>
+                  )}
+                </div>
+              )}
+              <button
+                onClick={handleTogglePoiLayer}
+                className={cn(
+                  'flex items-center gap-2 rounded-lg shadow-lg px-3 py-2 text-sm font-medium transition-colors',
+                  isPoiLayerVisible
+                    ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+                    : 'bg-white text-gray-700 hover:bg-gray-50'
+                )}
+                aria-pressed={isPoiLayerVisible}
+                title="Show landmarks, venues and transit on the map"
+              >
+                <Landmark className={cn('w-4 h-4', !isPoiLayerVisible && 'text-indigo-600')} />
+                <span>Places</span>
+              </button>
+              {onMarkerStyleChange && !heatmapWeight && (
+                <div
+                  className="flex items-center bg-white rounded-lg shadow-lg text-sm font-medium"
+                  role="radiogroup"
+                  aria-label="Marker style"
+                >
+                  <button
+                    onClick={() => onMarkerStyleChange(MARKER_STYLES.Rating)}
+                    role="radio"
+                    aria-checked={markerStyle === MARKER_STYLES.Rating}
+                    className={cn(
+                      'flex items-center gap-1.5 px-3 py-2 rounded-l-lg transition-colors',
+                      markerStyle === MARKER_STYLES.Rating ? 'bg-indigo-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+                    )}
+                    title="Color pins by guest rating"
+                  >
+                    <Star className="w-4 h-4" />
+                    <span>Rating</span>
+                  </button>
+                  <button
+                    onClick={() => onMarkerStyleChange(MARKER_STYLES.Price)}
+                    role="radio"
+                    aria-checked={markerStyle === MARKER_STYLES.Price}
+                    className={cn(
+                      'flex items-center gap-1.5 px-3 py-2 rounded-r-lg transition-colors',
+                      markerStyle === MARKER_STYLES.Price ? 'bg-indigo-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+                    )}
+                    title="Show prices on the map"
+                  >
+                    <Tag className="w-4 h-4" />
+                    <span>Price</span>
+                  </button>
+                </div>
+              )}
+              {onHeatmapWeightChange && (
+                <button
+                  onClick={handleToggleHeatmap}
+                  className={cn(
+                    'flex items-center gap-2 rounded-lg shadow-lg px-3 py-2 text-sm font-medium transition-colors',
+                    heatmapWeight
+                      ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+                      : 'bg-white text-gray-700 hover:bg-gray-50'
+                  )}
+                  aria-pressed={!!heatmapWeight}
+                  title="Show where hotels are pricier, better rated or better value"
+                >
+                  <Flame className={cn('w-4 h-4', !heatmapWeight && 'text-indigo-600')} />
+                  <span>Heatmap</span>
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Heatmap Legend */}
+      {isMapLoaded && heatmapWeight && onHeatmapWeightChange && (
+        <HeatmapLegend
+          weight={heatmapWeight}
+          onWeightChange={onHeatmapWeightChange}
+          className="absolute bottom-4 right-4 z-[5]"
+        />
+      )}
+
       {/* Loading State */}
       {!isMapLoaded && (
         <div className="absolute inset-0 flex items-center justify-center bg-gray-100 z-10">
@@ -1,10 +1,14 @@
 import React, { useCallback, useMemo } from 'react';
 import { Marker } from 'react-map-gl';
 import { motion, useReducedMotion, AnimatePresence } from 'framer-motion';
-import { MapPin, Star } from 'lucide-react';
-import type { Hotel } from '../../types/index';
+import { MapPin, Star, Heart } from 'lucide-react';
+import type { Hotel, Coordinates, MarkerStyle } from '../../types/index';
+import { MARKER_STYLES } from '../../types/index';
 import { cn } from '../../utils/cn';
 import { getHotelMarkerColor } from '../../utils/colorUtils';
+import { getHotelNodeId } from '../../utils/clusterTree';
+import { useMarkerTransition } from '../../hooks/useMarkerTransition';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
 import { SimpleRipple, simpleVariants, SIMPLE_TIMINGS } from './WaterDropAnimations';
 
 // =============================================================================
@@ -15,10 +19,68 @@ export interface HotelMarkerProps {
   hotel: Hotel;
   isSelected: boolean;
   isHovered: boolean;
+  isFavorite?: boolean;
   onClick: (hotel: Hotel) => void;
   onHover: (hotel: Hotel | null) => void;
+  enterFrom?: Coordinates | null; // Parent cluster center when splitting
+  markerStyle?: MarkerStyle;
+  isPriceCollapsed?: boolean; // Price tag overlaps another; shown as a dot until hovered
 }
 
+interface PriceTagProps {
+  label: string;
+  title: string;
+  color: string;
+  isSelected: boolean;
+  isHovered: boolean;
+  isFavorite: boolean;
+  isCollapsed: boolean;
+}
+
+// =============================================================================
+// PRICE TAG
+// =============================================================================
+
+/**
+ * Pill showing a hotel's price, bordered in its rating color
+ * Collapsed tags shrink to a dot and expand again while hovered or selected
+ */
+const PriceTag = ({ label, title, color, isSelected, isHovered, isFavorite, isCollapsed }: PriceTagProps) => {
+  if (isCollapsed && !isSelected && !isHovered) {
+    return (
+      <div
+        className="w-3 h-3 rounded-full border-2 border-white shadow-md"
+        style={{ backgroundColor: color }}
+        title={title}
+      />
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-1 px-2 py-0.5 rounded-full border-2 shadow-md',
+        'text-xs font-semibold whitespace-nowrap transition-colors duration-200',
+        isSelected ? 'text-white shadow-xl' : 'bg-white text-gray-900'
+      )}
+      style={{
+        borderColor: color,
+        backgroundColor: isSelected ? color : undefined,
+      }}
+      title={title}
+    >
+      {isFavorite && (
+        <Heart
+          className={cn('w-3 h-3', isSelected ? 'text-white' : 'text-pink-500')}
+          fill="currentColor"
+          aria-label="Shortlisted"
+        />
+      )}
+      <span>{label}</span>
+    </div>
+  );
+};
+
 // =============================================================================
 // HOTEL MARKER COMPONENT
 // =============================================================================
@@ -27,10 +89,17 @@ export const HotelMarker = React.memo<HotelMarkerProps>(({
   hotel,
   isSelected,
   isHovered,
+  isFavorite = false,
   onClick,
   onHover,
+  enterFrom,
+  markerStyle = MARKER_STYLES.Rating,
+  isPriceCollapsed = false,
 }) => {
   const prefersReducedMotion = useReducedMotion();
+  const { formatHotelPrice, formatStayTotal, formatPriceTag } = usePriceFormatter();
+  const stayTotal = formatStayTotal(hotel);
+  const isPriceTag = markerStyle === MARKER_STYLES.Price;
 
   const handleClick = useCallback((e: any) => {
     e.originalEvent?.stopPropagation();
@@ -72,6 +141,14 @@ export const HotelMarker = React.memo<HotelMarkerProps>(({
     };
   }, [prefersReducedMotion]);
 
+  // Grow out of the parent cluster on split, collapse into it on merge
+  const transitionVariants = useMarkerTransition(
+    getHotelNodeId(hotel),
+    hotel,
+    enterFrom,
+    animationVariants
+  );
+
   // Simple hover effects
   const hoverEffects = useMemo(() => {
     if (prefersReducedMotion) return {};
@@ -102,10 +179,12 @@ export const HotelMarker = React.memo<HotelMarkerProps>(({
       longitude={hotel.longitude}
       anchor="bottom"
       onClick={handleClick}
+      // Keep the active tag above its neighbors and collapsed dots beneath them
+      style={isPriceTag ? { zIndex: isSelected ? 3 : isHovered ? 2 : isPriceCollapsed ? 0 : 1 } : undefined}
     >
       <motion.div
         className="cursor-pointer relative"
-        variants={animationVariants}
+        variants={transitionVariants}
         initial="initial"
         animate="animate"
         exit="exit"
@@ -117,98 +196,148 @@ export const HotelMarker = React.memo<HotelMarkerProps>(({
           transformOrigin: 'center center',
         }}
       >
-        {/* Simple ripple effect on interaction */}
-        <AnimatePresence>
-          {(isSelected || isHovered) && (
-            <SimpleRipple
-              isActive={true}
-              size={markerSize}
-              color={markerColor}
-              duration={0.6}
-            />
-          )}
-        </AnimatePresence>
-
-        {/* Main marker pin */}
-        <div
-          className={cn(
-            'relative flex items-center justify-center',
-            'rounded-full border-3 border-white shadow-lg',
-            'transition-all duration-200',
-            isSelected && 'shadow-xl',
-          )}
-          style={{
-            width: markerSize,
-            height: markerSize,
-            backgroundColor: markerColor,
-            boxShadow: isSelected 
-              ? '0 8px 32px rgba(0, 0, 0, 0.3), 0 0 0 4px rgba(255, 255, 255, 0.4)'
-              : isHovered
-              ? '0 6px 24px rgba(0, 0, 0, 0.2), 0 0 0 2px rgba(255, 255, 255, 0.3)'
-              : '0 4px 16px rgba(0, 0, 0, 0.15)',
-          }}
-        >
-          <MapPin 
-            className={cn(
-              'text-white transition-all duration-200',
-              isSelected ? 'w-5 h-5' : isHovered ? 'w-4 h-4' : 'w-3.5 h-3.5'
-            )}
-            fill="currentColor"
+        {isPriceTag ? (
+          <PriceTag
+            label={formatPriceTag(hotel)}
+            title={`${hotel.name} · ${stayTotal ?? `${formatHotelPrice(hotel)} / night`}`}
+            color={markerColor}
+            isSelected={isSelected}
+            isHovered={isHovered}
+            isFavorite={isFavorite}
+            isCollapsed={isPriceCollapsed}
           />
-        </div>
-
-        {/* Rating badge */}
-        <motion.div
-          className={cn(
-            'absolute -top-1 -right-1 z-10',
-            'min-w-[20px] h-5 px-1',
-            'bg-white rounded-full border-2',
-            'flex items-center justify-center',
-            'text-xs font-bold shadow-md',
-            isSelected && 'min-w-[24px] h-6',
-          )}
-          style={{ 
-            borderColor: markerColor,
-            color: markerColor,
-          }}
-          variants={simpleVariants.badge}
-          initial="initial"
-          animate="animate"
-          transition={{
-            delay: SIMPLE_TIMINGS.hotel.appear,
-          }}
-        >
-          <Star className="w-2 h-2 mr-0.5" fill="currentColor" />
-          <span className="leading-none text-xs">
-            {hotel.rating.toFixed(1)}
-          </span>
-        </motion.div>
-
-        {/* Selection pulse effect */}
-        <AnimatePresence>
-          {isSelected && !prefersReducedMotion && (
-            <motion.div
-              className="absolute inset-0 rounded-full border-2 border-white pointer-events-none"
+        ) : (
+          <>
+            {/* Simple ripple effect on interaction */}
+            <AnimatePresence>
+              {(isSelected || isHovered) && (
+                <SimpleRipple
+                  isActive={true}
+                  size={markerSize}
+                  color={markerColor}
+                  duration={0.6}
+                />
+              )}
+            </AnimatePresence>
+
+            {/* Main marker pin */}
+            <div
+              className={cn(
+                'relative flex items-center justify-center',
+                'rounded-full border-3 shadow-lg',
+                isFavorite ? 'border-pink-400' : 'border-white',
+                'transition-all duration-200',
+                isSelected && 'shadow-xl',
+              )}
               style={{
-                width: markerSize + 8,
-                height: markerSize + 8,
-                marginLeft: -4,
-                marginTop: -4,
+                width: markerSize,
+                height: markerSize,
+                backgroundColor: markerColor,
+                boxShadow: isSelected 
+                  ? '0 8px 32px rgba(0, 0, 0, 0.3), 0 0 0 4px rgba(255, 255, 255, 0.4)'
+                  : isHovered
+                  ? '0 6px 24px rgba(0, 0, 0, 0.2), 0 0 0 2px rgba(255, 255, 255, 0.3)'
+                  : '0 4px 16px rgba(0, 0, 0, 0.15)',
+              }}
+            >
+              <MapPin 
+                className={cn(
+                  'text-white transition-all duration-200',
+                  isSelected ? 'w-5 h-5' : isHovered ? 'w-4 h-4' : 'w-3.5 h-3.5'
+                )}
+                fill="currentColor"
+              />
+            </div>
+
+            {/* Rating badge */}
+            <motion.div
+              className={cn(
+                'absolute -top-1 -right-1 z-10',
+                'min-w-[20px] h-5 px-1',
+                'bg-white rounded-full border-2',
+                'flex items-center justify-center',
+                'text-xs font-bold shadow-md',
+                isSelected && 'min-w-[24px] h-6',
+              )}
+              style={{ 
+                borderColor: markerColor,
+                color: markerColor,
               }}
-              initial={{ scale: 0.8, opacity: 0 }}
-              animate={{ 
-                scale: [1, 1.2, 1], 
-                opacity: [0.8, 0.4, 0.8],
-                transition: {
-                  duration: 1.5,
-                  repeat: Infinity,
-                  ease: "easeInOut",
-                }
+              variants={simpleVariants.badge}
+              initial="initial"
+              animate="animate"
+              transition={{
+                delay: SIMPLE_TIMINGS.hotel.appear,
               }}
-              exit={{ scale: 0.8, opacity: 0 }}
-            />
-          )}
-        </AnimatePresence>
+            >
+              <Star className="w-2 h-2 mr-0.5" fill="currentColor" />
+              <span className="leading-none text-xs">
+                {hotel.rating.toFixed(1)}
+              </span>
+            </motion.div>
+
+            {/* Favorite badge */}
+            {isFavorite && (
+              <div
+                className="absolute -top-1 -left-1 z-10 w-5 h-5 bg-white rounded-full shadow-md flex items-center justify-center"
+                aria-label="Shortlisted"
+              >
+                <Heart className="w-3 h-3 text-pink-500" fill="currentColor" />
+              </div>
+            )}
+
+            {/* Price label while hovered or selected */}
+            <AnimatePresence>
+              {(isSelected || isHovered) && (
+                <motion.div
+                  className={cn(
+                    'absolute top-full left-1/2 -translate-x-1/2 mt-1 z-20',
+                    'px-2 py-1 rounded-md bg-white shadow-md border border-gray-200',
+                    'text-center whitespace-nowrap pointer-events-none',
+                  )}
+                  initial={{ opacity: 0, y: -4 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -4 }}
+                  transition={{ duration: 0.15 }}
+                >
+                  <div className="text-xs font-semibold text-green-600">
+                    {formatHotelPrice(hotel)}
+                    <span className="font-normal text-gray-500"> / night</span>
+                  </div>
+                  {stayTotal && (
+                    <div className="text-[10px] text-gray-600">{stayTotal}</div>
+                  )}
+                </motion.div>
+              )}
+            </AnimatePresence>
+
+            {/* Selection pulse effect */}
+            <AnimatePresence>
+              {isSelected && !prefersReducedMotion && (
+                <motion.div
+                  className="absolute inset-0 rounded-full border-2 border-white pointer-events-none"
+                  style={{
+                    width: markerSize + 8,
+                    height: markerSize + 8,
+                    marginLeft: -4,
+                    marginTop: -4,
+                  }}
+                  initial={{ scale: 0.8, opacity: 0 }}
+                  animate={{ 
+                    scale: [1, 1.2, 1], 
+                    opacity: [0.8, 0.4, 0.8],
+                    transition: {
+                      duration: 1.5,
+                      repeat: Infinity,
+                      ease: "easeInOut",
+                    }
+                  }}
+                  exit={{ scale: 0.8, opacity: 0 }}
+                />
+              )}
+            </AnimatePresence>
+          </>
+        )}
       </motion.div>
     </Marker>
   );
@@ -1,9 +1,12 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Star, DollarSign, X } from 'lucide-react';
+import { Star, X, ArrowRight } from 'lucide-react';
 import type { Hotel } from '../../types/index';
-import { normalizePrice } from '../../utils/dataProcessor';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import { navigate, getHotelPath } from '../../utils/router';
 import { PinContainer } from '../UI/3d-pin';
+import FavoriteButton from '../Favorites/FavoriteButton';
+import NearbyPlaces from '../Hotel/NearbyPlaces';
 
 // =============================================================================
 // INTERFACES
@@ -19,7 +22,9 @@ export interface HotelPopupProps {
 // =============================================================================
 
 export const HotelPopup = React.memo<HotelPopupProps>(({ hotel, onClose }) => {
-  const normalizedPrice = normalizePrice(hotel.price_per_night);
+  const { formatHotelPrice, formatListedPrice, formatStayTotal } = usePriceFormatter();
+  const listedPrice = formatListedPrice(hotel);
+  const stayTotal = formatStayTotal(hotel);
 
   return (
     <div 
@@ -40,7 +45,7 @@ export const HotelPopup = React.memo<HotelPopupProps>(({ hotel, onClose }) => {
 
         <PinContainer
           title={hotel.name}
-          href={`/hotel/${hotel.hotel_id}`}
+          href={getHotelPath(hotel.hotel_id)}
           className="w-full"
           containerClassName="w-fit"
         >
@@ -61,6 +66,7 @@ export const HotelPopup = React.memo<HotelPopupProps>(({ hotel, onClose }) => {
               <div className="absolute top-2 right-2 bg-black/70 text-white px-2 py-1 rounded text-sm">
                 {hotel.star_rating}★
               </div>
+              <FavoriteButton hotel={hotel} size="sm" className="absolute top-2 left-2 shadow" />
             </div>
 
             {/* Hotel Info */}
@@ -82,11 +88,14 @@ export const HotelPopup = React.memo<HotelPopupProps>(({ hotel, onClose }) => {
                   </span>
                 </div>
                 
-                <div className="flex items-center gap-1">
-                  <DollarSign className="w-4 h-4 text-green-600" />
+                <div className="text-right" title={listedPrice ? `Listed at ${listedPrice}` : undefined}>
                   <span className="text-sm font-semibold text-green-600">
-                    {normalizedPrice}
+                    {formatHotelPrice(hotel)}
                   </span>
+                  <span className="text-xs text-gray-500"> / night</span>
+                  {stayTotal && (
+                    <div className="text-xs text-gray-600">{stayTotal}</div>
+                  )}
                 </div>
               </div>
               
@@ -109,6 +118,18 @@ export const HotelPopup = React.memo<HotelPopupProps>(({ hotel, onClose }) => {
                   </div>
                 </div>
               )}
+
+              {/* Nearby Points of Interest */}
+              <NearbyPlaces hotel={hotel} className="pt-1" />
+
+              {/* Detail Page Link */}
+              <button
+                onClick={() => navigate(getHotelPath(hotel.hotel_id))}
+                className="w-full mt-2 flex items-center justify-center gap-1 px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <span>View details</span>
+                <ArrowRight className="w-4 h-4" />
+              </button>
             </div>
           </motion.div>
         </PinContainer>
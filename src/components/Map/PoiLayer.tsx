@@ -0,0 +1,73 @@
+import React from 'react';
+import { Marker } from 'react-map-gl';
+import {
+  Landmark,
+  ShoppingBasket,
+  Presentation,
+  Trophy,
+  Palette,
+  Trees,
+  Ship,
+  TrainFront,
+} from 'lucide-react';
+import type { PoiCategory, PointOfInterest } from '../../types/index';
+import { POI_CATEGORIES } from '../../types/index';
+import { POI_CATEGORY_COLORS, POI_CATEGORY_LABELS } from '../../utils/poiUtils';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface PoiLayerProps {
+  points: PointOfInterest[];
+}
+
+const ICON_CLASS = 'w-3.5 h-3.5 text-white';
+
+const CATEGORY_ICONS: Record<PoiCategory, React.ReactNode> = {
+  [POI_CATEGORIES.Landmark]: <Landmark className={ICON_CLASS} />,
+  [POI_CATEGORIES.Market]: <ShoppingBasket className={ICON_CLASS} />,
+  [POI_CATEGORIES.Convention]: <Presentation className={ICON_CLASS} />,
+  [POI_CATEGORIES.Stadium]: <Trophy className={ICON_CLASS} />,
+  [POI_CATEGORIES.Museum]: <Palette className={ICON_CLASS} />,
+  [POI_CATEGORIES.Park]: <Trees className={ICON_CLASS} />,
+  [POI_CATEGORIES.Ferry]: <Ship className={ICON_CLASS} />,
+  [POI_CATEGORIES.Transit]: <TrainFront className={ICON_CLASS} />,
+};
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+/**
+ * Draws points of interest as small category badges with a name on hover
+ */
+export const PoiLayer = React.memo<PoiLayerProps>(({ points }) => (
+  <>
+    {points.map(poi => (
+      <Marker
+        key={poi.id}
+        latitude={poi.latitude}
+        longitude={poi.longitude}
+        anchor="center"
+      >
+        <div className="group relative flex items-center justify-center">
+          <span
+            className="flex items-center justify-center w-6 h-6 rounded-full border-2 border-white shadow"
+            style={{ backgroundColor: POI_CATEGORY_COLORS[poi.category] }}
+            aria-label={`${poi.name} (${POI_CATEGORY_LABELS[poi.category]})`}
+          >
+            {CATEGORY_ICONS[poi.category]}
+          </span>
+          <span className="absolute bottom-full mb-1 px-2 py-0.5 rounded bg-gray-900 text-white text-xs whitespace-nowrap shadow opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity">
+            {poi.name}
+          </span>
+        </div>
+      </Marker>
+    ))}
+  </>
+));
+
+PoiLayer.displayName = 'PoiLayer';
+
+export default PoiLayer;
@@ -0,0 +1,133 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { Source, Layer, Marker, type MarkerDragEvent } from 'react-map-gl';
+import { MapPin } from 'lucide-react';
+import type { Coordinates, RadiusFilter } from '../../types/index';
+import { calculateDistance } from '../../utils/dataProcessor';
+import {
+  createRadiusFilter,
+  formatRadius,
+  getCirclePoints,
+  getPointAtDistance,
+} from '../../utils/areaUtils';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface RadiusOverlayProps {
+  near: RadiusFilter;
+  onChange: (near: RadiusFilter) => void; // Called once a drag ends
+}
+
+const RADIUS_COLOR = '#4f46e5';
+
+// The edge handle sits due east of the center
+const HANDLE_BEARING = 90;
+
+const toCoordinates = (event: MarkerDragEvent): Coordinates => ({
+  latitude: event.lngLat.lat,
+  longitude: event.lngLat.lng,
+});
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+/**
+ * Draws a radius filter as a circle with a draggable center and edge
+ * Drags update the circle locally and commit the filter when released
+ */
+export const RadiusOverlay = React.memo<RadiusOverlayProps>(({ near, onChange }) => {
+  const [draft, setDraft] = useState<RadiusFilter | null>(null);
+  // Mirrors the draft so drag end reads the latest value without a re-render
+  const draftRef = useRef<RadiusFilter | null>(null);
+  const current = draft ?? near;
+
+  const updateDraft = useCallback((next: RadiusFilter | null) => {
+    draftRef.current = next;
+    setDraft(next);
+  }, []);
+
+  const circleData = useMemo<GeoJSON.Feature<GeoJSON.Polygon>>(() => {
+    const ring = getCirclePoints(current).map(point => [point.longitude, point.latitude]);
+    return {
+      type: 'Feature',
+      properties: {},
+      geometry: { type: 'Polygon', coordinates: [[...ring, ring[0]]] },
+    };
+  }, [current]);
+
+  const handlePosition = useMemo(
+    () => getPointAtDistance(current.center, current.radius, HANDLE_BEARING),
+    [current]
+  );
+
+  const handleCenterDrag = useCallback((event: MarkerDragEvent) => {
+    updateDraft(createRadiusFilter(toCoordinates(event), near.radius));
+  }, [near.radius, updateDraft]);
+
+  const handleEdgeDrag = useCallback((event: MarkerDragEvent) => {
+    updateDraft(createRadiusFilter(near.center, calculateDistance(near.center, toCoordinates(event))));
+  }, [near.center, updateDraft]);
+
+  const handleDragEnd = useCallback(() => {
+    const committed = draftRef.current;
+    updateDraft(null);
+    if (committed) onChange(committed);
+  }, [onChange, updateDraft]);
+
+  return (
+    <>
+      <Source id="filter-radius" type="geojson" data={circleData}>
+        <Layer
+          id="filter-radius-fill"
+          type="fill"
+          paint={{ 'fill-color': RADIUS_COLOR, 'fill-opacity': 0.1 }}
+        />
+        <Layer
+          id="filter-radius-outline"
+          type="line"
+          paint={{ 'line-color': RADIUS_COLOR, 'line-width': 2 }}
+        />
+      </Source>
+
+      {/* Center Pin */}
+      <Marker
+        latitude={current.center.latitude}
+        longitude={current.center.longitude}
+        anchor="bottom"
+        draggable
+        onDrag={handleCenterDrag}
+        onDragEnd={handleDragEnd}
+      >
+        <MapPin
+          className="w-7 h-7 text-indigo-600 drop-shadow cursor-move"
+          fill="white"
+          aria-label="Radius center"
+        />
+      </Marker>
+
+      {/* Edge Handle */}
+      <Marker
+        latitude={handlePosition.latitude}
+        longitude={handlePosition.longitude}
+        anchor="left"
+        offset={[-8, 0]}
+        draggable
+        onDrag={handleEdgeDrag}
+        onDragEnd={handleDragEnd}
+      >
+        <div className="flex items-center gap-1.5 cursor-ew-resize" title="Drag to change the radius">
+          <span className="w-4 h-4 rounded-full bg-white border-2 border-indigo-600 shadow" />
+          <span className="px-1.5 py-0.5 rounded bg-indigo-600 text-white text-xs font-medium shadow">
+            {formatRadius(current.radius)}
+          </span>
+        </div>
+      </Marker>
+    </>
+  );
+});
+
+RadiusOverlay.displayName = 'RadiusOverlay';
+
+export default RadiusOverlay;
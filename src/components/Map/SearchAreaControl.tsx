@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ScanSearch } from 'lucide-react';
+import type { BoundingBox } from '../../types/index';
+import { cn } from '../../utils/cn';
+import { toBoundingBox, haveBoundsMoved } from '../../utils/areaUtils';
+import { useDebounced } from '../../hooks/useDebounced';
+import { useAppStore, selectMapBounds, selectAppliedFilters } from '../../store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface SearchAreaControlProps {
+  className?: string;
+}
+
+// Wait for the map to settle before re-filtering in auto-update mode
+const AUTO_UPDATE_DELAY = 500;
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export default function SearchAreaControl({ className }: SearchAreaControlProps) {
+  const mapBounds = useAppStore(selectMapBounds);
+  const appliedFilters = useAppStore(selectAppliedFilters);
+  const setFilters = useAppStore(state => state.setFilters);
+
+  // View when the map first reported or was last searched
+  const [baseline, setBaseline] = useState<BoundingBox | null>(null);
+  const [isAutoUpdate, setIsAutoUpdate] = useState(false);
+
+  const visibleBox = useMemo(() => (mapBounds ? toBoundingBox(mapBounds) : null), [mapBounds]);
+  const settledBox = useDebounced(visibleBox, AUTO_UPDATE_DELAY);
+
+  useEffect(() => {
+    if (!baseline && visibleBox) setBaseline(visibleBox);
+  }, [baseline, visibleBox]);
+
+  const searchedBox = appliedFilters.bounds ?? baseline;
+  const hasMoved = !!visibleBox && !!searchedBox && haveBoundsMoved(searchedBox, visibleBox);
+
+  const handleSearchArea = useCallback(() => {
+    if (!visibleBox) return;
+    setFilters({ ...appliedFilters, bounds: visibleBox });
+    setBaseline(visibleBox);
+  }, [visibleBox, appliedFilters, setFilters]);
+
+  // Follow the map without flooding undo history with every pan
+  useEffect(() => {
+    if (!isAutoUpdate || !settledBox) return;
+
+    const { filters } = useAppStore.getState().filters;
+    if (filters.bounds && !haveBoundsMoved(filters.bounds, settledBox)) return;
+
+    setFilters({ ...filters, bounds: settledBox }, { recordHistory: false });
+    setBaseline(settledBox);
+  }, [isAutoUpdate, settledBox, setFilters]);
+
+  return (
+    <AnimatePresence>
+      {(hasMoved || isAutoUpdate) && (
+        <motion.div
+          initial={{ opacity: 0, y: -8 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -8 }}
+          transition={{ duration: 0.15 }}
+          className={cn(
+            'flex items-center gap-3 bg-white rounded-full shadow-lg pl-1 pr-4 py-1 text-sm',
+            className
+          )}
+        >
+          {isAutoUpdate ? (
+            <span className="pl-3 text-gray-700">Results follow the map</span>
+          ) : (
+            <button
+              onClick={handleSearchArea}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-full font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+            >
+              <ScanSearch className="w-4 h-4" />
+              <span>Search this area</span>
+            </button>
+          )}
+          <label className="flex items-center gap-1.5 text-gray-600 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={isAutoUpdate}
+              onChange={(event) => setIsAutoUpdate(event.target.checked)}
+            />
+            <span>Update as I move</span>
+          </label>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef, useId } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Search, X, MapPin, Sparkles, Star, EyeOff } from 'lucide-react';
+import type { Hotel } from '../../types/index';
+import { cn } from '../../utils/cn';
+import { searchHotels, getSearchMatch } from '../../utils/dataProcessor';
+import type { SearchMatch } from '../../utils/dataProcessor';
+import { useDebounced } from '../../hooks/useDebounced';
+import {
+  useAppStore,
+  selectHotels,
+  selectFilteredHotels,
+  selectAppliedFilters,
+  selectSearch,
+} from '../../store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface SearchBoxProps {
+  className?: string;
+  placeholder?: string;
+}
+
+interface HighlightedTextProps {
+  text: string;
+  match: SearchMatch | null;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const SEARCH_DEBOUNCE_MS = 250;
+const MAX_SUGGESTIONS = 8;
+
+// Room type is left out so suggestions stay focused on what users type
+const SEARCH_OPTIONS = {
+  includeAddress: true,
+  includeAmenities: true,
+  includeRoomType: false,
+};
+
+// =============================================================================
+// HIGHLIGHTED TEXT
+// =============================================================================
+
+function HighlightedText({ text, match }: HighlightedTextProps) {
+  if (!match || match.text !== text) {
+    return <>{text}</>;
+  }
+
+  return (
+    <>
+      {text.slice(0, match.start)}
+      <mark className="bg-yellow-100 text-gray-900 rounded-sm px-0.5">
+        {text.slice(match.start, match.end)}
+      </mark>
+      {text.slice(match.end)}
+    </>
+  );
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export default function SearchBox({
+  className,
+  placeholder = 'Search hotels, streets or amenities'
+}: SearchBoxProps) {
+  // Search every hotel: the applied query already narrows the filtered results
+  const hotels = useAppStore(selectHotels);
+  const filteredHotels = useAppStore(selectFilteredHotels);
+  const appliedFilters = useAppStore(selectAppliedFilters);
+  const search = useAppStore(selectSearch);
+  const setSearchQuery = useAppStore(state => state.setSearchQuery);
+  const setSearchResults = useAppStore(state => state.setSearchResults);
+  const setSelectedHotel = useAppStore(state => state.setSelectedHotel);
+  const setFilters = useAppStore(state => state.setFilters);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listboxId = useId();
+
+  const debouncedQuery = useDebounced(search.query, SEARCH_DEBOUNCE_MS);
+
+  // Run the search once typing settles
+  useEffect(() => {
+    if (!debouncedQuery.trim()) {
+      setSearchResults([]);
+      return;
+    }
+    setSearchResults(
+      searchHotels(hotels, debouncedQuery, SEARCH_OPTIONS).slice(0, MAX_SUGGESTIONS)
+    );
+    setActiveIndex(-1);
+  }, [debouncedQuery, hotels, setSearchResults]);
+
+  // Suggestions outside the filtered results have no marker on the map
+  const visibleHotelIds = useMemo(
+    () => new Set(filteredHotels.map(hotel => hotel.hotel_id)),
+    [filteredHotels]
+  );
+
+  const suggestions = useMemo(() => {
+    return search.results.map(hotel => ({
+      hotel,
+      match: getSearchMatch(hotel, debouncedQuery),
+      isHidden: !visibleHotelIds.has(hotel.hotel_id),
+    }));
+  }, [search.results, debouncedQuery, visibleHotelIds]);
+
+  const showSuggestions = isOpen && search.query.trim().length > 0;
+
+  // Select a suggestion and let the map fly to it
+  const handleSelectHotel = useCallback((hotel: Hotel) => {
+    setSelectedHotel(hotel);
+    setSearchQuery(hotel.name);
+    setIsOpen(false);
+    setActiveIndex(-1);
+    inputRef.current?.blur();
+  }, [setSelectedHotel, setSearchQuery]);
+
+  // Apply the typed query as a search filter
+  const handleApplyQuery = useCallback(() => {
+    const query = search.query.trim();
+    if (!query) return;
+
+    setFilters({ ...appliedFilters, searchQuery: query });
+    setIsOpen(false);
+  }, [search.query, appliedFilters, setFilters]);
+
+  const handleClear = useCallback(() => {
+    setSearchQuery('');
+    setSearchResults([]);
+    setActiveIndex(-1);
+
+    if (appliedFilters.searchQuery) {
+      const remainingFilters = { ...appliedFilters };
+      delete remainingFilters.searchQuery;
+      setFilters(remainingFilters);
+    }
+    inputRef.current?.focus();
+  }, [appliedFilters, setSearchQuery, setSearchResults, setFilters]);
+
+  const handleChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    setSearchQuery(event.target.value);
+    setIsOpen(true);
+  }, [setSearchQuery]);
+
+  // Keyboard navigation through suggestions
+  const handleKeyDown = useCallback((event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        if (suggestions.length === 0) return;
+        event.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(prev => (prev + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        if (suggestions.length === 0) return;
+        event.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (showSuggestions && activeIndex >= 0 && suggestions[activeIndex]) {
+          handleSelectHotel(suggestions[activeIndex].hotel);
+        } else {
+          handleApplyQuery();
+        }
+        break;
+      case 'Escape':
+        if (isOpen) {
+          setIsOpen(false);
+          setActiveIndex(-1);
+        } else {
+          inputRef.current?.blur();
+        }
+        break;
+      default:
+        break;
+    }
+  }, [suggestions, showSuggestions, activeIndex, isOpen, handleSelectHotel, handleApplyQuery]);
+
+  return (
+    <div className={cn("relative w-64 lg:w-80", className)}>
+      {/* Search Input */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400 pointer-events-none" />
+        <input
+          ref={inputRef}
+          type="text"
+          role="combobox"
+          aria-expanded={showSuggestions}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          aria-activedescendant={activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined}
+          value={search.query}
+          onChange={handleChange}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          className={cn(
+            "w-full pl-10 pr-9 py-2 text-sm border border-gray-300 rounded-lg",
+            "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent",
+            "transition-colors"
+          )}
+        />
+        {search.query && (
+          <button
+            type="button"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={handleClear}
+            className="absolute right-2 top-1/2 transform -translate-y-1/2 p-1 hover:bg-gray-100 rounded-full transition-colors"
+            aria-label="Clear search"
+          >
+            <X className="h-3.5 w-3.5 text-gray-500" />
+          </button>
+        )}
+      </div>
+
+      {/* Suggestions */}
+      <AnimatePresence>
+        {showSuggestions && (
+          <motion.ul
+            id={listboxId}
+            role="listbox"
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration: 0.15 }}
+            className="absolute left-0 right-0 top-full mt-1 z-50 bg-white border border-gray-200 rounded-lg shadow-xl overflow-hidden max-h-96 overflow-y-auto"
+          >
+            {suggestions.map(({ hotel, match, isHidden }, index) => (
+              <li
+                key={hotel.hotel_id}
+                id={`${listboxId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => handleSelectHotel(hotel)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={cn(
+                  "px-3 py-2 cursor-pointer border-b border-gray-100 last:border-b-0",
+                  index === activeIndex ? "bg-blue-50" : "hover:bg-gray-50"
+                )}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-900 truncate">
+                    <HighlightedText text={hotel.name} match={match} />
+                  </span>
+                  <span className="flex items-center space-x-0.5 text-xs text-gray-500 flex-shrink-0 ml-2">
+                    <Star className="h-3 w-3 text-yellow-500 fill-current" />
+                    <span>{hotel.rating.toFixed(1)}</span>
+                  </span>
+                </div>
+                <div className="flex items-center space-x-1 text-xs text-gray-500 truncate">
+                  <MapPin className="h-3 w-3 flex-shrink-0" />
+                  <span className="truncate">
+                    <HighlightedText text={hotel.address} match={match} />
+                  </span>
+                </div>
+                {match?.field === 'amenity' && (
+                  <div className="flex items-center space-x-1 text-xs text-purple-700 mt-0.5">
+                    <Sparkles className="h-3 w-3" />
+                    <span>
+                      <HighlightedText text={match.text} match={match} />
+                    </span>
+                  </div>
+                )}
+                {isHidden && (
+                  <div className="flex items-center space-x-1 text-xs text-amber-700 mt-0.5">
+                    <EyeOff className="h-3 w-3" />
+                    <span>Hidden by filters</span>
+                  </div>
+                )}
+              </li>
+            ))}
+
+            {/* Empty State */}
+            {suggestions.length === 0 && !search.isSearching && (
+              <li className="px-3 py-4 text-sm text-gray-500 text-center">
+                No hotels match "{search.query.trim()}"
+              </li>
+            )}
+
+            {/* Apply as filter */}
+            {search.query.trim() && (
+              <li
+                role="option"
+                aria-selected={false}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={handleApplyQuery}
+                className="px-3 py-2 text-xs text-blue-600 bg-gray-50 hover:bg-gray-100 cursor-pointer"
+              >
+                Press Enter to show all results for "{search.query.trim()}"
+              </li>
+            )}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { MapPinOff } from 'lucide-react';
+
+interface NotFoundScreenProps {
+  onBack: () => void;
+  title?: string;
+  message?: string;
+  actionLabel?: string;
+}
+
+const NotFoundScreen: React.FC<NotFoundScreenProps> = ({
+  onBack,
+  title = "Page Not Found",
+  message = "The page you're looking for doesn't exist.",
+  actionLabel = "Back to Map"
+}) => {
+  return (
+    <div className="h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="text-center space-y-6 max-w-md mx-auto p-6"
+      >
+        <div className="w-16 h-16 mx-auto bg-blue-100 rounded-full flex items-center justify-center">
+          <MapPinOff className="w-8 h-8 text-blue-600" />
+        </div>
+
+        <div className="space-y-2">
+          <h2 className="text-2xl font-bold text-gray-900">{title}</h2>
+          <p className="text-gray-600">{message}</p>
+        </div>
+
+        <motion.button
+          onClick={onBack}
+          className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          {actionLabel}
+        </motion.button>
+      </motion.div>
+    </div>
+  );
+};
+
+export default NotFoundScreen;
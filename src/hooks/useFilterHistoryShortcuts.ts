@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import { useAppStore } from '../store';
+
+// Text fields keep their own undo behaviour
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * Undo and redo applied filter changes from the keyboard
+ * Ctrl/Cmd+Z undoes; Ctrl/Cmd+Shift+Z and Ctrl+Y redo
+ * @param enabled - Whether the shortcuts are active
+ */
+export function useFilterHistoryShortcuts(enabled: boolean): void {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      const { undoFilterChange, redoFilterChange } = useAppStore.getState();
+
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undoFilterChange();
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && !event.shiftKey)) {
+        event.preventDefault();
+        redoFilterChange();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
+
+export default useFilterHistoryShortcuts;
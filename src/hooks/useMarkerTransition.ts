@@ -0,0 +1,67 @@
+import { useCallback, useMemo } from 'react';
+import { useMap } from 'react-map-gl';
+import { useReducedMotion, type TargetAndTransition, type Variants } from 'framer-motion';
+import type { Coordinates } from '../types/index';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Map of marker node id to the coordinates it should collapse into on exit */
+export type MarkerTransitionTargets = Record<string, Coordinates>;
+
+export interface MarkerBaseVariants {
+  initial: TargetAndTransition;
+  animate: TargetAndTransition;
+  exit: TargetAndTransition;
+}
+
+// =============================================================================
+// MARKER TRANSITION HOOK
+// =============================================================================
+
+/**
+ * Extend marker variants so a marker can enter from, and exit into, another
+ * point on the map - used to animate cluster splits and merges.
+ * The exit variant reads its target from AnimatePresence's `custom` prop,
+ * since an exiting marker no longer receives props.
+ * @param nodeId - Cluster tree node id of the marker
+ * @param position - Marker coordinates
+ * @param enterFrom - Where the marker appears from (e.g. the parent cluster)
+ * @param baseVariants - Marker's own initial/animate/exit variants
+ * @returns Variants - Variants with pixel offsets applied
+ */
+export function useMarkerTransition(
+  nodeId: string,
+  position: Coordinates,
+  enterFrom: Coordinates | null | undefined,
+  baseVariants: MarkerBaseVariants
+): Variants {
+  const { current: map } = useMap();
+  const prefersReducedMotion = useReducedMotion();
+
+  // Screen offset from this marker to another coordinate at the current zoom
+  const getOffset = useCallback((target: Coordinates) => {
+    if (!map || prefersReducedMotion) return null;
+
+    const from = map.project([target.longitude, target.latitude]);
+    const to = map.project([position.longitude, position.latitude]);
+    return { x: from.x - to.x, y: from.y - to.y };
+  }, [map, prefersReducedMotion, position.latitude, position.longitude]);
+
+  return useMemo(() => {
+    const enterOffset = enterFrom ? getOffset(enterFrom) : null;
+
+    return {
+      initial: enterOffset ? { ...baseVariants.initial, ...enterOffset } : baseVariants.initial,
+      animate: { ...baseVariants.animate, x: 0, y: 0 },
+      exit: (targets?: MarkerTransitionTargets) => {
+        const target = targets?.[nodeId];
+        const exitOffset = target ? getOffset(target) : null;
+        return exitOffset ? { ...baseVariants.exit, ...exitOffset } : baseVariants.exit;
+      },
+    };
+  }, [nodeId, enterFrom, baseVariants, getOffset]);
+}
+
+export default useMarkerTransition;
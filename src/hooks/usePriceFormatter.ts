@@ -0,0 +1,66 @@
+import { useMemo } from 'react';
+import type { Currency, Hotel, StayDates } from '../types/index';
+import { getHotelPrice, getHotelStayPrice } from '../utils/dataProcessor';
+import { formatCurrency, fromBaseCurrency } from '../utils/currencyUtils';
+import { formatNightCount } from '../utils/stayUtils';
+import { useAppStore, selectDisplayCurrency, selectStayDates } from '../store';
+
+export interface PriceFormatter {
+  currency: Currency;
+  stay: StayDates | null;
+  /** Hotel's nightly price in the display currency, averaged over the stay when one is set */
+  formatHotelPrice: (hotel: Hotel) => string;
+  /** Hotel's price as listed, or null when it is already in the display currency */
+  formatListedPrice: (hotel: Hotel) => string | null;
+  /** Base-currency amount (filter ranges, cluster ranges) in the display currency */
+  formatBaseAmount: (amount: number) => string;
+  /** "$3,207 total for 3 nights", or null without a stay */
+  formatStayTotal: (hotel: Hotel) => string | null;
+  /** Price-tag marker label: the stay total when a stay is set, otherwise the nightly price */
+  formatPriceTag: (hotel: Hotel) => string;
+  /** Range of price-tag amounts across hotels (e.g. a cluster), "$1,150-$1,900" */
+  formatPriceTagRange: (hotels: Hotel[]) => string;
+}
+
+/**
+ * Price formatting in the user's display currency and for the selected stay
+ * @returns PriceFormatter - Formatters bound to the current display currency and stay
+ */
+export function usePriceFormatter(): PriceFormatter {
+  const currency = useAppStore(selectDisplayCurrency);
+  const stay = useAppStore(selectStayDates);
+
+  return useMemo(() => {
+    // Same amount the price tags show: stay total when a stay is set, otherwise nightly
+    const getPriceTagAmount = (hotel: Hotel): number => {
+      const stayPrice = stay ? getHotelStayPrice(hotel, stay, currency) : null;
+      return stayPrice ? stayPrice.total : getHotelPrice(hotel, currency, stay);
+    };
+
+    return {
+      currency,
+      stay,
+      formatHotelPrice: (hotel) => formatCurrency(getHotelPrice(hotel, currency, stay), currency),
+      formatListedPrice: (hotel) =>
+        hotel.currency === currency
+          ? null
+          : formatCurrency(getHotelPrice(hotel, hotel.currency as Currency, stay), hotel.currency as Currency),
+      formatBaseAmount: (amount) => formatCurrency(fromBaseCurrency(amount, currency), currency),
+      formatStayTotal: (hotel) => {
+        const stayPrice = stay ? getHotelStayPrice(hotel, stay, currency) : null;
+        return stayPrice
+          ? `${formatCurrency(stayPrice.total, currency)} total for ${formatNightCount(stayPrice.nights)}`
+          : null;
+      },
+      formatPriceTag: (hotel) => formatCurrency(getPriceTagAmount(hotel), currency),
+      formatPriceTagRange: (hotels) => {
+        const amounts = hotels.map(getPriceTagAmount);
+        const min = formatCurrency(Math.min(...amounts), currency);
+        const max = formatCurrency(Math.max(...amounts), currency);
+        return min === max ? min : `${min}-${max}`;
+      },
+    };
+  }, [currency, stay]);
+}
+
+export default usePriceFormatter;
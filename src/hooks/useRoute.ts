@@ -0,0 +1,17 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { matchRoute, subscribeToLocation } from '../utils/router';
+import type { AppRoute } from '../utils/router';
+
+const getPathname = () => window.location.pathname;
+
+/**
+ * Current app route, updated on in-app navigation and back/forward
+ * @returns AppRoute - Matched route for the current pathname
+ */
+export function useRoute(): AppRoute {
+  const pathname = useSyncExternalStore(subscribeToLocation, getPathname);
+
+  return useMemo(() => matchRoute(pathname), [pathname]);
+}
+
+export default useRoute;
@@ -0,0 +1,128 @@
+import { useEffect } from 'react';
+import type { AppStore, HotelFilters } from '../types/index';
+import { useAppStore } from '../store';
+import { encodeUrlState, decodeUrlState } from '../utils/urlState';
+import type { UrlMapView } from '../utils/urlState';
+import { areFiltersEqual } from '../utils/filterUtils';
+
+// Viewport changes fire on every map frame, so settle before touching history
+const VIEWPORT_SYNC_DELAY = 400;
+
+/**
+ * Build the query string for the current store state
+ * @param state - App store state
+ * @returns string - Encoded query string
+ */
+const buildSearch = (state: AppStore): string => {
+  const { center, zoom } = state.map.viewport;
+
+  return encodeUrlState({
+    filters: state.filters.filters,
+    view: { latitude: center.latitude, longitude: center.longitude, zoom },
+    selectedHotelId: state.selectedHotel?.hotel_id ?? null,
+  });
+};
+
+/**
+ * Read the map view encoded in the current URL
+ * Used to position the map before it mounts
+ * @returns UrlMapView | null - Encoded view, if any
+ */
+export function getInitialUrlMapView(): UrlMapView | null {
+  return decodeUrlState(window.location.search).view;
+}
+
+/**
+ * Keep applied filters, map viewport and selected hotel in sync with the URL
+ * Filter changes and hotel selections push history entries so back/forward
+ * steps through them; viewport changes replace the current entry
+ * @param enabled - Start syncing once hotel data has loaded
+ */
+export function useUrlState(enabled: boolean): void {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let isRestoring = false;
+    let viewportTimeout: number | null = null;
+    // Last filters and selection written to history, so previews can be skipped
+    let committed = { filters: {} as HotelFilters, selectedHotelId: null as number | null };
+
+    const commitCurrentState = () => {
+      const { filters, selectedHotel } = useAppStore.getState();
+      committed = { filters: filters.filters, selectedHotelId: selectedHotel?.hotel_id ?? null };
+    };
+
+    const restoreFromUrl = (includeView: boolean) => {
+      const urlState = decodeUrlState(window.location.search);
+      const { hotels, map, setFilters, setSelectedHotel, setMapViewport } = useAppStore.getState();
+
+      isRestoring = true;
+      // Browser history already covers these changes
+      setFilters(urlState.filters, { recordHistory: false });
+      setSelectedHotel(
+        hotels.find(hotel => hotel.hotel_id === urlState.selectedHotelId) ?? null
+      );
+      if (includeView && urlState.view) {
+        setMapViewport({
+          ...map.viewport,
+          center: { latitude: urlState.view.latitude, longitude: urlState.view.longitude },
+          zoom: urlState.view.zoom,
+        });
+      }
+      isRestoring = false;
+      commitCurrentState();
+    };
+
+    const writeUrl = (mode: 'push' | 'replace') => {
+      const search = buildSearch(useAppStore.getState());
+      if (search === window.location.search) return;
+
+      const url = `${window.location.pathname}${search}${window.location.hash}`;
+      if (mode === 'push') {
+        window.history.pushState(null, '', url);
+      } else {
+        window.history.replaceState(null, '', url);
+      }
+    };
+
+    const handlePopState = () => {
+      restoreFromUrl(false);
+    };
+
+    // Initial restore, then normalize the URL to the canonical encoding
+    restoreFromUrl(true);
+    writeUrl('replace');
+
+    const unsubscribe = useAppStore.subscribe((state, prevState) => {
+      // Previewed filters are not committed yet, so they stay out of the URL
+      if (isRestoring || state.filterPanel.isPreviewing) return;
+
+      const filtersChanged = !areFiltersEqual(state.filters.filters, committed.filters);
+      const selectionChanged = (state.selectedHotel?.hotel_id ?? null) !== committed.selectedHotelId;
+
+      if (filtersChanged || selectionChanged) {
+        commitCurrentState();
+        writeUrl('push');
+        return;
+      }
+
+      if (state.map.viewport !== prevState.map.viewport) {
+        if (viewportTimeout) clearTimeout(viewportTimeout);
+        viewportTimeout = window.setTimeout(() => {
+          viewportTimeout = null;
+          writeUrl('replace');
+        }, VIEWPORT_SYNC_DELAY);
+      }
+    });
+
+    window.addEventListener('popstate', handlePopState);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('popstate', handlePopState);
+      if (viewportTimeout) clearTimeout(viewportTimeout);
+    };
+  }, [enabled]);
+}
+
+export default useUrlState;
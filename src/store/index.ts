@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type { AppStore } from '../types/index';
+import { createHotelSlice } from './slices/hotelSlice';
+import { createFilterSlice } from './slices/filterSlice';
+import { createMapSlice } from './slices/mapSlice';
+import { createSearchSlice } from './slices/searchSlice';
+import { createLoadingSlice } from './slices/loadingSlice';
+import { createDataQualitySlice } from './slices/dataQualitySlice';
+import { createCurrencySlice } from './slices/currencySlice';
+import { createFavoritesSlice } from './slices/favoritesSlice';
+import { createFilterPresetsSlice } from './slices/filterPresetsSlice';
+
+// =============================================================================
+// APP STORE
+// =============================================================================
+
+/**
+ * Central application store
+ * Composed from hotels, filters, map, search, loading, data quality, currency, favorites and filter preset slices.
+ * Actions are named `<slice>/<action>` so they read clearly in Redux DevTools.
+ */
+export const useAppStore = create<AppStore>()(
+  devtools(
+    (...args) => ({
+      ...createHotelSlice(...args),
+      ...createFilterSlice(...args),
+      ...createMapSlice(...args),
+      ...createSearchSlice(...args),
+      ...createLoadingSlice(...args),
+      ...createDataQualitySlice(...args),
+      ...createCurrencySlice(...args),
+      ...createFavoritesSlice(...args),
+      ...createFilterPresetsSlice(...args),
+    }),
+    {
+      name: 'SeattleHotelExplorer',
+      enabled: import.meta.env.DEV,
+    }
+  )
+);
+
+export * from './selectors';
+
+export default useAppStore;
@@ -0,0 +1,84 @@
+import type { AppStore } from '../types/index';
+import {
+  countActiveFilters,
+  hasFilterValues,
+  areFiltersEqual,
+} from '../utils/filterUtils';
+
+// =============================================================================
+// HOTEL SELECTORS
+// =============================================================================
+
+export const selectHotels = (state: AppStore) => state.hotels;
+export const selectFilteredHotels = (state: AppStore) => state.filteredHotels;
+export const selectSelectedHotel = (state: AppStore) => state.selectedHotel;
+export const selectHoveredHotel = (state: AppStore) => state.hoveredHotel;
+
+// =============================================================================
+// FILTER SELECTORS
+// =============================================================================
+
+export const selectAppliedFilters = (state: AppStore) => state.filters.filters;
+export const selectDistanceReference = (state: AppStore) => state.filters.distanceReference;
+export const selectStayDates = (state: AppStore) => state.filters.stay;
+export const selectFilterPanel = (state: AppStore) => state.filterPanel;
+export const selectFilterPresets = (state: AppStore) => state.filterPresets;
+
+// Entries the next undo / redo would replay, if any
+export const selectUndoFilterEntry = (state: AppStore) =>
+  state.filterHistory.past[state.filterHistory.past.length - 1] ?? null;
+export const selectRedoFilterEntry = (state: AppStore) =>
+  state.filterHistory.future[state.filterHistory.future.length - 1] ?? null;
+
+// Count active applied filters (for badge display)
+export const selectActiveFiltersCount = (state: AppStore) =>
+  countActiveFilters(state.filters.filters);
+
+// Whether pending filters differ from applied filters
+export const selectHasPendingChanges = (state: AppStore) =>
+  !areFiltersEqual(state.filterPanel.pendingFilters, state.filters.filters);
+
+// Whether pending filters contain any criteria
+export const selectHasPendingFilters = (state: AppStore) =>
+  hasFilterValues(state.filterPanel.pendingFilters);
+
+// Whether pending filters differ from the baseline captured on panel open
+export const selectHasFilterChanges = (state: AppStore) =>
+  !areFiltersEqual(state.filterPanel.pendingFilters, state.filterPanel.originalFilters);
+
+// Conditional backdrop visibility
+export const selectShouldShowBackdrop = (state: AppStore) =>
+  state.filterPanel.isOpen && state.filterPanel.showBackdrop && !state.filterPanel.isPreviewing;
+
+// =============================================================================
+// MAP, SEARCH & LOADING SELECTORS
+// =============================================================================
+
+export const selectMapViewport = (state: AppStore) => state.map.viewport;
+export const selectMapBounds = (state: AppStore) => state.map.bounds; // Null until the map reports its view
+export const selectSearch = (state: AppStore) => state.search;
+export const selectIsLoading = (state: AppStore) => state.loading.isLoading;
+export const selectLoadError = (state: AppStore) => state.loading.error;
+
+// =============================================================================
+// DATA QUALITY SELECTORS
+// =============================================================================
+
+export const selectDataQuality = (state: AppStore) => state.dataQuality;
+export const selectDataIssueCount = (state: AppStore) => state.dataQuality.issues.length;
+
+// =============================================================================
+// CURRENCY SELECTORS
+// =============================================================================
+
+export const selectDisplayCurrency = (state: AppStore) => state.displayCurrency;
+
+// =============================================================================
+// FAVORITES SELECTORS
+// =============================================================================
+
+export const selectFavorites = (state: AppStore) => state.favorites;
+export const selectFavoritesCount = (state: AppStore) => state.favorites.length;
+
+export const selectIsFavorite = (hotelId: number) => (state: AppStore) =>
+  state.favorites.some(favorite => favorite.hotelId === hotelId);
@@ -0,0 +1,15 @@
+import type { AppSliceCreator, CurrencySlice } from '../types';
+import { getDefaultDisplayCurrency } from '../../utils/currencyUtils';
+
+// =============================================================================
+// CURRENCY SLICE
+// =============================================================================
+
+// Display only: filter price ranges stay in the base currency
+export const createCurrencySlice: AppSliceCreator<CurrencySlice> = (set) => ({
+  displayCurrency: getDefaultDisplayCurrency(),
+
+  setDisplayCurrency: (currency) => {
+    set({ displayCurrency: currency }, false, 'currency/setDisplayCurrency');
+  },
+});
@@ -0,0 +1,31 @@
+import type { AppSliceCreator, DataQualitySlice } from '../types';
+
+// =============================================================================
+// DATA QUALITY SLICE
+// =============================================================================
+
+export const createDataQualitySlice: AppSliceCreator<DataQualitySlice> = (set) => ({
+  dataQuality: {
+    source: null,
+    totalRecords: 0,
+    validRecords: 0,
+    issues: [],
+    checkedAt: null,
+  },
+
+  setDataQualityReport: (source, report) => {
+    set(
+      {
+        dataQuality: {
+          source,
+          totalRecords: report.totalRecords,
+          validRecords: report.hotels.length,
+          issues: report.issues,
+          checkedAt: Date.now(),
+        },
+      },
+      false,
+      'dataQuality/setReport'
+    );
+  },
+});
@@ -0,0 +1,39 @@
+import type { AppSliceCreator, FavoritesSlice } from '../types';
+import { loadFavorites, saveFavorites, createFavorite } from '../../utils/favoritesUtils';
+
+// =============================================================================
+// FAVORITES SLICE
+// =============================================================================
+
+// Favorites outlive the dataset: entries for hotels that are not loaded are
+// kept until the user removes them, since a later import may bring them back
+export const createFavoritesSlice: AppSliceCreator<FavoritesSlice> = (set, get) => ({
+  favorites: loadFavorites(),
+
+  toggleFavorite: (hotel) => {
+    const { favorites } = get();
+    const isFavorite = favorites.some(favorite => favorite.hotelId === hotel.hotel_id);
+    const nextFavorites = isFavorite
+      ? favorites.filter(favorite => favorite.hotelId !== hotel.hotel_id)
+      : [...favorites, createFavorite(hotel)];
+
+    set({ favorites: nextFavorites }, false, 'favorites/toggle');
+    saveFavorites(nextFavorites);
+  },
+
+  removeFavorite: (hotelId) => {
+    const nextFavorites = get().favorites.filter(favorite => favorite.hotelId !== hotelId);
+
+    set({ favorites: nextFavorites }, false, 'favorites/remove');
+    saveFavorites(nextFavorites);
+  },
+
+  removeUnavailableFavorites: () => {
+    const { favorites, hotels } = get();
+    const loadedIds = new Set(hotels.map(hotel => hotel.hotel_id));
+    const nextFavorites = favorites.filter(favorite => loadedIds.has(favorite.hotelId));
+
+    set({ favorites: nextFavorites }, false, 'favorites/removeUnavailable');
+    saveFavorites(nextFavorites);
+  },
+});
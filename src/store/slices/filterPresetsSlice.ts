@@ -0,0 +1,81 @@
+import type { AppSliceCreator, FilterPresetsSlice } from '../types';
+import type { FilterPreset } from '../../types/index';
+import {
+  loadFilterPresets,
+  saveFilterPresets,
+  createFilterPreset,
+  normalizePresetName,
+  getUniquePresetName,
+  movePreset,
+} from '../../utils/filterPresets';
+
+type SliceSet = Parameters<AppSliceCreator<FilterPresetsSlice>>[0];
+
+// =============================================================================
+// FILTER PRESETS SLICE
+// =============================================================================
+
+// Every change is written through to localStorage
+function updatePresets(set: SliceSet, filterPresets: FilterPreset[], action: string): void {
+  set({ filterPresets }, false, action);
+  saveFilterPresets(filterPresets);
+}
+
+export const createFilterPresetsSlice: AppSliceCreator<FilterPresetsSlice> = (set, get) => ({
+  filterPresets: loadFilterPresets(),
+
+  // Presets capture the applied filters, not a half-edited panel
+  saveFilterPreset: (name) => {
+    const { filterPresets, filters } = get();
+    const normalizedName = normalizePresetName(name);
+    if (!normalizedName) return;
+
+    const preset = createFilterPreset(
+      getUniquePresetName(normalizedName, filterPresets),
+      filters.filters
+    );
+    updatePresets(set, [...filterPresets, preset], 'filterPresets/save');
+  },
+
+  applyFilterPreset: (id) => {
+    const preset = get().filterPresets.find(p => p.id === id);
+    if (!preset) return;
+
+    get().setFilters(preset.filters);
+    // Keep an open panel in step with what was just applied
+    if (get().filterPanel.isOpen) {
+      get().setPendingFilters(preset.filters);
+    }
+  },
+
+  renameFilterPreset: (id, name) => {
+    const { filterPresets } = get();
+    const normalizedName = normalizePresetName(name);
+    if (!normalizedName) return;
+
+    const others = filterPresets.filter(preset => preset.id !== id);
+    updatePresets(set, 
+      filterPresets.map(preset =>
+        preset.id === id ? { ...preset, name: getUniquePresetName(normalizedName, others) } : preset
+      ),
+      'filterPresets/rename'
+    );
+  },
+
+  deleteFilterPreset: (id) => {
+    updatePresets(set, get().filterPresets.filter(preset => preset.id !== id), 'filterPresets/delete');
+  },
+
+  moveFilterPreset: (id, toIndex) => {
+    updatePresets(set, movePreset(get().filterPresets, id, toIndex), 'filterPresets/move');
+  },
+
+  // Imported presets are appended; clashing names get a numeric suffix
+  importFilterPresets: (presets) => {
+    const imported = presets.reduce<FilterPreset[]>(
+      (all, { name, filters }) => [...all, createFilterPreset(getUniquePresetName(name, all), filters)],
+      get().filterPresets
+    );
+    updatePresets(set, imported, 'filterPresets/import');
+  },
+});
@@ -0,0 +1,489 @@
+import type {
+  Hotel,
+  HotelFilters,
+  Coordinates,
+  StayDates,
+  FilterState,
+  FilterHistoryEntry,
+  FilterHistoryState,
+} from '../../types/index';
+import { SORT_BY } from '../../types/index';
+import { areFiltersEqual, describeFilterChange, hasFilterValues } from '../../utils/filterUtils';
+import { addDistanceToHotels, getDistanceOrigin } from '../../utils/dataProcessor';
+import { getHotelWorker, isCancelledError } from '../../workers/hotelWorkerClient';
+import { fetchAllHotels, fetchHotels, USE_HOTEL_API } from '../../api/hotelApi';
+import type { AppSliceCreator, FilterSlice } from '../types';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+// Small delay when applying filters for visual feedback
+const APPLY_FEEDBACK_DELAY = 300;
+
+// Oldest undo entries are dropped beyond this
+const MAX_FILTER_HISTORY = 50;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+type SliceSet = Parameters<AppSliceCreator<FilterSlice>>[0];
+type SliceGet = Parameters<AppSliceCreator<FilterSlice>>[1];
+
+// State that shapes results without being a filter itself
+type FilterContext = Pick<FilterState, 'distanceReference' | 'stay'>;
+
+/**
+ * Build filter state for newly applied filters
+ * The results count is carried over until the worker returns new results
+ * @param filters - Applied filter criteria
+ * @param context - Distance origin and stay dates, carried over unchanged
+ * @param resultsCount - Last known results count
+ * @returns FilterState - Filter state
+ */
+export function deriveFilterState(
+  filters: HotelFilters,
+  context: FilterContext,
+  resultsCount: number
+): FilterState {
+  return {
+    filters,
+    isActive: hasFilterValues(filters),
+    resultsCount,
+    distanceReference: context.distanceReference,
+    stay: context.stay,
+  };
+}
+
+// Whether results depend on how hotels are priced for the stay
+function isPriceDependent(filters: HotelFilters): boolean {
+  return filters.priceRange !== undefined || filters.sortBy === SORT_BY.Price;
+}
+
+function reportWorkerError(error: unknown): void {
+  if (!isCancelledError(error)) {
+    console.error('Hotel filtering failed:', error);
+  }
+}
+
+/**
+ * Fetch every hotel matching the filters from the hotels API
+ * Matches are mapped back to the loaded hotel objects so selection and clustering keep working
+ * @param hotels - Loaded hotels
+ * @param filters - Applied filter criteria, sent server-side
+ * @param referencePoint - Distance origin for distance sorting
+ * @param stay - Stay dates used to price hotels
+ * @returns Promise<Hotel[]> - Matching hotels in server order, with distances
+ */
+async function fetchFilterResults(
+  hotels: Hotel[],
+  filters: HotelFilters,
+  referencePoint: Coordinates | null,
+  stay: StayDates | null
+): Promise<Hotel[]> {
+  const hotelsById = new Map(hotels.map(hotel => [hotel.hotel_id, hotel]));
+  const matches = (await fetchAllHotels(filters, { referencePoint, stay }))
+    .map(hotel => hotelsById.get(hotel.hotel_id) ?? hotel);
+
+  const distanceOrigin = getDistanceOrigin(filters, referencePoint);
+  return distanceOrigin ? addDistanceToHotels(matches, distanceOrigin) : matches;
+}
+
+/**
+ * Filter hotels off the main thread for the currently applied filters
+ * With the hotels API enabled the server filters instead of the worker
+ * Results are dropped if the applied filters changed while the request ran
+ * @param set - Store setter
+ * @param get - Store getter
+ */
+export function requestFilterResults(set: SliceSet, get: SliceGet): void {
+  const { hotels, filters: { filters, distanceReference, stay } } = get();
+
+  const storeResults = (filteredHotels: Hotel[]) => {
+    if (get().filters.filters !== filters || get().filters.stay !== stay) return;
+    set(
+      (state) => ({
+        filteredHotels,
+        filters: { ...state.filters, resultsCount: filteredHotels.length },
+      }),
+      false,
+      'filters/filterResults'
+    );
+  };
+
+  // Nothing to filter or sort: skip the worker round trip
+  if (!hasFilterValues(filters) && !filters.sortBy) {
+    storeResults(hotels);
+    return;
+  }
+
+  const referencePoint = distanceReference?.coordinates ?? null;
+  const results = USE_HOTEL_API
+    ? fetchFilterResults(hotels, filters, referencePoint, stay)
+    : getHotelWorker().filter(filters, referencePoint, stay);
+
+  results.then(storeResults).catch(reportWorkerError);
+}
+
+/**
+ * Count hotels matching the pending (not yet applied) filters off the main thread
+ * With the hotels API enabled the server counts instead of the worker
+ * Counts are dropped if the pending filters changed while the request ran
+ * @param set - Store setter
+ * @param get - Store getter
+ */
+export function requestPreviewCount(set: SliceSet, get: SliceGet): void {
+  const { hotels, filterPanel: { pendingFilters }, filters: { stay } } = get();
+
+  const storeCount = (previewCount: number) => {
+    if (get().filterPanel.pendingFilters !== pendingFilters || get().filters.stay !== stay) return;
+    set(
+      (state) => ({ filterPanel: { ...state.filterPanel, previewCount } }),
+      false,
+      'filters/previewCount'
+    );
+  };
+
+  if (!hasFilterValues(pendingFilters)) {
+    storeCount(hotels.length);
+    return;
+  }
+
+  // The API reports the total with any page, so a single-item page is enough
+  const count = USE_HOTEL_API
+    ? fetchHotels(pendingFilters, { limit: 1, stay }).then(response => response.total)
+    : getHotelWorker().countPreview(pendingFilters, stay);
+
+  count.then(storeCount).catch(reportWorkerError);
+}
+
+/**
+ * Record a change to the applied filters for undo
+ * No-op changes are skipped; any new change clears the redo stack
+ * @param set - Store setter
+ * @param get - Store getter
+ * @param before - Filters applied before the change
+ * @param after - Filters applied after the change
+ */
+function recordFilterChange(set: SliceSet, get: SliceGet, before: HotelFilters, after: HotelFilters): void {
+  if (areFiltersEqual(before, after)) return;
+
+  const entry: FilterHistoryEntry = {
+    before,
+    after,
+    description: describeFilterChange(before, after, get().displayCurrency),
+    at: Date.now(),
+  };
+
+  set(
+    (state) => ({
+      filterHistory: {
+        past: [...state.filterHistory.past, entry].slice(-MAX_FILTER_HISTORY),
+        future: [],
+      },
+    }),
+    false,
+    'filters/recordHistory'
+  );
+}
+
+/**
+ * Apply filters restored from history
+ * The panel's pending and original filters follow so it never shows stale values
+ * @param set - Store setter
+ * @param get - Store getter
+ * @param filters - Filters to apply
+ * @param filterHistory - History after moving the entry between stacks
+ * @param action - Devtools action name
+ */
+function restoreFilters(
+  set: SliceSet,
+  get: SliceGet,
+  filters: HotelFilters,
+  filterHistory: FilterHistoryState,
+  action: string
+): void {
+  set(
+    (state) => ({
+      filters: deriveFilterState(filters, state.filters, state.filters.resultsCount),
+      filterHistory,
+      filterPanel: {
+        ...state.filterPanel,
+        pendingFilters: filters,
+        originalFilters: filters,
+        showBackdrop: state.filterPanel.isOpen,
+        isPreviewing: false,
+      },
+    }),
+    false,
+    action
+  );
+  requestFilterResults(set, get);
+
+  if (get().filterPanel.isOpen) {
+    requestPreviewCount(set, get);
+  }
+}
+
+// =============================================================================
+// FILTER SLICE
+// =============================================================================
+
+export const createFilterSlice: AppSliceCreator<FilterSlice> = (set, get) => ({
+  filters: {
+    filters: {},
+    isActive: false,
+    resultsCount: 0,
+    distanceReference: null,
+    stay: null,
+  },
+  filterPanel: {
+    isOpen: false,
+    pendingFilters: {},
+    originalFilters: {},
+    previewCount: 0,
+    showBackdrop: true,
+    isPreviewing: false,
+    isApplying: false,
+  },
+  filterHistory: {
+    past: [],
+    future: [],
+  },
+
+  setFilters: (filters, options) => {
+    if (options?.recordHistory !== false) {
+      recordFilterChange(set, get, get().filters.filters, filters);
+    }
+
+    set(
+      (state) => ({
+        filters: deriveFilterState(filters, state.filters, state.filters.resultsCount),
+      }),
+      false,
+      'filters/setFilters'
+    );
+    requestFilterResults(set, get);
+  },
+
+  resetFilters: () => {
+    get().setFilters({});
+  },
+
+  // Only re-sort when the applied filters sort by distance from the reference point
+  setDistanceReference: (reference) => {
+    const { filters } = get();
+
+    set(
+      { filters: { ...filters, distanceReference: reference } },
+      false,
+      'filters/setDistanceReference'
+    );
+
+    if (filters.filters.sortBy === SORT_BY.Distance && !filters.filters.distanceFromPoi) {
+      requestFilterResults(set, get);
+    }
+  },
+
+  // Only re-filter when prices matter to the applied or pending filters
+  setStayDates: (stay) => {
+    const { filters, filterPanel } = get();
+
+    set(
+      { filters: { ...filters, stay } },
+      false,
+      'filters/setStayDates'
+    );
+
+    if (isPriceDependent(filters.filters)) {
+      requestFilterResults(set, get);
+    }
+    if (isPriceDependent(filterPanel.pendingFilters)) {
+      requestPreviewCount(set, get);
+    }
+  },
+
+  // Start from the applied filters, which may have changed outside the panel
+  openFilterPanel: () => {
+    set(
+      (state) => ({
+        filterPanel: {
+          ...state.filterPanel,
+          isOpen: true,
+          pendingFilters: state.filters.filters,
+          originalFilters: state.filters.filters,
+          previewCount: state.filters.resultsCount,
+          showBackdrop: true,
+          isPreviewing: false,
+        },
+      }),
+      false,
+      'filters/openFilterPanel'
+    );
+  },
+
+  // Reset pending filters to applied filters when closing without applying
+  closeFilterPanel: () => {
+    set(
+      (state) => ({
+        filterPanel: {
+          ...state.filterPanel,
+          isOpen: false,
+          pendingFilters: state.filters.filters,
+          previewCount: state.filters.resultsCount,
+          showBackdrop: false,
+          isPreviewing: false,
+        },
+      }),
+      false,
+      'filters/closeFilterPanel'
+    );
+  },
+
+  // Update the panel immediately without filtering the map
+  setPendingFilters: (filters) => {
+    set(
+      (state) => ({
+        filterPanel: {
+          ...state.filterPanel,
+          pendingFilters: filters,
+        },
+      }),
+      false,
+      'filters/setPendingFilters'
+    );
+    requestPreviewCount(set, get);
+  },
+
+  togglePreview: () => {
+    const { filterPanel, filters } = get();
+
+    if (!filterPanel.isPreviewing) {
+      // Enter preview mode
+      set(
+        {
+          filters: deriveFilterState(filterPanel.pendingFilters, filters, filterPanel.previewCount),
+          filterPanel: { ...filterPanel, showBackdrop: false, isPreviewing: true },
+        },
+        false,
+        'filters/previewOn'
+      );
+    } else {
+      // Exit preview mode
+      set(
+        {
+          filters: deriveFilterState(filterPanel.originalFilters, filters, filters.resultsCount),
+          filterPanel: { ...filterPanel, showBackdrop: true, isPreviewing: false },
+        },
+        false,
+        'filters/previewOff'
+      );
+    }
+    requestFilterResults(set, get);
+  },
+
+  // Apply pending filters and close the panel
+  applyPendingFilters: async () => {
+    set(
+      (state) => ({ filterPanel: { ...state.filterPanel, isApplying: true } }),
+      false,
+      'filters/applyStart'
+    );
+
+    await new Promise(resolve => setTimeout(resolve, APPLY_FEEDBACK_DELAY));
+
+    const { filterPanel, filters } = get();
+    const pendingFilters = filterPanel.pendingFilters;
+
+    // Compare with what was applied before the panel opened, not the preview
+    recordFilterChange(set, get, filterPanel.originalFilters, pendingFilters);
+
+    set(
+      {
+        filters: deriveFilterState(pendingFilters, filters, filterPanel.previewCount),
+        filterPanel: {
+          ...filterPanel,
+          isOpen: false,
+          originalFilters: pendingFilters,
+          showBackdrop: false,
+          isPreviewing: false,
+          isApplying: false,
+        },
+      },
+      false,
+      'filters/applyPendingFilters'
+    );
+    requestFilterResults(set, get);
+  },
+
+  clearAllFilters: () => {
+    const { filters, filterPanel } = get();
+    recordFilterChange(
+      set,
+      get,
+      filterPanel.isPreviewing ? filterPanel.originalFilters : filters.filters,
+      {}
+    );
+
+    set(
+      (state) => ({
+        filters: deriveFilterState({}, state.filters, state.hotels.length),
+        filterPanel: {
+          ...state.filterPanel,
+          pendingFilters: {},
+          originalFilters: {},
+          previewCount: state.hotels.length,
+        },
+      }),
+      false,
+      'filters/clearAllFilters'
+    );
+    requestFilterResults(set, get);
+  },
+
+  // Cancel pending changes
+  resetPendingFilters: () => {
+    set(
+      (state) => ({
+        filterPanel: {
+          ...state.filterPanel,
+          pendingFilters: state.filters.filters,
+          previewCount: state.filters.resultsCount,
+          isPreviewing: false,
+          showBackdrop: true,
+        },
+      }),
+      false,
+      'filters/resetPendingFilters'
+    );
+  },
+
+  undoFilterChange: () => {
+    const { past, future } = get().filterHistory;
+    const entry = past[past.length - 1];
+    if (!entry) return;
+
+    restoreFilters(
+      set,
+      get,
+      entry.before,
+      { past: past.slice(0, -1), future: [...future, entry] },
+      'filters/undo'
+    );
+  },
+
+  redoFilterChange: () => {
+    const { past, future } = get().filterHistory;
+    const entry = future[future.length - 1];
+    if (!entry) return;
+
+    restoreFilters(
+      set,
+      get,
+      entry.after,
+      { past: [...past, entry], future: future.slice(0, -1) },
+      'filters/redo'
+    );
+  },
+});
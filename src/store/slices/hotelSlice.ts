@@ -0,0 +1,60 @@
+import type { AppSliceCreator, HotelSlice } from '../types';
+import { requestFilterResults, requestPreviewCount } from './filterSlice';
+import { getHotelWorker } from '../../workers/hotelWorkerClient';
+
+// =============================================================================
+// HOTEL SLICE
+// =============================================================================
+
+export const createHotelSlice: AppSliceCreator<HotelSlice> = (set, get) => ({
+  hotels: [],
+  filteredHotels: [],
+  selectedHotel: null,
+  hoveredHotel: null,
+
+  // Re-run applied and pending filters against the new dataset
+  setHotels: (hotels) => {
+    getHotelWorker().setHotels(hotels);
+
+    // Keep selection pointing at hotels in the new dataset
+    const byId = new Map(hotels.map(hotel => [hotel.hotel_id, hotel]));
+    set(
+      (state) => {
+        const selectedHotel = state.selectedHotel ? byId.get(state.selectedHotel.hotel_id) ?? null : null;
+        const hoveredHotel = state.hoveredHotel ? byId.get(state.hoveredHotel.hotel_id) ?? null : null;
+        return {
+          hotels,
+          selectedHotel,
+          hoveredHotel,
+          map: { ...state.map, selectedHotel, hoveredHotel },
+        };
+      },
+      false,
+      'hotels/setHotels'
+    );
+    requestFilterResults(set, get);
+    requestPreviewCount(set, get);
+  },
+
+  setSelectedHotel: (hotel) => {
+    set(
+      (state) => ({
+        selectedHotel: hotel,
+        map: { ...state.map, selectedHotel: hotel },
+      }),
+      false,
+      'hotels/setSelectedHotel'
+    );
+  },
+
+  setHoveredHotel: (hotel) => {
+    set(
+      (state) => ({
+        hoveredHotel: hotel,
+        map: { ...state.map, hoveredHotel: hotel },
+      }),
+      false,
+      'hotels/setHoveredHotel'
+    );
+  },
+});
@@ -0,0 +1,28 @@
+import type { AppSliceCreator, LoadingSlice } from '../types';
+
+// =============================================================================
+// LOADING SLICE
+// =============================================================================
+
+export const createLoadingSlice: AppSliceCreator<LoadingSlice> = (set) => ({
+  loading: {
+    isLoading: true,
+    error: null,
+  },
+
+  setLoading: (isLoading) => {
+    set(
+      (state) => ({ loading: { ...state.loading, isLoading } }),
+      false,
+      'loading/setLoading'
+    );
+  },
+
+  setError: (error) => {
+    set(
+      (state) => ({ loading: { ...state.loading, error } }),
+      false,
+      'loading/setError'
+    );
+  },
+});
@@ -0,0 +1,58 @@
+import type { MapViewport } from '../../types/index';
+import type { AppSliceCreator, MapSlice } from '../types';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+// Seattle downtown, matching the map's initial view state
+export const INITIAL_VIEWPORT: MapViewport = {
+  bounds: {
+    northeast: { latitude: 47.6289, longitude: -122.3045 },
+    southwest: { latitude: 47.5889, longitude: -122.3645 },
+  },
+  center: { latitude: 47.6089, longitude: -122.3345 },
+  zoom: 12.5,
+};
+
+// =============================================================================
+// MAP SLICE
+// =============================================================================
+
+export const createMapSlice: AppSliceCreator<MapSlice> = (set) => ({
+  map: {
+    viewport: INITIAL_VIEWPORT,
+    clusters: [],
+    visibleHotels: [],
+    selectedHotel: null,
+    hoveredHotel: null,
+    isLoading: false,
+    bounds: null,
+  },
+
+  setMapViewport: (viewport) => {
+    set(
+      (state) => ({
+        map: { ...state.map, viewport, bounds: viewport.bounds },
+      }),
+      false,
+      'map/setMapViewport'
+    );
+  },
+
+  setClusters: (clusters) => {
+    set(
+      (state) => ({ map: { ...state.map, clusters } }),
+      false,
+      'map/setClusters'
+    );
+  },
+
+  setVisibleHotels: (hotels) => {
+    set(
+      (state) => ({ map: { ...state.map, visibleHotels: hotels } }),
+      false,
+      'map/setVisibleHotels'
+    );
+  },
+});
@@ -0,0 +1,43 @@
+import type { AppSliceCreator, SearchSlice } from '../types';
+
+// =============================================================================
+// SEARCH SLICE
+// =============================================================================
+
+export const createSearchSlice: AppSliceCreator<SearchSlice> = (set) => ({
+  search: {
+    query: '',
+    results: [],
+    isSearching: false,
+    hasSearched: false,
+  },
+
+  setSearchQuery: (query) => {
+    set(
+      (state) => ({
+        search: {
+          ...state.search,
+          query,
+          isSearching: query.trim().length > 0,
+        },
+      }),
+      false,
+      'search/setSearchQuery'
+    );
+  },
+
+  setSearchResults: (results) => {
+    set(
+      (state) => ({
+        search: {
+          ...state.search,
+          results,
+          isSearching: false,
+          hasSearched: true,
+        },
+      }),
+      false,
+      'search/setSearchResults'
+    );
+  },
+});
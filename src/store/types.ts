@@ -0,0 +1,68 @@
+import type { StateCreator } from 'zustand';
+import type { AppStore } from '../types/index';
+
+// =============================================================================
+// STORE SLICE TYPES
+// =============================================================================
+
+/**
+ * State creator for a single slice of the app store
+ * Slices receive the full store so actions can read across slices
+ */
+export type AppSliceCreator<T> = StateCreator<
+  AppStore,
+  [['zustand/devtools', never]],
+  [],
+  T
+>;
+
+export type HotelSlice = Pick<
+  AppStore,
+  'hotels' | 'filteredHotels' | 'selectedHotel' | 'hoveredHotel' |
+  'setHotels' | 'setSelectedHotel' | 'setHoveredHotel'
+>;
+
+export type FilterSlice = Pick<
+  AppStore,
+  'filters' | 'filterPanel' | 'filterHistory' |
+  'setFilters' | 'resetFilters' | 'setDistanceReference' | 'setStayDates' |
+  'openFilterPanel' | 'closeFilterPanel' | 'setPendingFilters' | 'togglePreview' |
+  'applyPendingFilters' | 'clearAllFilters' | 'resetPendingFilters' |
+  'undoFilterChange' | 'redoFilterChange'
+>;
+
+export type MapSlice = Pick<
+  AppStore,
+  'map' | 'setMapViewport' | 'setClusters' | 'setVisibleHotels'
+>;
+
+export type SearchSlice = Pick<
+  AppStore,
+  'search' | 'setSearchQuery' | 'setSearchResults'
+>;
+
+export type LoadingSlice = Pick<
+  AppStore,
+  'loading' | 'setLoading' | 'setError'
+>;
+
+export type DataQualitySlice = Pick<
+  AppStore,
+  'dataQuality' | 'setDataQualityReport'
+>;
+
+export type CurrencySlice = Pick<
+  AppStore,
+  'displayCurrency' | 'setDisplayCurrency'
+>;
+
+export type FavoritesSlice = Pick<
+  AppStore,
+  'favorites' | 'toggleFavorite' | 'removeFavorite' | 'removeUnavailableFavorites'
+>;
+
+export type FilterPresetsSlice = Pick<
+  AppStore,
+  'filterPresets' | 'saveFilterPreset' | 'applyFilterPreset' | 'renameFilterPreset' |
+  'deleteFilterPreset' | 'moveFilterPreset' | 'importFilterPresets'
+>;
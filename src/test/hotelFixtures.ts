@@ -0,0 +1,31 @@
+import type { Hotel } from '../types/index';
+import { AMENITIES } from '../types/index';
+
+// =============================================================================
+// TEST HOTELS
+// =============================================================================
+
+/**
+ * Build a valid hotel for tests; only the fields a test cares about need overriding
+ * @param hotelId - Hotel identifier
+ * @param overrides - Fields to replace
+ * @returns Hotel - Hotel in downtown Seattle unless moved
+ */
+export function createTestHotel(hotelId: number, overrides: Partial<Hotel> = {}): Hotel {
+  return {
+    hotel_id: hotelId,
+    name: `Hotel ${hotelId}`,
+    latitude: 47.6097,
+    longitude: -122.3331,
+    address: `${hotelId} Pine St, Seattle, WA`,
+    star_rating: 4,
+    price_per_night: 200,
+    currency: 'USD',
+    rating: 8.5,
+    review_count: 120,
+    image_url: `https://example.com/hotels/${hotelId}.jpg`,
+    room_type: 'King Room',
+    amenities: [AMENITIES.WiFi],
+    ...overrides,
+  };
+}
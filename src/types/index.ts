@@ -16,6 +16,12 @@ export interface Hotel {
   image_url: string;
   room_type: string;
   amenities: Amenity[];
+  rates?: HotelRates; // Optional date-dependent pricing, in `currency`
+}
+
+export interface HotelRates {
+  weekend?: number;                // Nightly rate for Friday and Saturday nights
+  byDate?: Record<string, number>; // Nightly rate overrides keyed by ISO date (YYYY-MM-DD)
 }
 
 // =============================================================================
@@ -37,6 +43,9 @@ export type Amenity = typeof AMENITIES[keyof typeof AMENITIES];
 
 export const CURRENCIES = {
   USD: 'USD',
+  CAD: 'CAD',
+  EUR: 'EUR',
+  GBP: 'GBP',
 } as const;
 
 export type Currency = typeof CURRENCIES[keyof typeof CURRENCIES];
@@ -52,6 +61,34 @@ export const SORT_BY = {
 
 export type SortBy = typeof SORT_BY[keyof typeof SORT_BY];
 
+export const POI_CATEGORIES = {
+  Landmark: 'landmark',
+  Market: 'market',
+  Convention: 'convention',
+  Stadium: 'stadium',
+  Museum: 'museum',
+  Park: 'park',
+  Ferry: 'ferry',
+  Transit: 'transit',
+} as const;
+
+export type PoiCategory = typeof POI_CATEGORIES[keyof typeof POI_CATEGORIES];
+
+export const HEATMAP_WEIGHTS = {
+  Price: 'price',
+  Rating: 'rating',
+  Value: 'value', // Rating relative to price
+} as const;
+
+export type HeatmapWeight = typeof HEATMAP_WEIGHTS[keyof typeof HEATMAP_WEIGHTS];
+
+export const MARKER_STYLES = {
+  Rating: 'rating', // Pins colored by rating
+  Price: 'price',   // Pill labels showing the price
+} as const;
+
+export type MarkerStyle = typeof MARKER_STYLES[keyof typeof MARKER_STYLES];
+
 export const SORT_ORDER = {
   Ascending: 'asc',
   Descending: 'desc',
@@ -59,10 +96,27 @@ export const SORT_ORDER = {
 
 export type SortOrder = typeof SORT_ORDER[keyof typeof SORT_ORDER];
 
+export const VALIDATION_SEVERITY = {
+  Error: 'error',     // Record was dropped
+  Warning: 'warning', // Record kept, but a value was changed or removed
+} as const;
+
+export type ValidationSeverity = typeof VALIDATION_SEVERITY[keyof typeof VALIDATION_SEVERITY];
+
+export const VALIDATION_RESOLUTION = {
+  Dropped: 'dropped', // Whole record excluded from the dataset
+  Coerced: 'coerced', // Value converted to the expected type or format
+  Removed: 'removed', // Value (e.g. an unknown amenity) removed from the record
+} as const;
+
+export type ValidationResolution = typeof VALIDATION_RESOLUTION[keyof typeof VALIDATION_RESOLUTION];
+
 // =============================================================================
 // FILTER TYPES
 // =============================================================================
 
+// Filter price ranges are nightly rates in the exchange-rate base currency,
+// averaged over the stay when stay dates are set
 export interface PriceRange {
   min: number;
   max: number;
@@ -73,20 +127,83 @@ export interface RatingRange {
   max: number;
 }
 
+// Polygon drawn on the map; the ring closes back to its first point
+export interface FilterArea {
+  points: Coordinates[];
+}
+
+export interface RadiusFilter {
+  center: Coordinates;
+  radius: number; // Kilometers
+}
+
 export interface HotelFilters {
   priceRange?: PriceRange;
   ratingRange?: RatingRange;
   starRating?: number[];
   amenities?: Amenity[];
+  areas?: FilterArea[]; // Hotels inside any of the areas match
+  bounds?: BoundingBox; // Map area from "Search this area"
+  near?: RadiusFilter;  // Hotels within a distance of a dropped pin
   searchQuery?: string;
   sortBy?: SortBy;
   sortOrder?: SortOrder;
+  distanceFromPoi?: string; // Point of interest id that distance sorting measures from
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: HotelFilters;
+  createdAt: number; // Timestamp
+}
+
+export interface StayDates {
+  checkIn: string;  // ISO date (YYYY-MM-DD)
+  checkOut: string; // ISO date, after checkIn
+}
+
+export interface DistanceReference {
+  coordinates: Coordinates;
+  source: 'user-location' | 'map-center';
+}
+
+export interface FilterHistoryEntry {
+  before: HotelFilters;
+  after: HotelFilters;
+  description: string; // e.g. "Added WiFi", built from the filter chip labels
+  at: number;          // Timestamp of the change
+}
+
+export interface FilterHistoryState {
+  past: FilterHistoryEntry[];   // Oldest first; the last entry is undone next
+  future: FilterHistoryEntry[]; // Most recently undone last
 }
 
 export interface FilterState {
   filters: HotelFilters;
   isActive: boolean;
   resultsCount: number;
+  distanceReference: DistanceReference | null; // Origin for distance sorting
+  stay: StayDates | null;                       // Trip dates used to price hotels
+}
+
+// =============================================================================
+// POINT OF INTEREST TYPES
+// =============================================================================
+
+export interface PointOfInterest {
+  id: string; // Stable slug, e.g. "space-needle"
+  name: string;
+  category: PoiCategory;
+  latitude: number;
+  longitude: number;
+}
+
+export interface NearbyPointOfInterest {
+  poi: PointOfInterest;
+  distance: number;       // Straight-line distance in kilometers
+  walkingMinutes: number; // Estimated walking time
 }
 
 // =============================================================================
@@ -124,6 +241,11 @@ export interface HotelCluster {
   avgRating: number;
   priceRange: PriceRange;
   bounds: BoundingBox;
+  // Hierarchy links, set when the cluster comes from the cluster tree
+  parentId?: string | null;
+  childIds?: string[];
+  zoom?: number;          // Zoom level at which the cluster forms
+  expansionZoom?: number; // Zoom level at which it splits into its children
 }
 
 export interface ClusteringConfig {
@@ -144,6 +266,55 @@ export interface MapState {
   bounds: MapBounds | null;
 }
 
+// =============================================================================
+// CURRENCY TYPES
+// =============================================================================
+
+export interface ExchangeRateTable {
+  base: Currency;                 // Currency every rate is quoted against
+  asOf: string;                   // ISO date the rates were taken
+  source?: string;
+  rates: Record<Currency, number>; // Units of each currency per 1 unit of base
+}
+
+// =============================================================================
+// FAVORITES TYPES
+// =============================================================================
+
+export interface FavoriteHotel {
+  hotelId: number;
+  name: string;    // Name when favorited, shown if the hotel leaves the dataset
+  addedAt: number; // Timestamp
+}
+
+// =============================================================================
+// DATA QUALITY TYPES
+// =============================================================================
+
+export interface ValidationIssue {
+  hotelId: number | null;  // null when the record has no usable hotel_id
+  recordIndex: number;     // Position of the record in the source data
+  field: string;           // Hotel field, or 'record' for the entry as a whole
+  severity: ValidationSeverity;
+  resolution: ValidationResolution;
+  message: string;
+  rawValue?: unknown;      // Value as found in the source data
+}
+
+export interface HotelValidationResult {
+  hotels: Hotel[];
+  issues: ValidationIssue[];
+  totalRecords: number;
+}
+
+export interface DataQualityState {
+  source: string | null;   // Where the checked records came from
+  totalRecords: number;
+  validRecords: number;
+  issues: ValidationIssue[];
+  checkedAt: number | null; // Timestamp of the last check
+}
+
 // =============================================================================
 // UI STATE TYPES
 // =============================================================================
@@ -161,15 +332,31 @@ export interface SearchState {
   hasSearched: boolean;
 }
 
+export interface FilterPanelState {
+  isOpen: boolean;
+  pendingFilters: HotelFilters;
+  originalFilters: HotelFilters; // Applied filters when the panel was opened
+  previewCount: number;
+  showBackdrop: boolean;
+  isPreviewing: boolean;
+  isApplying: boolean;
+}
+
 export interface AppState {
   hotels: Hotel[];
   filteredHotels: Hotel[];
   selectedHotel: Hotel | null;
   hoveredHotel: Hotel | null;
   filters: FilterState;
+  filterPanel: FilterPanelState;
+  filterHistory: FilterHistoryState;
   map: MapState;
   search: SearchState;
   loading: LoadingState;
+  dataQuality: DataQualityState;
+  displayCurrency: Currency;
+  favorites: FavoriteHotel[];
+  filterPresets: FilterPreset[]; // In display order
 }
 
 // =============================================================================
@@ -247,7 +434,7 @@ export interface HotelCardProps {
   onSelect?: (hotel: Hotel) => void;
   onHover?: (hotel: Hotel | null) => void;
   showDistance?: boolean;
-  distance?: number;
+  distance?: number; // Kilometers
   className?: string;
 }
 
@@ -277,6 +464,10 @@ export interface FilterComponentProps {
 // STORE TYPES
 // =============================================================================
 
+export interface SetFiltersOptions {
+  recordHistory?: boolean; // Defaults to true; off when restoring state from elsewhere
+}
+
 export interface StoreActions {
   // Hotel actions
   setHotels: (hotels: Hotel[]) => void;
@@ -284,8 +475,23 @@ export interface StoreActions {
   setHoveredHotel: (hotel: Hotel | null) => void;
   
   // Filter actions
-  setFilters: (filters: HotelFilters) => void;
+  setFilters: (filters: HotelFilters, options?: SetFiltersOptions) => void;
   resetFilters: () => void;
+  setDistanceReference: (reference: DistanceReference | null) => void;
+  setStayDates: (stay: StayDates | null) => void;
+  
+  // Filter panel actions
+  openFilterPanel: () => void;
+  closeFilterPanel: () => void;
+  setPendingFilters: (filters: HotelFilters) => void;
+  togglePreview: () => void;
+  applyPendingFilters: () => Promise<void>;
+  clearAllFilters: () => void;
+  resetPendingFilters: () => void;
+  
+  // Filter history actions
+  undoFilterChange: () => void;
+  redoFilterChange: () => void;
   
   // Map actions
   setMapViewport: (viewport: MapViewport) => void;
@@ -299,6 +505,25 @@ export interface StoreActions {
   // Loading actions
   setLoading: (isLoading: boolean) => void;
   setError: (error: string | null) => void;
+
+  // Data quality actions
+  setDataQualityReport: (source: string, report: HotelValidationResult) => void;
+
+  // Currency actions
+  setDisplayCurrency: (currency: Currency) => void;
+
+  // Favorites actions
+  toggleFavorite: (hotel: Hotel) => void;
+  removeFavorite: (hotelId: number) => void;
+  removeUnavailableFavorites: () => void;
+
+  // Filter preset actions
+  saveFilterPreset: (name: string) => void;
+  applyFilterPreset: (id: string) => void;
+  renameFilterPreset: (id: string, name: string) => void;
+  deleteFilterPreset: (id: string) => void;
+  moveFilterPreset: (id: string, toIndex: number) => void;
+  importFilterPresets: (presets: Array<Pick<FilterPreset, 'name' | 'filters'>>) => void;
 }
 
 export interface AppStore extends AppState, StoreActions {}
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import type { FilterArea } from '../types/index';
+import { createTestHotel } from '../test/hotelFixtures';
+import {
+  isPointInArea,
+  createFilterArea,
+  encodeArea,
+  decodeArea,
+  MAX_AREA_POINTS,
+  clampRadius,
+  formatRadius,
+  createRadiusFilter,
+  encodeRadiusFilter,
+  decodeRadiusFilter,
+  getPointAtDistance,
+  MIN_RADIUS_KM,
+  MAX_RADIUS_KM,
+} from './areaUtils';
+import { calculateDistance, filterHotels } from './dataProcessor';
+
+// L-shaped area: the notch at the top right is outside
+const L_AREA: FilterArea = {
+  points: [
+    { latitude: 47.60, longitude: -122.34 },
+    { latitude: 47.62, longitude: -122.34 },
+    { latitude: 47.62, longitude: -122.33 },
+    { latitude: 47.61, longitude: -122.33 },
+    { latitude: 47.61, longitude: -122.32 },
+    { latitude: 47.60, longitude: -122.32 },
+  ],
+};
+
+describe('isPointInArea', () => {
+  it('tests points against a concave polygon', () => {
+    expect(isPointInArea({ latitude: 47.615, longitude: -122.335 }, L_AREA)).toBe(true);
+    expect(isPointInArea({ latitude: 47.605, longitude: -122.325 }, L_AREA)).toBe(true);
+    expect(isPointInArea({ latitude: 47.615, longitude: -122.325 }, L_AREA)).toBe(false);
+    expect(isPointInArea({ latitude: 47.63, longitude: -122.335 }, L_AREA)).toBe(false);
+  });
+});
+
+describe('createFilterArea', () => {
+  it('rounds vertices and drops repeated clicks', () => {
+    const area = createFilterArea([
+      { latitude: 47.6000001, longitude: -122.34 },
+      { latitude: 47.6, longitude: -122.34 },
+      { latitude: 47.62, longitude: -122.34 },
+      { latitude: 47.62, longitude: -122.32 },
+    ]);
+
+    expect(area?.points).toEqual([
+      { latitude: 47.6, longitude: -122.34 },
+      { latitude: 47.62, longitude: -122.34 },
+      { latitude: 47.62, longitude: -122.32 },
+    ]);
+  });
+
+  it('needs three distinct points and keeps at most the maximum', () => {
+    expect(createFilterArea([L_AREA.points[0], L_AREA.points[0], L_AREA.points[1]])).toBeNull();
+
+    const many = Array.from({ length: MAX_AREA_POINTS + 5 }, (_, index) => ({
+      latitude: 47.6 + index * 0.001,
+      longitude: -122.34 + (index % 2) * 0.001,
+    }));
+    expect(createFilterArea(many)?.points).toHaveLength(MAX_AREA_POINTS);
+  });
+});
+
+describe('encodeArea / decodeArea', () => {
+  it('round-trips an area', () => {
+    expect(decodeArea(encodeArea(L_AREA))).toEqual(L_AREA);
+  });
+
+  it('rejects malformed or out-of-range points', () => {
+    expect(decodeArea('47.6,-122.3;47.7')).toBeNull();
+    expect(decodeArea('47.6,-122.3;95,-122.3;47.7,-122.2')).toBeNull();
+    expect(decodeArea('')).toBeNull();
+  });
+});
+
+describe('filterHotels with drawn areas', () => {
+  it('keeps hotels inside any of the areas', () => {
+    const inside = createTestHotel(1, { latitude: 47.615, longitude: -122.335 });
+    const inNotch = createTestHotel(2, { latitude: 47.615, longitude: -122.325 });
+    const elsewhere = createTestHotel(3, { latitude: 47.7, longitude: -122.4 });
+    const otherArea = createFilterArea([
+      { latitude: 47.69, longitude: -122.41 },
+      { latitude: 47.71, longitude: -122.41 },
+      { latitude: 47.70, longitude: -122.39 },
+    ])!;
+
+    expect(filterHotels([inside, inNotch, elsewhere], { areas: [L_AREA] })).toEqual([inside]);
+    expect(filterHotels([inside, inNotch, elsewhere], { areas: [L_AREA, otherArea] })).toEqual([inside, elsewhere]);
+  });
+});
+
+describe('radius helpers', () => {
+  it('clamps radii to the supported range and rounds to 10 m', () => {
+    expect(clampRadius(0)).toBe(MIN_RADIUS_KM);
+    expect(clampRadius(100)).toBe(MAX_RADIUS_KM);
+    expect(clampRadius(1.234)).toBe(1.23);
+  });
+
+  it('labels short radii in meters and longer ones in kilometers', () => {
+    expect(formatRadius(0.75)).toBe('750 m');
+    expect(formatRadius(1)).toBe('1 km');
+    expect(formatRadius(2.25)).toBe('2.3 km');
+  });
+
+  it('finds points at the requested distance in kilometers', () => {
+    const center = { latitude: 47.6097, longitude: -122.3331 };
+
+    for (const bearing of [0, 90, 225]) {
+      expect(calculateDistance(center, getPointAtDistance(center, 2, bearing))).toBeCloseTo(2, 5);
+    }
+  });
+});
+
+describe('encodeRadiusFilter / decodeRadiusFilter', () => {
+  it('round-trips a radius filter', () => {
+    const near = createRadiusFilter({ latitude: 47.6097123, longitude: -122.3331456 }, 1.5);
+
+    expect(near).toEqual({ center: { latitude: 47.60971, longitude: -122.33315 }, radius: 1.5 });
+    expect(decodeRadiusFilter(encodeRadiusFilter(near))).toEqual(near);
+  });
+
+  it('clamps decoded radii and rejects invalid values', () => {
+    expect(decodeRadiusFilter('47.6,-122.3,500')?.radius).toBe(MAX_RADIUS_KM);
+    expect(decodeRadiusFilter('47.6,-122.3,0')).toBeNull();
+    expect(decodeRadiusFilter('47.6,-200,1')).toBeNull();
+    expect(decodeRadiusFilter('47.6,-122.3')).toBeNull();
+  });
+});
+
+describe('filterHotels with a radius', () => {
+  it('keeps hotels within the radius and measures distance in kilometers from the pin', () => {
+    const near = createRadiusFilter({ latitude: 47.6097, longitude: -122.3331 }, 1);
+    const at = (distance: number, bearing: number) => getPointAtDistance(near.center, distance, bearing);
+
+    const center = createTestHotel(1, near.center);
+    const justInside = createTestHotel(2, at(0.95, 45));
+    const justOutside = createTestHotel(3, at(1.05, 180));
+    const farAway = createTestHotel(4, at(10, 270));
+
+    const results = filterHotels([center, justInside, justOutside, farAway], { near });
+
+    expect(results.map(hotel => hotel.hotel_id)).toEqual([1, 2]);
+    expect(results[1]).toMatchObject({ distance: expect.closeTo(0.95, 5) });
+  });
+});
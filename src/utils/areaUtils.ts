@@ -0,0 +1,367 @@
+import type { BoundingBox, Coordinates, FilterArea, MapBounds, RadiusFilter } from '../types/index';
+
+// =============================================================================
+// AREA CONFIGURATION
+// =============================================================================
+
+export const MIN_AREA_POINTS = 3;
+
+// Keeps shared links a reasonable length
+export const MAX_AREA_POINTS = 40;
+
+const COORDINATE_DECIMALS = 5;
+const MILES_PER_DEGREE_LATITUDE = 69.05;
+
+// Share of the visible span the map must move before bounds count as changed
+const BOUNDS_MOVE_THRESHOLD = 0.1;
+
+// Radius filter limits, in kilometers
+export const MIN_RADIUS_KM = 0.1;
+export const MAX_RADIUS_KM = 25;
+export const DEFAULT_RADIUS_KM = 1;
+
+const EARTH_RADIUS_KM = 6371;
+
+// =============================================================================
+// GEOMETRY
+// =============================================================================
+
+/**
+ * Check whether a point lies inside a polygon area (ray casting)
+ * Areas are small enough that latitude and longitude can be treated as planar
+ * @param point - Point to test
+ * @param area - Polygon area
+ * @returns boolean - Whether the point is inside
+ */
+export function isPointInArea(point: Coordinates, area: FilterArea): boolean {
+  const { points } = area;
+  let isInside = false;
+
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude);
+    if (
+      crosses &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude
+    ) {
+      isInside = !isInside;
+    }
+  }
+
+  return isInside;
+}
+
+/**
+ * Approximate the size of an area (shoelace formula on an equirectangular projection)
+ * @param area - Polygon area
+ * @returns number - Size in square miles
+ */
+export function getAreaSize(area: FilterArea): number {
+  const { points } = area;
+  if (points.length < MIN_AREA_POINTS) return 0;
+
+  const meanLatitude = points.reduce((sum, point) => sum + point.latitude, 0) / points.length;
+  const milesPerDegreeLongitude = MILES_PER_DEGREE_LATITUDE * Math.cos((meanLatitude * Math.PI) / 180);
+
+  let doubled = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    doubled +=
+      points[j].longitude * milesPerDegreeLongitude * points[i].latitude * MILES_PER_DEGREE_LATITUDE -
+      points[i].longitude * milesPerDegreeLongitude * points[j].latitude * MILES_PER_DEGREE_LATITUDE;
+  }
+
+  return Math.abs(doubled) / 2;
+}
+
+/**
+ * Describe an area for chips and history, e.g. "Area · 0.8 sq mi"
+ * @param area - Polygon area
+ * @returns string - Display label
+ */
+export function getAreaLabel(area: FilterArea): string {
+  const size = getAreaSize(area);
+  return `Area · ${size < 0.1 ? '<0.1' : size.toFixed(1)} sq mi`;
+}
+
+// =============================================================================
+// AREA HELPERS
+// =============================================================================
+
+const roundCoordinate = (value: number): number => Number(value.toFixed(COORDINATE_DECIMALS));
+
+/**
+ * Create an area from drawn points
+ * Repeated consecutive points (e.g. from a double click) are dropped
+ * @param points - Vertices in drawing order
+ * @returns FilterArea | null - Area, or null when too few distinct points remain
+ */
+export function createFilterArea(points: Coordinates[]): FilterArea | null {
+  const rounded = points
+    .slice(0, MAX_AREA_POINTS)
+    .map(point => ({ latitude: roundCoordinate(point.latitude), longitude: roundCoordinate(point.longitude) }));
+  const distinct = rounded.filter((point, index) => {
+    const previous = rounded[index - 1];
+    return !previous || previous.latitude !== point.latitude || previous.longitude !== point.longitude;
+  });
+
+  return distinct.length >= MIN_AREA_POINTS ? { points: distinct } : null;
+}
+
+/**
+ * Identify an area by its vertices, so equal areas share a key
+ * @param area - Polygon area
+ * @returns string - Stable key
+ */
+export function getAreaKey(area: FilterArea): string {
+  return encodeArea(area);
+}
+
+/**
+ * Rebuild an area from untrusted data, e.g. a shared JSON file
+ * @param data - Parsed JSON
+ * @returns FilterArea | null - Valid area, or null
+ */
+export function sanitizeArea(data: unknown): FilterArea | null {
+  const points = (data as { points?: unknown } | null)?.points;
+  if (!Array.isArray(points)) return null;
+
+  const valid = points.filter((point): point is Coordinates => {
+    const { latitude, longitude } = (point ?? {}) as Partial<Coordinates>;
+    return (
+      typeof latitude === 'number' && latitude >= -90 && latitude <= 90 &&
+      typeof longitude === 'number' && longitude >= -180 && longitude <= 180
+    );
+  });
+
+  return valid.length === points.length ? createFilterArea(valid) : null;
+}
+
+// =============================================================================
+// URL ENCODING
+// =============================================================================
+// Points are "lat,lng" pairs separated by ";"
+
+/**
+ * Serialize an area for a URL
+ * @param area - Polygon area
+ * @returns string - Encoded area
+ */
+export function encodeArea(area: FilterArea): string {
+  return area.points.map(point => `${point.latitude},${point.longitude}`).join(';');
+}
+
+/**
+ * Parse an area serialized with encodeArea
+ * @param value - Encoded area
+ * @returns FilterArea | null - Area, or null when invalid
+ */
+export function decodeArea(value: string): FilterArea | null {
+  const points = value.split(';').map(pair => {
+    const [latitude, longitude] = pair.split(',').map(Number);
+    return { latitude, longitude };
+  });
+  return sanitizeArea({ points });
+}
+
+// =============================================================================
+// BOUNDS
+// =============================================================================
+
+/**
+ * Convert map bounds to a rounded bounding box
+ * @param bounds - Visible map bounds
+ * @returns BoundingBox - Box with coordinates rounded for sharing
+ */
+export function toBoundingBox(bounds: MapBounds): BoundingBox {
+  return {
+    north: roundCoordinate(bounds.northeast.latitude),
+    south: roundCoordinate(bounds.southwest.latitude),
+    east: roundCoordinate(bounds.northeast.longitude),
+    west: roundCoordinate(bounds.southwest.longitude),
+  };
+}
+
+/**
+ * Check whether a point lies inside a bounding box
+ * Boxes whose west edge is east of their east edge span the antimeridian
+ * @param point - Point to test
+ * @param box - Bounding box
+ * @returns boolean - Whether the point is inside
+ */
+export function isPointInBounds(point: Coordinates, box: BoundingBox): boolean {
+  if (point.latitude < box.south || point.latitude > box.north) return false;
+
+  return box.west <= box.east
+    ? point.longitude >= box.west && point.longitude <= box.east
+    : point.longitude >= box.west || point.longitude <= box.east;
+}
+
+/**
+ * Check whether the view moved far enough from a box to search again
+ * @param from - Previously searched box
+ * @param to - Currently visible box
+ * @returns boolean - Whether any edge moved by a noticeable share of the span
+ */
+export function haveBoundsMoved(from: BoundingBox, to: BoundingBox): boolean {
+  const latitudeTolerance = (from.north - from.south) * BOUNDS_MOVE_THRESHOLD;
+  const longitudeTolerance = Math.abs(from.east - from.west) * BOUNDS_MOVE_THRESHOLD;
+
+  return (
+    Math.abs(from.north - to.north) > latitudeTolerance ||
+    Math.abs(from.south - to.south) > latitudeTolerance ||
+    Math.abs(from.east - to.east) > longitudeTolerance ||
+    Math.abs(from.west - to.west) > longitudeTolerance
+  );
+}
+
+/**
+ * Rebuild a bounding box from untrusted data
+ * @param data - Parsed JSON
+ * @returns BoundingBox | null - Valid box, or null
+ */
+export function sanitizeBounds(data: unknown): BoundingBox | null {
+  const { north, south, east, west } = (data ?? {}) as Partial<BoundingBox>;
+  const isLatitude = (value: unknown): value is number =>
+    typeof value === 'number' && value >= -90 && value <= 90;
+  const isLongitude = (value: unknown): value is number =>
+    typeof value === 'number' && value >= -180 && value <= 180;
+
+  if (!isLatitude(north) || !isLatitude(south) || !isLongitude(east) || !isLongitude(west) || south >= north) {
+    return null;
+  }
+  return { north, south, east, west };
+}
+
+/**
+ * Serialize a bounding box for a URL as "north,south,east,west"
+ * @param box - Bounding box
+ * @returns string - Encoded box
+ */
+export function encodeBounds(box: BoundingBox): string {
+  return [box.north, box.south, box.east, box.west].join(',');
+}
+
+/**
+ * Parse a bounding box serialized with encodeBounds
+ * @param value - Encoded box
+ * @returns BoundingBox | null - Box, or null when invalid
+ */
+export function decodeBounds(value: string): BoundingBox | null {
+  const [north, south, east, west] = value.split(',').map(Number);
+  return sanitizeBounds({ north, south, east, west });
+}
+
+// =============================================================================
+// RADIUS
+// =============================================================================
+
+/**
+ * Keep a radius within the supported range, rounded to 10 m
+ * @param radius - Radius in kilometers
+ * @returns number - Clamped radius
+ */
+export function clampRadius(radius: number): number {
+  const clamped = Math.min(Math.max(radius, MIN_RADIUS_KM), MAX_RADIUS_KM);
+  return Math.round(clamped * 100) / 100;
+}
+
+/**
+ * Format a radius for chips and map labels, e.g. "750 m" or "1.5 km"
+ * @param radius - Radius in kilometers
+ * @returns string - Display label
+ */
+export function formatRadius(radius: number): string {
+  return radius < 1 ? `${Math.round(radius * 1000)} m` : `${Number(radius.toFixed(1))} km`;
+}
+
+/**
+ * Find the point a given distance and bearing away from a center
+ * @param center - Starting point
+ * @param distance - Distance in kilometers
+ * @param bearing - Degrees clockwise from north
+ * @returns Coordinates - Destination point
+ */
+export function getPointAtDistance(center: Coordinates, distance: number, bearing: number): Coordinates {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+  const angular = distance / EARTH_RADIUS_KM;
+  const theta = toRadians(bearing);
+  const lat1 = toRadians(center.latitude);
+  const lng1 = toRadians(center.longitude);
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta)
+  );
+  const lng2 = lng1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+  );
+
+  return { latitude: toDegrees(lat2), longitude: toDegrees(lng2) };
+}
+
+/**
+ * Approximate a radius filter's circle as a polygon for drawing
+ * @param near - Radius filter
+ * @param steps - Number of vertices
+ * @returns Coordinates[] - Vertices, not closed
+ */
+export function getCirclePoints(near: RadiusFilter, steps = 64): Coordinates[] {
+  return Array.from({ length: steps }, (_, index) =>
+    getPointAtDistance(near.center, near.radius, (index * 360) / steps)
+  );
+}
+
+/**
+ * Create a radius filter with a rounded center and clamped radius
+ * @param center - Circle center
+ * @param radius - Radius in kilometers
+ * @returns RadiusFilter - Radius filter
+ */
+export function createRadiusFilter(center: Coordinates, radius: number = DEFAULT_RADIUS_KM): RadiusFilter {
+  return {
+    center: { latitude: roundCoordinate(center.latitude), longitude: roundCoordinate(center.longitude) },
+    radius: clampRadius(radius),
+  };
+}
+
+/**
+ * Rebuild a radius filter from untrusted data
+ * @param data - Parsed JSON
+ * @returns RadiusFilter | null - Valid radius filter, or null
+ */
+export function sanitizeRadiusFilter(data: unknown): RadiusFilter | null {
+  const { center, radius } = (data ?? {}) as Partial<RadiusFilter>;
+  const { latitude, longitude } = (center ?? {}) as Partial<Coordinates>;
+
+  if (
+    typeof latitude !== 'number' || latitude < -90 || latitude > 90 ||
+    typeof longitude !== 'number' || longitude < -180 || longitude > 180 ||
+    typeof radius !== 'number' || !Number.isFinite(radius) || radius <= 0
+  ) {
+    return null;
+  }
+  return createRadiusFilter({ latitude, longitude }, radius);
+}
+
+/**
+ * Serialize a radius filter for a URL as "lat,lng,radius"
+ * @param near - Radius filter
+ * @returns string - Encoded radius filter
+ */
+export function encodeRadiusFilter(near: RadiusFilter): string {
+  return [near.center.latitude, near.center.longitude, near.radius].join(',');
+}
+
+/**
+ * Parse a radius filter serialized with encodeRadiusFilter
+ * @param value - Encoded radius filter
+ * @returns RadiusFilter | null - Radius filter, or null when invalid
+ */
+export function decodeRadiusFilter(value: string): RadiusFilter | null {
+  const [latitude, longitude, radius] = value.split(',').map(Number);
+  return sanitizeRadiusFilter({ center: { latitude, longitude }, radius });
+}
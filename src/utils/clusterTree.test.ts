@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { ClusteringConfig, Hotel, HotelCluster } from '../types/index';
+import { createTestHotel } from '../test/hotelFixtures';
+import { createClusterTree, getClusterTransitions, getClusterTree, getHotelNodeId } from './clusterTree';
+
+const CONFIG: ClusteringConfig = {
+  minZoom: 8,
+  maxZoom: 14,
+  clusterRadius: 50,
+  maxClusterSize: 50,
+  pixelRadius: 40,
+};
+
+// Two tight groups ~25 km apart: downtown Seattle and the Eastside
+const HOTELS: Hotel[] = [
+  ...Array.from({ length: 6 }, (_, index) =>
+    createTestHotel(index + 1, { latitude: 47.61 + index * 0.0004, longitude: -122.335 + index * 0.0004 })
+  ),
+  ...Array.from({ length: 4 }, (_, index) =>
+    createTestHotel(index + 101, { latitude: 47.61 + index * 0.0004, longitude: -122.0 + index * 0.0004 })
+  ),
+];
+
+const hotelIds = (hotels: Hotel[]) => hotels.map(hotel => hotel.hotel_id).sort((a, b) => a - b);
+
+function shownHotelIds(clusters: HotelCluster[], individualHotels: Hotel[]): number[] {
+  return hotelIds([...clusters.flatMap(cluster => cluster.hotels), ...individualHotels]);
+}
+
+describe('createClusterTree', () => {
+  const tree = createClusterTree(HOTELS, CONFIG);
+
+  it('shows every hotel exactly once at each level', () => {
+    for (let level = CONFIG.minZoom; level <= CONFIG.maxZoom + 1; level++) {
+      const { clusters, individualHotels } = tree.getClusters(level);
+      expect(shownHotelIds(clusters, individualHotels)).toEqual(hotelIds(HOTELS));
+    }
+  });
+
+  it('shows individual hotels above the maximum zoom', () => {
+    const { clusters, individualHotels } = tree.getClusters(CONFIG.maxZoom + 3);
+    expect(clusters).toEqual([]);
+    expect(individualHotels).toHaveLength(HOTELS.length);
+  });
+
+  it('clusters nearby hotels without merging distant groups', () => {
+    const { clusters } = tree.getClusters(10);
+    expect(clusters.map(cluster => hotelIds(cluster.hotels))).toEqual(
+      expect.arrayContaining([[1, 2, 3, 4, 5, 6], [101, 102, 103, 104]])
+    );
+  });
+
+  it('only splits clusters into their own children when zooming in', () => {
+    for (let level = CONFIG.minZoom; level <= CONFIG.maxZoom; level++) {
+      for (const cluster of tree.getClusters(level).clusters) {
+        const children = tree.getChildren(cluster.id);
+        const childHotels = children.flatMap(child => ('hotels' in child ? child.hotels : [child]));
+        expect(hotelIds(childHotels)).toEqual(hotelIds(cluster.hotels));
+      }
+    }
+  });
+
+  it('treats fractional zooms as the level below', () => {
+    expect(tree.getLevel(11.7)).toBe(11);
+    expect(tree.getLevel(3)).toBe(CONFIG.minZoom);
+    expect(tree.getLevel(20)).toBe(CONFIG.maxZoom + 1);
+  });
+});
+
+describe('getClusterTransitions', () => {
+  const tree = createClusterTree(HOTELS, CONFIG);
+
+  it('grows split children out of the cluster shown before', () => {
+    const from = tree.getClusters(10).clusters.find(cluster => cluster.count === 6)!;
+    const { enterFrom, exitInto } = getClusterTransitions(tree, 10, CONFIG.maxZoom + 1);
+
+    expect(exitInto).toEqual({});
+    for (const hotel of from.hotels) {
+      expect(enterFrom[getHotelNodeId(hotel)]).toEqual(from.center);
+    }
+  });
+
+  it('collapses merged markers into the cluster that replaces them', () => {
+    const into = tree.getClusters(10).clusters.find(cluster => cluster.count === 4)!;
+    const { enterFrom, exitInto } = getClusterTransitions(tree, CONFIG.maxZoom + 1, 10);
+
+    expect(enterFrom).toEqual({});
+    for (const hotel of into.hotels) {
+      expect(exitInto[getHotelNodeId(hotel)]).toEqual(into.center);
+    }
+  });
+});
+
+describe('getClusterTree', () => {
+  it('reuses the tree for the same hotels and config', () => {
+    expect(getClusterTree(HOTELS, CONFIG)).toBe(getClusterTree(HOTELS, CONFIG));
+    expect(getClusterTree(HOTELS, { ...CONFIG })).not.toBe(getClusterTree(HOTELS, CONFIG));
+  });
+});
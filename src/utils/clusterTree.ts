@@ -0,0 +1,341 @@
+import type { Hotel, HotelCluster, ClusteringConfig, Coordinates, BoundingBox } from '../types/index';
+import {
+  getClusterCenter,
+  getClusterAvgRating,
+  getClusterPriceRange,
+  getClusterBounds,
+} from './clusteringUtils';
+import { QuadTree } from './spatialIndex';
+
+// =============================================================================
+// CLUSTER TREE TYPES
+// =============================================================================
+
+export interface ClusterTree {
+  readonly minZoom: number;
+  readonly maxZoom: number;
+  /** Integer level used for a (fractional) map zoom */
+  getLevel: (zoom: number) => number;
+  /** Clusters and unclustered hotels shown at a zoom */
+  getClusters: (zoom: number) => { clusters: HotelCluster[]; individualHotels: Hotel[] };
+  getCluster: (clusterId: string) => HotelCluster | undefined;
+  /** Direct children: sub-clusters and/or hotels */
+  getChildren: (clusterId: string) => Array<HotelCluster | Hotel>;
+  /** Lowest zoom at which the cluster breaks apart into its children */
+  getExpansionZoom: (clusterId: string) => number;
+  /** Node shown at a zoom that contains the given node, if any */
+  getVisibleAncestor: (nodeId: string, zoom: number) => string | null;
+  getNodeCenter: (nodeId: string) => Coordinates | undefined;
+}
+
+export interface ClusterTransitions {
+  enterFrom: Record<string, Coordinates>; // Split: node id -> center it grows out of
+  exitInto: Record<string, Coordinates>;  // Merge: node id -> center it collapses into
+}
+
+interface TreeNode {
+  id: string;
+  x: number;             // Web Mercator x in [0, 1]
+  y: number;             // Web Mercator y in [0, 1]
+  center: Coordinates;
+  zoom: number;          // Highest level at which this node is shown as-is
+  parentId: string | null;
+  childIds: string[];
+  hotels: Hotel[];
+  cluster: HotelCluster | null; // null for single-hotel leaves
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+// Matches the 256px tiles assumed by pixelDistanceToGeoDistance
+const TILE_SIZE = 256;
+
+// Absorbs float error when a fly-to lands just below an integer zoom
+const ZOOM_EPSILON = 1e-6;
+
+// =============================================================================
+// PROJECTION HELPERS
+// =============================================================================
+
+function projectX(longitude: number): number {
+  return longitude / 360 + 0.5;
+}
+
+function projectY(latitude: number): number {
+  const sin = Math.sin(latitude * Math.PI / 180);
+  const y = 0.5 - 0.25 * Math.log((1 + sin) / (1 - sin)) / Math.PI;
+  return Math.min(Math.max(y, 0), 1);
+}
+
+function unprojectLongitude(x: number): number {
+  return (x - 0.5) * 360;
+}
+
+function unprojectLatitude(y: number): number {
+  const y2 = (180 - y * 360) * Math.PI / 180;
+  return 360 * Math.atan(Math.exp(y2)) / Math.PI - 90;
+}
+
+/**
+ * Lat/lng box covering a square of half-size r around a projected point
+ */
+function projectedBounds(x: number, y: number, r: number): BoundingBox {
+  return {
+    north: unprojectLatitude(y - r),
+    south: unprojectLatitude(y + r),
+    east: unprojectLongitude(x + r),
+    west: unprojectLongitude(x - r),
+  };
+}
+
+// =============================================================================
+// NODE HELPERS
+// =============================================================================
+
+/**
+ * Tree node id for an individual hotel
+ * @param hotel - Hotel
+ * @returns string - Node id
+ */
+export function getHotelNodeId(hotel: Hotel): string {
+  return `hotel-${hotel.hotel_id}`;
+}
+
+function createLeaf(hotel: Hotel, zoom: number): TreeNode {
+  return {
+    id: getHotelNodeId(hotel),
+    x: projectX(hotel.longitude),
+    y: projectY(hotel.latitude),
+    center: { latitude: hotel.latitude, longitude: hotel.longitude },
+    zoom,
+    parentId: null,
+    childIds: [],
+    hotels: [hotel],
+    cluster: null,
+  };
+}
+
+function createClusterNode(members: TreeNode[], zoom: number): TreeNode {
+  const hotels = members.flatMap(member => member.hotels);
+  const center = getClusterCenter(hotels);
+  // The seed's first hotel is unique per level, so the id is stable across rebuilds
+  const id = `cluster-${zoom}-${members[0].hotels[0].hotel_id}`;
+
+  return {
+    id,
+    x: projectX(center.longitude),
+    y: projectY(center.latitude),
+    center,
+    zoom,
+    parentId: null,
+    childIds: members.map(member => member.id),
+    hotels,
+    cluster: {
+      id,
+      center,
+      hotels,
+      count: hotels.length,
+      avgRating: getClusterAvgRating(hotels),
+      priceRange: getClusterPriceRange(hotels),
+      bounds: getClusterBounds(hotels),
+      parentId: null,
+      childIds: members.map(member => member.id),
+      zoom,
+      expansionZoom: zoom + 1,
+    },
+  };
+}
+
+/**
+ * Merge the nodes of one level into clusters for the next lower zoom
+ * Nodes that find no neighbors are carried down unchanged
+ */
+function clusterLevel(nodes: TreeNode[], zoom: number, clusterRadius: number): TreeNode[] {
+  const radius = clusterRadius / (TILE_SIZE * Math.pow(2, zoom));
+  const index = new QuadTree<TreeNode>(node => node.center, nodes);
+  const next: TreeNode[] = [];
+
+  for (const node of nodes) {
+    // Nodes already absorbed into a cluster were removed from the index
+    if (!index.remove(node)) continue;
+
+    const neighbors = index
+      .queryBounds(projectedBounds(node.x, node.y, radius))
+      .filter(other => Math.hypot(other.x - node.x, other.y - node.y) <= radius);
+
+    if (neighbors.length === 0) {
+      next.push(node);
+      continue;
+    }
+
+    neighbors.forEach(neighbor => index.remove(neighbor));
+
+    const clusterNode = createClusterNode([node, ...neighbors], zoom);
+    [node, ...neighbors].forEach(member => {
+      member.parentId = clusterNode.id;
+      if (member.cluster) member.cluster.parentId = clusterNode.id;
+    });
+    next.push(clusterNode);
+  }
+
+  return next;
+}
+
+// =============================================================================
+// CLUSTER TREE
+// =============================================================================
+
+/**
+ * Precompute a cluster hierarchy across config.minZoom..config.maxZoom
+ * Clusters at one zoom are built from the clusters of the zoom above, so a
+ * cluster only ever splits into its own children when zooming in.
+ * Unlike groupHotelsByProximity, cluster size is not capped by maxClusterSize.
+ * @param hotels - Hotels to cluster
+ * @param config - Clustering configuration
+ * @returns ClusterTree - Queryable hierarchy
+ */
+export function createClusterTree(hotels: Hotel[], config: ClusteringConfig): ClusterTree {
+  const { minZoom, maxZoom, clusterRadius } = config;
+  const nodes = new Map<string, TreeNode>();
+  const levels = new Map<number, TreeNode[]>();
+
+  // Above maxZoom every hotel is shown individually
+  let current = hotels.map(hotel => createLeaf(hotel, maxZoom + 1));
+  current.forEach(node => nodes.set(node.id, node));
+  levels.set(maxZoom + 1, current);
+
+  for (let zoom = maxZoom; zoom >= minZoom; zoom--) {
+    current = clusterLevel(current, zoom, clusterRadius);
+    current.forEach(node => {
+      if (!nodes.has(node.id)) nodes.set(node.id, node);
+    });
+    levels.set(zoom, current);
+  }
+
+  const levelResults = new Map<number, { clusters: HotelCluster[]; individualHotels: Hotel[] }>();
+
+  const getLevel = (zoom: number): number =>
+    Math.max(minZoom, Math.min(Math.floor(zoom + ZOOM_EPSILON), maxZoom + 1));
+
+  return {
+    minZoom,
+    maxZoom,
+    getLevel,
+
+    getClusters(zoom) {
+      const level = getLevel(zoom);
+      let result = levelResults.get(level);
+
+      if (!result) {
+        const clusters: HotelCluster[] = [];
+        const individualHotels: Hotel[] = [];
+        for (const node of levels.get(level) ?? []) {
+          if (node.cluster) {
+            clusters.push(node.cluster);
+          } else {
+            individualHotels.push(node.hotels[0]);
+          }
+        }
+        result = { clusters, individualHotels };
+        levelResults.set(level, result);
+      }
+
+      return result;
+    },
+
+    getCluster(clusterId) {
+      return nodes.get(clusterId)?.cluster ?? undefined;
+    },
+
+    getChildren(clusterId) {
+      const node = nodes.get(clusterId);
+      if (!node) return [];
+
+      return node.childIds.map(childId => {
+        const child = nodes.get(childId)!;
+        return child.cluster ?? child.hotels[0];
+      });
+    },
+
+    getExpansionZoom(clusterId) {
+      const node = nodes.get(clusterId);
+      return node ? Math.min(node.zoom + 1, maxZoom + 1) : maxZoom + 1;
+    },
+
+    getVisibleAncestor(nodeId, zoom) {
+      const level = getLevel(zoom);
+      let node = nodes.get(nodeId);
+      if (!node) return null;
+
+      // Walk up while the parent is still shown at this level
+      while (node.parentId) {
+        const parent: TreeNode = nodes.get(node.parentId)!;
+        if (parent.zoom < level) break;
+        node = parent;
+      }
+
+      return node.zoom >= level ? node.id : null;
+    },
+
+    getNodeCenter(nodeId) {
+      return nodes.get(nodeId)?.center;
+    },
+  };
+}
+
+/**
+ * Work out split and merge animations between two levels of the same tree
+ * @param tree - Cluster hierarchy
+ * @param fromLevel - Level currently shown
+ * @param toLevel - Level about to be shown
+ * @returns ClusterTransitions - Enter origins and exit targets by node id
+ */
+export function getClusterTransitions(
+  tree: ClusterTree,
+  fromLevel: number,
+  toLevel: number
+): ClusterTransitions {
+  const enterFrom: Record<string, Coordinates> = {};
+  const exitInto: Record<string, Coordinates> = {};
+
+  const getNodeIds = (level: number) => {
+    const { clusters, individualHotels } = tree.getClusters(level);
+    return [...clusters.map(cluster => cluster.id), ...individualHotels.map(getHotelNodeId)];
+  };
+
+  // Zooming in: children grow out of the cluster that was shown before.
+  // Zooming out: shown markers collapse into the cluster that replaces them.
+  const isSplit = toLevel > fromLevel;
+  const nodeIds = isSplit ? getNodeIds(toLevel) : toLevel < fromLevel ? getNodeIds(fromLevel) : [];
+  const targets = isSplit ? enterFrom : exitInto;
+
+  for (const nodeId of nodeIds) {
+    const ancestorId = tree.getVisibleAncestor(nodeId, isSplit ? fromLevel : toLevel);
+    const center = ancestorId && ancestorId !== nodeId ? tree.getNodeCenter(ancestorId) : undefined;
+    if (center) targets[nodeId] = center;
+  }
+
+  return { enterFrom, exitInto };
+}
+
+// Tree per hotel array, rebuilt only when the filtered set changes
+const clusterTreeCache = new WeakMap<Hotel[], { config: ClusteringConfig; tree: ClusterTree }>();
+
+/**
+ * Get the cluster hierarchy for a hotel list, built once per array and config
+ * @param hotels - Hotels to cluster
+ * @param config - Clustering configuration
+ * @returns ClusterTree - Cached hierarchy
+ */
+export function getClusterTree(hotels: Hotel[], config: ClusteringConfig): ClusterTree {
+  const cached = clusterTreeCache.get(hotels);
+  if (cached && cached.config === config) {
+    return cached.tree;
+  }
+
+  const tree = createClusterTree(hotels, config);
+  clusterTreeCache.set(hotels, { config, tree });
+  return tree;
+}
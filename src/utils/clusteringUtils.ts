@@ -1,5 +1,7 @@
 import type { Hotel, HotelCluster, ClusteringConfig, MapViewport, BoundingBox, Coordinates } from '../types/index';
 import { getClusterColor as getUnifiedClusterColor } from './colorUtils';
+import { QuadTree } from './spatialIndex';
+import { getHotelPrice } from './dataProcessor';
 
 // =============================================================================
 // CLUSTERING CONFIGURATION
@@ -13,6 +15,9 @@ export const DEFAULT_CLUSTERING_CONFIG: ClusteringConfig = {
   pixelRadius: 40,     // Visual marker radius
 };
 
+// Above this many hotels, proximity grouping goes through the spatial index
+export const SPATIAL_INDEX_THRESHOLD = 100;
+
 // =============================================================================
 // CLUSTERING UTILITIES
 // =============================================================================
@@ -115,16 +120,12 @@ export function getClusterAvgRating(hotels: Hotel[]): number {
 }
 
 /**
- * Calculates price range for a set of hotels
+ * Calculates price range for a set of hotels, in the base currency
  */
 export function getClusterPriceRange(hotels: Hotel[]): { min: number; max: number } {
   if (hotels.length === 0) return { min: 0, max: 0 };
   
-  const prices = hotels.map(hotel => 
-    typeof hotel.price_per_night === 'number' 
-      ? hotel.price_per_night 
-      : parseFloat(hotel.price_per_night.toString()) || 0
-  );
+  const prices = hotels.map(hotel => getHotelPrice(hotel));
   
   return {
     min: Math.min(...prices),
@@ -132,6 +133,27 @@ export function getClusterPriceRange(hotels: Hotel[]): { min: number; max: numbe
   };
 }
 
+/**
+ * Builds a cluster object for a group of hotels
+ */
+function createCluster(clusterHotels: Hotel[]): HotelCluster {
+  // Generate stable cluster ID based on hotel IDs (sorted for consistency)
+  const stableId = clusterHotels
+    .map(h => h.hotel_id)
+    .sort((a, b) => a - b)
+    .join('-');
+
+  return {
+    id: `cluster-${stableId}`,
+    center: getClusterCenter(clusterHotels),
+    hotels: clusterHotels,
+    count: clusterHotels.length,
+    avgRating: getClusterAvgRating(clusterHotels),
+    priceRange: getClusterPriceRange(clusterHotels),
+    bounds: getClusterBounds(clusterHotels),
+  };
+}
+
 /**
  * Groups hotels by proximity using k-means clustering approach
  */
@@ -180,27 +202,62 @@ export function groupHotelsByProximity(
     
     // Only create cluster if we have multiple hotels
     if (clusterHotels.length > 1) {
-      // Generate stable cluster ID based on hotel IDs (sorted for consistency)
-      const stableId = clusterHotels
-        .map(h => h.hotel_id)
-        .sort((a, b) => a - b)
-        .join('-');
-      
-      clusters.push({
-        id: `cluster-${stableId}`,
-        center: getClusterCenter(clusterHotels),
-        hotels: clusterHotels,
-        count: clusterHotels.length,
-        avgRating: getClusterAvgRating(clusterHotels),
-        priceRange: getClusterPriceRange(clusterHotels),
-        bounds: getClusterBounds(clusterHotels),
-      });
+      clusters.push(createCluster(clusterHotels));
     }
   }
 
   return clusters;
 }
 
+/**
+ * Groups hotels by proximity using a spatial index for neighbor lookups
+ * Produces the same clusters as groupHotelsByProximity in O(n log n) average time
+ */
+export function groupHotelsByProximityIndexed(
+  hotels: Hotel[],
+  zoom: number,
+  config: ClusteringConfig
+): HotelCluster[] {
+  if (hotels.length <= 1) return [];
+
+  const avgLatitude = hotels.reduce((sum, h) => sum + h.latitude, 0) / hotels.length;
+  const clusterRadiusGeo = pixelDistanceToGeoDistance(config.clusterRadius, avgLatitude, zoom);
+
+  // Index positions rather than hotels so neighbors keep the input order
+  const index = new QuadTree<number>(
+    i => ({ latitude: hotels[i].latitude, longitude: hotels[i].longitude }),
+    hotels.map((_, i) => i)
+  );
+
+  const clusters: HotelCluster[] = [];
+  const processed = new Set<number>();
+
+  for (let i = 0; i < hotels.length; i++) {
+    if (processed.has(i)) continue;
+
+    const hotel = hotels[i];
+    processed.add(i);
+
+    index.remove(i);
+
+    // Processed hotels leave the index, so every neighbor found comes after i
+    const neighbors = index
+      .queryRadius({ latitude: hotel.latitude, longitude: hotel.longitude }, clusterRadiusGeo)
+      .sort((a, b) => a - b)
+      .slice(0, config.maxClusterSize - 1);
+
+    if (neighbors.length === 0) continue;
+
+    neighbors.forEach(j => {
+      processed.add(j);
+      index.remove(j);
+    });
+    clusters.push(createCluster([hotel, ...neighbors.map(j => hotels[j])]));
+  }
+
+  return clusters;
+}
+
 /**
  * Main clustering function that calculates clusters based on viewport and config
  */
@@ -216,15 +273,19 @@ export function calculateClusters(
 
   // Group hotels by proximity
   const clusters = groupHotelsByProximity(hotels, viewport.zoom, config);
-  
-  // Extract individual hotels that weren't clustered
+
+  return { clusters, individualHotels: getUnclusteredHotels(hotels, clusters) };
+}
+
+/**
+ * Hotels that didn't end up in any cluster
+ */
+function getUnclusteredHotels(hotels: Hotel[], clusters: HotelCluster[]): Hotel[] {
   const clusteredHotelIds = new Set(
     clusters.flatMap(cluster => cluster.hotels.map(h => h.hotel_id))
   );
-  
-  const individualHotels = hotels.filter(hotel => !clusteredHotelIds.has(hotel.hotel_id));
 
-  return { clusters, individualHotels };
+  return hotels.filter(hotel => !clusteredHotelIds.has(hotel.hotel_id));
 }
 
 /**
@@ -236,13 +297,18 @@ export function calculateClustersOptimized(
   config: ClusteringConfig
 ): { clusters: HotelCluster[]; individualHotels: Hotel[] } {
   // For smaller datasets, use simple clustering
-  if (hotels.length <= 100) {
+  if (hotels.length <= SPATIAL_INDEX_THRESHOLD) {
     return calculateClusters(hotels, viewport, config);
   }
 
-  // TODO: Implement spatial indexing (quadtree/rtree) for large datasets
-  // For now, use simple clustering
-  return calculateClusters(hotels, viewport, config);
+  if (!shouldCluster(viewport.zoom, config)) {
+    return { clusters: [], individualHotels: hotels };
+  }
+
+  // Large datasets: spatial index turns the pairwise loop into radius queries
+  const clusters = groupHotelsByProximityIndexed(hotels, viewport.zoom, config);
+
+  return { clusters, individualHotels: getUnclusteredHotels(hotels, clusters) };
 }
 
 /**
@@ -1,3 +1,5 @@
+import type { ExpressionSpecification } from 'mapbox-gl';
+
 // =============================================================================
 // UNIFIED COLOR SYSTEM FOR HOTELS AND CLUSTERS
 // =============================================================================
@@ -102,6 +104,45 @@ export function getColorInfo(rating: number): {
   };
 }
 
+// =============================================================================
+// HEATMAP PALETTE
+// =============================================================================
+
+/**
+ * Heatmap color stops from sparse to dense, built from the rating palette
+ * so heatmap mode reads the same as the markers and clusters
+ */
+export const HEATMAP_COLOR_STOPS: ReadonlyArray<{ stop: number; color: string }> = [
+  { stop: 0, color: 'rgba(107, 114, 128, 0)' }, // Transparent gray-500
+  { stop: 0.2, color: HOTEL_COLORS.LOW_RATING },
+  { stop: 0.5, color: HOTEL_COLORS.MEDIUM_RATING },
+  { stop: 0.8, color: HOTEL_COLORS.HIGH_RATING },
+  { stop: 1, color: HOTEL_COLORS.CLUSTER_HIGH },
+];
+
+/**
+ * Gets the Mapbox heatmap-color expression for the shared palette
+ * @returns Interpolate expression over heatmap density
+ */
+export function getHeatmapColorExpression(): ExpressionSpecification {
+  return [
+    'interpolate',
+    ['linear'],
+    ['heatmap-density'],
+    ...HEATMAP_COLOR_STOPS.flatMap(({ stop, color }) => [stop, color]),
+  ];
+}
+
+/**
+ * Gets a CSS gradient matching the heatmap palette, e.g. for a legend
+ * Skips the transparent first stop so the low end stays visible
+ * @returns CSS linear-gradient value
+ */
+export function getHeatmapGradient(): string {
+  const stops = HEATMAP_COLOR_STOPS.slice(1).map(({ color }) => color);
+  return `linear-gradient(to right, ${stops.join(', ')})`;
+}
+
 /**
  * Debug function to test color assignments
  * Call from browser console: testColors()
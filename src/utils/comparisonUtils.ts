@@ -0,0 +1,84 @@
+import type { Amenity, Coordinates, Currency, Hotel, StayDates } from '../types/index';
+import { AMENITIES } from '../types/index';
+import { getHotelPrice } from './dataProcessor';
+import { calculateDistance } from './distanceUtils';
+
+// =============================================================================
+// COMPARISON CONFIGURATION
+// =============================================================================
+
+export const MIN_COMPARED_HOTELS = 2;
+export const MAX_COMPARED_HOTELS = 4;
+
+// Whether a row's best value is its highest or lowest
+export type BestDirection = 'highest' | 'lowest';
+
+export interface ComparisonValues {
+  price: number;           // Nightly price in the display currency
+  starRating: number;
+  rating: number;
+  reviewCount: number;
+  amenityCount: number;
+  distance: number | null; // Miles from the reference point, if one is set
+}
+
+export const COMPARISON_DIRECTIONS: Record<keyof ComparisonValues, BestDirection> = {
+  price: 'lowest',
+  starRating: 'highest',
+  rating: 'highest',
+  reviewCount: 'highest',
+  amenityCount: 'highest',
+  distance: 'lowest',
+};
+
+export const COMPARISON_AMENITIES: Amenity[] = Object.values(AMENITIES);
+
+// =============================================================================
+// COMPARISON HELPERS
+// =============================================================================
+
+/**
+ * Collect the comparable values for one hotel
+ * @param hotel - Hotel to describe
+ * @param currency - Display currency for the price
+ * @param stay - Stay dates, to compare average nightly rates for the trip
+ * @param referencePoint - Point to measure distance from
+ * @returns ComparisonValues - Values in comparison units
+ */
+export function getComparisonValues(
+  hotel: Hotel,
+  currency: Currency,
+  stay: StayDates | null,
+  referencePoint: Coordinates | null
+): ComparisonValues {
+  return {
+    price: getHotelPrice(hotel, currency, stay),
+    starRating: hotel.star_rating,
+    rating: hotel.rating,
+    reviewCount: hotel.review_count,
+    amenityCount: hotel.amenities.length,
+    distance: referencePoint
+      ? parseFloat(calculateDistance(
+          referencePoint.latitude,
+          referencePoint.longitude,
+          hotel.latitude,
+          hotel.longitude
+        ))
+      : null,
+  };
+}
+
+/**
+ * Find the columns holding a row's best value
+ * Ties share the highlight; a row where every value ties has no best value
+ * @param values - One value per column, null when unknown
+ * @param direction - Whether higher or lower is better
+ * @returns Set<number> - Indices of the best columns
+ */
+export function getBestIndices(values: Array<number | null>, direction: BestDirection): Set<number> {
+  const known = values.filter((value): value is number => value !== null);
+  if (known.length < 2 || known.every(value => value === known[0])) return new Set();
+
+  const best = direction === 'highest' ? Math.max(...known) : Math.min(...known);
+  return new Set(values.flatMap((value, index) => (value === best ? [index] : [])));
+}
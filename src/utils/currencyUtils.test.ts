@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import type { ExchangeRateTable } from '../types/index';
+import { CURRENCIES } from '../types/index';
+import { createTestHotel } from '../test/hotelFixtures';
+import {
+  isSupportedCurrency,
+  parseExchangeRateTable,
+  convertAmount,
+  toBaseCurrency,
+  fromBaseCurrency,
+  BASE_CURRENCY,
+} from './currencyUtils';
+import { getHotelPrice } from './dataProcessor';
+
+const TABLE: ExchangeRateTable = {
+  base: CURRENCIES.USD,
+  asOf: '2024-05-01',
+  rates: { USD: 1, CAD: 1.25, EUR: 0.8, GBP: 0.5 },
+};
+
+describe('isSupportedCurrency', () => {
+  it('accepts known codes only', () => {
+    expect(isSupportedCurrency('EUR')).toBe(true);
+    expect(isSupportedCurrency('eur')).toBe(false);
+    expect(isSupportedCurrency('JPY')).toBe(false);
+    expect(isSupportedCurrency(42)).toBe(false);
+  });
+});
+
+describe('parseExchangeRateTable', () => {
+  it('keeps a valid table', () => {
+    expect(parseExchangeRateTable({ ...TABLE, source: 'Test' })).toEqual({ ...TABLE, source: 'Test' });
+  });
+
+  it('rejects unsupported bases, bad dates and missing or non-positive rates', () => {
+    expect(() => parseExchangeRateTable(null)).toThrow('must be an object');
+    expect(() => parseExchangeRateTable({ ...TABLE, base: 'JPY' })).toThrow('Unsupported base currency: JPY');
+    expect(() => parseExchangeRateTable({ ...TABLE, asOf: 'soon' })).toThrow('ISO asOf date');
+    expect(() => parseExchangeRateTable({ ...TABLE, rates: { ...TABLE.rates, GBP: 0 } }))
+      .toThrow('invalid exchange rate for GBP');
+    expect(() => parseExchangeRateTable({ ...TABLE, rates: { USD: 1 } })).toThrow('invalid exchange rate for CAD');
+  });
+});
+
+describe('convertAmount', () => {
+  it('converts through the base currency', () => {
+    expect(convertAmount(100, CURRENCIES.USD, CURRENCIES.EUR, TABLE)).toBeCloseTo(80);
+    expect(convertAmount(80, CURRENCIES.EUR, CURRENCIES.USD, TABLE)).toBeCloseTo(100);
+    expect(convertAmount(125, CURRENCIES.CAD, CURRENCIES.GBP, TABLE)).toBeCloseTo(50);
+  });
+
+  it('returns the amount untouched within one currency', () => {
+    expect(convertAmount(99.99, CURRENCIES.GBP, CURRENCIES.GBP, TABLE)).toBe(99.99);
+  });
+
+  it('round-trips through the bundled base currency', () => {
+    expect(fromBaseCurrency(toBaseCurrency(250, CURRENCIES.CAD), CURRENCIES.CAD)).toBeCloseTo(250);
+  });
+});
+
+describe('getHotelPrice', () => {
+  it('compares hotels priced in different currencies in the base currency', () => {
+    const euroHotel = createTestHotel(1, { price_per_night: '€200', currency: CURRENCIES.EUR });
+
+    expect(getHotelPrice(euroHotel)).toBeCloseTo(toBaseCurrency(200, CURRENCIES.EUR));
+    expect(getHotelPrice(euroHotel, CURRENCIES.EUR)).toBeCloseTo(200);
+    expect(getHotelPrice(createTestHotel(2), BASE_CURRENCY)).toBe(200);
+  });
+});
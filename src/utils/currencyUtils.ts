@@ -0,0 +1,157 @@
+import exchangeRateData from '../data/exchange_rates.json';
+import type { Currency, ExchangeRateTable } from '../types/index';
+import { CURRENCIES } from '../types/index';
+
+// =============================================================================
+// EXCHANGE RATES
+// =============================================================================
+
+const SUPPORTED_CURRENCIES = new Set<string>(Object.values(CURRENCIES));
+
+/**
+ * Check whether a currency code is one the app can display and convert
+ * @param code - ISO 4217 code
+ * @returns boolean - Whether the code is supported
+ */
+export function isSupportedCurrency(code: unknown): code is Currency {
+  return typeof code === 'string' && SUPPORTED_CURRENCIES.has(code);
+}
+
+/**
+ * Validate a rate table, e.g. one parsed from a JSON file
+ * Every supported currency needs a positive rate against the base
+ * @param data - Parsed table
+ * @returns ExchangeRateTable - Typed table
+ */
+export function parseExchangeRateTable(data: unknown): ExchangeRateTable {
+  const table = data as Partial<ExchangeRateTable> | null;
+
+  if (!table || typeof table !== 'object') {
+    throw new Error('Exchange rate table must be an object');
+  }
+  if (!isSupportedCurrency(table.base)) {
+    throw new Error(`Unsupported base currency: ${String(table.base)}`);
+  }
+  if (typeof table.asOf !== 'string' || Number.isNaN(Date.parse(table.asOf))) {
+    throw new Error('Exchange rate table needs an ISO asOf date');
+  }
+
+  const rates = (table.rates ?? {}) as Record<string, unknown>;
+  for (const currency of SUPPORTED_CURRENCIES) {
+    const rate = rates[currency];
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`Missing or invalid exchange rate for ${currency}`);
+    }
+  }
+
+  return {
+    base: table.base,
+    asOf: table.asOf,
+    source: typeof table.source === 'string' ? table.source : undefined,
+    rates: rates as Record<Currency, number>,
+  };
+}
+
+// Rates bundled with the app; swap src/data/exchange_rates.json to update them
+const BUNDLED_EXCHANGE_RATES = parseExchangeRateTable(exchangeRateData);
+
+export const BASE_CURRENCY: Currency = BUNDLED_EXCHANGE_RATES.base;
+
+/**
+ * Get the active exchange rate table
+ * @returns ExchangeRateTable - Rate table
+ */
+export function getExchangeRates(): ExchangeRateTable {
+  return BUNDLED_EXCHANGE_RATES;
+}
+
+// =============================================================================
+// CONVERSION
+// =============================================================================
+
+/**
+ * Convert an amount between currencies via the table's base currency
+ * @param amount - Amount in the source currency
+ * @param from - Source currency
+ * @param to - Target currency
+ * @param table - Rate table (defaults to the bundled rates)
+ * @returns number - Unrounded amount in the target currency
+ */
+export function convertAmount(
+  amount: number,
+  from: Currency,
+  to: Currency,
+  table: ExchangeRateTable = getExchangeRates()
+): number {
+  if (from === to) return amount;
+  return (amount / table.rates[from]) * table.rates[to];
+}
+
+/**
+ * Convert an amount into the base currency used for filtering and sorting
+ * @param amount - Amount in the source currency
+ * @param from - Source currency
+ * @returns number - Amount in the base currency
+ */
+export function toBaseCurrency(amount: number, from: Currency): number {
+  return convertAmount(amount, from, BASE_CURRENCY);
+}
+
+/**
+ * Convert a base-currency amount for display
+ * @param amount - Amount in the base currency
+ * @param to - Display currency
+ * @returns number - Amount in the display currency
+ */
+export function fromBaseCurrency(amount: number, to: Currency): number {
+  return convertAmount(amount, BASE_CURRENCY, to);
+}
+
+// =============================================================================
+// FORMATTING
+// =============================================================================
+
+/**
+ * Format a whole-unit price in the user's locale
+ * @param amount - Amount in `currency`
+ * @param currency - Currency to format in
+ * @returns string - e.g. "$1,069", "1.069 €", "CA$1,475"
+ */
+export function formatCurrency(amount: number, currency: Currency): string {
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/**
+ * Get the symbol shown next to price inputs
+ * @param currency - Currency
+ * @returns string - e.g. "$", "€", "CA$"
+ */
+export function getCurrencySymbol(currency: Currency): string {
+  const parts = new Intl.NumberFormat(undefined, { style: 'currency', currency }).formatToParts(0);
+  return parts.find(part => part.type === 'currency')?.value ?? currency;
+}
+
+// Region subtags that default to a non-USD display currency
+const REGION_CURRENCIES: Record<string, Currency> = {
+  CA: CURRENCIES.CAD,
+  GB: CURRENCIES.GBP,
+  AT: CURRENCIES.EUR, BE: CURRENCIES.EUR, DE: CURRENCIES.EUR, ES: CURRENCIES.EUR,
+  FI: CURRENCIES.EUR, FR: CURRENCIES.EUR, IE: CURRENCIES.EUR, IT: CURRENCIES.EUR,
+  NL: CURRENCIES.EUR, PT: CURRENCIES.EUR,
+};
+
+/**
+ * Pick an initial display currency from the browser locale
+ * @returns Currency - Currency for the user's region, else the base currency
+ */
+export function getDefaultDisplayCurrency(): Currency {
+  if (typeof navigator === 'undefined') return BASE_CURRENCY;
+
+  const region = navigator.language?.split('-')[1]?.toUpperCase();
+  return (region && REGION_CURRENCIES[region]) || BASE_CURRENCY;
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { CURRENCIES, VALIDATION_SEVERITY } from '../types/index';
+import { createTestHotel } from '../test/hotelFixtures';
+import { validateHotelData } from './dataProcessor';
+
+/**
+ * Validate one hotel with a given price and currency, returning its price issues
+ */
+function getPriceIssues(price: number | string, currency: string) {
+  const { hotels, issues } = validateHotelData([createTestHotel(1, { price_per_night: price, currency })]);
+  const messages = issues.filter(issue => issue.field === 'price_per_night').map(issue => issue.message);
+  return { hotel: hotels[0], messages };
+}
+
+describe('validateHotelData price symbols', () => {
+  it('warns when the price symbol disagrees with the currency, reading the amount in the currency', () => {
+    const { hotel, messages } = getPriceIssues('€1,069', CURRENCIES.USD);
+
+    expect(hotel).toMatchObject({ price_per_night: 1069, currency: CURRENCIES.USD });
+    expect(messages).toContain('price_per_night written in EUR (€) but currency is USD; read as USD');
+  });
+
+  it('compares against the upper-cased currency code', () => {
+    expect(getPriceIssues('C$250', 'cad').messages.some(message => message.includes('written in'))).toBe(false);
+    expect(getPriceIssues('$250', 'cad').messages).toContain('price_per_night written in USD ($) but currency is CAD; read as CAD');
+  });
+
+  it('only notes the text conversion when the symbol matches or is missing', () => {
+    expect(getPriceIssues('£95', CURRENCIES.GBP).messages).toEqual(['price_per_night given as text; converted to 95']);
+    expect(getPriceIssues('95', CURRENCIES.GBP).messages).toEqual(['price_per_night given as text; converted to 95']);
+    expect(getPriceIssues(95, CURRENCIES.GBP).messages).toEqual([]);
+  });
+
+  it('keeps mismatched records as warnings rather than dropping them', () => {
+    const { issues } = validateHotelData([createTestHotel(1, { price_per_night: '£95', currency: CURRENCIES.EUR })]);
+
+    expect(issues.every(issue => issue.severity === VALIDATION_SEVERITY.Warning)).toBe(true);
+  });
+});
@@ -10,18 +10,35 @@ import type {
   Amenity,
   HotelSortFunction,
   HotelFilterFunction,
+  HotelValidationResult,
+  ValidationIssue,
+  ValidationResolution,
+  Currency,
+  HotelRates,
+  StayDates,
+  NearbyPointOfInterest,
+  PointOfInterest,
 } from '../types/index.ts';
 import {
   SORT_BY,
   SORT_ORDER,
   AMENITIES,
+  CURRENCIES,
+  VALIDATION_SEVERITY,
+  VALIDATION_RESOLUTION,
 } from '../types/index.ts';
+import { BASE_CURRENCY, convertAmount, isSupportedCurrency } from './currencyUtils';
+import { getStayPrice, parseIsoDate, type StayPrice } from './stayUtils';
+import { isPointInArea } from './areaUtils';
+import { getPointOfInterest, estimateWalkingMinutes } from './poiUtils';
+import { getSpatialIndex } from './spatialIndex';
 
 // =============================================================================
 // DATA LOADING & CACHING
 // =============================================================================
 
 let cachedHotels: Hotel[] | null = null;
+let cachedReport: HotelValidationResult | null = null;
 let loadingPromise: Promise<Hotel[]> | null = null;
 
 /**
@@ -43,11 +60,12 @@ export async function loadHotelData(): Promise<Hotel[]> {
   loadingPromise = new Promise<Hotel[]>((resolve, reject) => {
     try {
       // Validate and normalize the imported data
-      const validatedHotels = validateHotelData(hotelData);
-      const normalizedHotels = normalizeHotelData(validatedHotels);
+      const report = validateHotelData(hotelData);
+      const normalizedHotels = normalizeHotelData(report.hotels);
       
       // Cache the processed data
       cachedHotels = normalizedHotels;
+      cachedReport = report;
       resolve(normalizedHotels);
     } catch (error) {
       reject(new Error(`Failed to load hotel data: ${error instanceof Error ? error.message : 'Unknown error'}`));
@@ -57,11 +75,21 @@ export async function loadHotelData(): Promise<Hotel[]> {
   return loadingPromise;
 }
 
+/**
+ * Get the validation report for the bundled hotel data
+ * @returns Promise<HotelValidationResult> - Valid hotels and the issues found
+ */
+export async function loadHotelDataReport(): Promise<HotelValidationResult> {
+  await loadHotelData();
+  return cachedReport!;
+}
+
 /**
  * Clear cached hotel data (useful for testing or data refresh)
  */
 export function clearHotelCache(): void {
   cachedHotels = null;
+  cachedReport = null;
   loadingPromise = null;
 }
 
@@ -69,132 +97,323 @@ export function clearHotelCache(): void {
 // DATA VALIDATION
 // =============================================================================
 
+const REQUIRED_FIELDS = [
+  'hotel_id', 'name', 'latitude', 'longitude', 'address',
+  'star_rating', 'price_per_night', 'currency', 'rating',
+  'review_count', 'image_url', 'room_type', 'amenities'
+] as const;
+
+// Text fields trimmed during normalization
+const TEXT_FIELDS = ['name', 'address', 'currency', 'image_url', 'room_type'] as const;
+
+// Prices such as "884", "$1,069", "€95" or "1069.50"; the first group is the symbol
+const PRICE_TEXT_PATTERN = /^\s*(C?\$|€|£)?\s*\d[\d,]*(\.\d+)?\s*$/;
+
+// Currency each price symbol stands for; a bare "$" is read as US dollars
+const PRICE_SYMBOL_CURRENCIES: Record<string, Currency> = {
+  '$': CURRENCIES.USD,
+  'C$': CURRENCIES.CAD,
+  '€': CURRENCIES.EUR,
+  '£': CURRENCIES.GBP,
+};
+
+const KNOWN_AMENITIES = new Set<string>(Object.values(AMENITIES));
+
 /**
- * Validate hotel data structure against TypeScript interfaces
+ * Validate hotel records and report every problem found
+ * Invalid records are dropped; fixable values are coerced. Both are recorded.
  * @param hotels - Raw hotel data array
- * @returns Hotel[] - Validated hotel array
+ * @returns HotelValidationResult - Valid hotels with the issues found
  */
-export function validateHotelData(hotels: unknown[]): Hotel[] {
+export function validateHotelData(hotels: unknown[]): HotelValidationResult {
   if (!Array.isArray(hotels)) {
     throw new Error('Hotel data must be an array');
   }
 
   const validHotels: Hotel[] = [];
-  const errors: string[] = [];
-
-  hotels.forEach((hotel, index) => {
-    try {
-      const validatedHotel = validateHotel(hotel);
-      validHotels.push(validatedHotel);
-    } catch (error) {
-      errors.push(`Hotel ${index}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  const issues: ValidationIssue[] = [];
+  const seenIds = new Set<number>();
+
+  hotels.forEach((record, recordIndex) => {
+    const result = inspectHotel(record, recordIndex);
+    issues.push(...result.issues);
+
+    if (!result.hotel) return;
+
+    // Ids key markers, URLs and lists, so later duplicates cannot be kept
+    if (seenIds.has(result.hotel.hotel_id)) {
+      issues.push({
+        hotelId: result.hotel.hotel_id,
+        recordIndex,
+        field: 'hotel_id',
+        severity: VALIDATION_SEVERITY.Error,
+        resolution: VALIDATION_RESOLUTION.Dropped,
+        message: `Duplicate hotel_id ${result.hotel.hotel_id}; only the first record is kept`,
+        rawValue: result.hotel.hotel_id,
+      });
+      return;
     }
-  });
 
-  if (errors.length > 0) {
-    console.warn('Hotel validation warnings:', errors);
-  }
+    seenIds.add(result.hotel.hotel_id);
+    validHotels.push(result.hotel);
+  });
 
   if (validHotels.length === 0) {
     throw new Error('No valid hotels found in dataset');
   }
 
-  return validHotels;
+  return { hotels: validHotels, issues, totalRecords: hotels.length };
 }
 
 /**
  * Validate individual hotel object
  * @param hotel - Raw hotel object
  * @returns Hotel - Validated hotel object
+ * @throws Error describing the first problem if the record would be dropped
  */
 export function validateHotel(hotel: unknown): Hotel {
-  if (!hotel || typeof hotel !== 'object') {
-    throw new Error('Hotel must be an object');
-  }
+  const result = inspectHotel(hotel, 0);
 
-  const h = hotel as Record<string, unknown>;
+  if (!result.hotel) {
+    const firstError = result.issues.find(issue => issue.severity === VALIDATION_SEVERITY.Error);
+    throw new Error(firstError?.message ?? 'Invalid hotel');
+  }
 
-  // Required fields validation
-  const requiredFields = [
-    'hotel_id', 'name', 'latitude', 'longitude', 'address',
-    'star_rating', 'price_per_night', 'currency', 'rating',
-    'review_count', 'image_url', 'room_type', 'amenities'
-  ];
+  return result.hotel;
+}
 
-  for (const field of requiredFields) {
-    if (!(field in h) || h[field] === null || h[field] === undefined) {
-      throw new Error(`Missing required field: ${field}`);
-    }
+/**
+ * Check one raw record, collecting every issue rather than stopping at the first
+ * @param record - Raw hotel record
+ * @param recordIndex - Position in the source data
+ * @returns Validated hotel (null if dropped) and its issues
+ */
+function inspectHotel(
+  record: unknown,
+  recordIndex: number
+): { hotel: Hotel | null; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    issues.push({
+      hotelId: null,
+      recordIndex,
+      field: 'record',
+      severity: VALIDATION_SEVERITY.Error,
+      resolution: VALIDATION_RESOLUTION.Dropped,
+      message: 'Hotel must be an object',
+      rawValue: record,
+    });
+    return { hotel: null, issues };
   }
 
-  // Type validation
-  if (typeof h.hotel_id !== 'number' || h.hotel_id <= 0) {
-    throw new Error('hotel_id must be a positive number');
-  }
+  const h = record as Record<string, unknown>;
+  const hotelId = typeof h.hotel_id === 'number' && h.hotel_id > 0 ? h.hotel_id : null;
 
-  if (typeof h.name !== 'string' || h.name.trim().length === 0) {
-    throw new Error('name must be a non-empty string');
-  }
+  const isPresent = (field: string) => field in h && h[field] !== null && h[field] !== undefined;
 
-  if (typeof h.latitude !== 'number' || h.latitude < -90 || h.latitude > 90) {
-    throw new Error('latitude must be a number between -90 and 90');
-  }
+  const drop = (field: string, message: string) => {
+    issues.push({
+      hotelId,
+      recordIndex,
+      field,
+      severity: VALIDATION_SEVERITY.Error,
+      resolution: VALIDATION_RESOLUTION.Dropped,
+      message,
+      rawValue: h[field],
+    });
+  };
 
-  if (typeof h.longitude !== 'number' || h.longitude < -180 || h.longitude > 180) {
-    throw new Error('longitude must be a number between -180 and 180');
-  }
+  const warn = (field: string, resolution: ValidationResolution, message: string, rawValue: unknown) => {
+    issues.push({
+      hotelId,
+      recordIndex,
+      field,
+      severity: VALIDATION_SEVERITY.Warning,
+      resolution,
+      message,
+      rawValue,
+    });
+  };
 
-  if (typeof h.address !== 'string' || h.address.trim().length === 0) {
-    throw new Error('address must be a non-empty string');
-  }
+  // Report type errors only for fields that are present, so each field is reported once
+  const check = (field: string, isValid: boolean, message: string) => {
+    if (isPresent(field) && !isValid) drop(field, message);
+  };
 
-  if (typeof h.star_rating !== 'number' || h.star_rating < 1 || h.star_rating > 5) {
-    throw new Error('star_rating must be a number between 1 and 5');
+  // Required fields validation
+  for (const field of REQUIRED_FIELDS) {
+    if (!isPresent(field)) {
+      drop(field, `Missing required field: ${field}`);
+    }
   }
 
-  if (typeof h.currency !== 'string' || h.currency.trim().length === 0) {
-    throw new Error('currency must be a non-empty string');
-  }
+  // Type validation
+  check('hotel_id', hotelId !== null, 'hotel_id must be a positive number');
+  check('name', typeof h.name === 'string' && h.name.trim().length > 0, 'name must be a non-empty string');
+  check(
+    'latitude',
+    typeof h.latitude === 'number' && h.latitude >= -90 && h.latitude <= 90,
+    'latitude must be a number between -90 and 90'
+  );
+  check(
+    'longitude',
+    typeof h.longitude === 'number' && h.longitude >= -180 && h.longitude <= 180,
+    'longitude must be a number between -180 and 180'
+  );
+  check('address', typeof h.address === 'string' && h.address.trim().length > 0, 'address must be a non-empty string');
+  check(
+    'star_rating',
+    typeof h.star_rating === 'number' && h.star_rating >= 1 && h.star_rating <= 5,
+    'star_rating must be a number between 1 and 5'
+  );
+  check('currency', typeof h.currency === 'string' && h.currency.trim().length > 0, 'currency must be a non-empty string');
+  check(
+    'rating',
+    typeof h.rating === 'number' && h.rating >= 0 && h.rating <= 10,
+    'rating must be a number between 0 and 10'
+  );
+  check(
+    'review_count',
+    typeof h.review_count === 'number' && h.review_count >= 0,
+    'review_count must be a non-negative number'
+  );
+  check('image_url', typeof h.image_url === 'string' && h.image_url.trim().length > 0, 'image_url must be a non-empty string');
+  check('room_type', typeof h.room_type === 'string' && h.room_type.trim().length > 0, 'room_type must be a non-empty string');
+  check('amenities', Array.isArray(h.amenities), 'amenities must be an array');
+
+  // Price: numbers are rounded, numeric text is converted
+  let price = 0;
+  if (isPresent('price_per_night')) {
+    const rawPrice = h.price_per_night;
+
+    if (typeof rawPrice === 'number' && Number.isFinite(rawPrice) && rawPrice >= 0) {
+      price = normalizePrice(rawPrice);
+      if (price !== rawPrice) {
+        warn('price_per_night', VALIDATION_RESOLUTION.Coerced, `price_per_night rounded to ${price}`, rawPrice);
+      }
+    } else if (typeof rawPrice === 'string' && PRICE_TEXT_PATTERN.test(rawPrice)) {
+      price = normalizePrice(rawPrice);
+      warn(
+        'price_per_night',
+        VALIDATION_RESOLUTION.Coerced,
+        `price_per_night given as text; converted to ${price}`,
+        rawPrice
+      );
 
-  if (typeof h.rating !== 'number' || h.rating < 0 || h.rating > 10) {
-    throw new Error('rating must be a number between 0 and 10');
+      // The amount is always read in the record's currency, so a different symbol is suspect
+      const symbol = PRICE_TEXT_PATTERN.exec(rawPrice)?.[1];
+      const symbolCurrency = symbol ? PRICE_SYMBOL_CURRENCIES[symbol] : undefined;
+      const currency = typeof h.currency === 'string' ? h.currency.trim().toUpperCase() : '';
+      if (symbolCurrency && currency && symbolCurrency !== currency) {
+        warn(
+          'price_per_night',
+          VALIDATION_RESOLUTION.Coerced,
+          `price_per_night written in ${symbolCurrency} (${symbol}) but currency is ${currency}; read as ${currency}`,
+          rawPrice
+        );
+      }
+    } else {
+      drop('price_per_night', 'price_per_night must be a non-negative number or numeric text');
+    }
   }
 
-  if (typeof h.review_count !== 'number' || h.review_count < 0) {
-    throw new Error('review_count must be a non-negative number');
+  // Currency codes are upper-cased; prices in currencies without a rate cannot be compared
+  if (typeof h.currency === 'string' && h.currency.trim().length > 0) {
+    const currency = h.currency.trim().toUpperCase();
+    if (!isSupportedCurrency(currency)) {
+      drop('currency', `currency ${currency} has no exchange rate`);
+    } else if (currency !== h.currency.trim()) {
+      warn('currency', VALIDATION_RESOLUTION.Coerced, `currency code upper-cased to ${currency}`, h.currency);
+    }
   }
 
-  if (typeof h.image_url !== 'string' || h.image_url.trim().length === 0) {
-    throw new Error('image_url must be a non-empty string');
+  // Whitespace is trimmed during normalization
+  for (const field of TEXT_FIELDS) {
+    const value = h[field];
+    if (typeof value === 'string' && value.trim().length > 0 && value.trim() !== value) {
+      warn(field, VALIDATION_RESOLUTION.Coerced, `${field} has leading or trailing whitespace`, value);
+    }
   }
 
-  if (typeof h.room_type !== 'string' || h.room_type.trim().length === 0) {
-    throw new Error('room_type must be a non-empty string');
+  // Unknown amenities are removed rather than dropping the hotel
+  const amenities: Amenity[] = [];
+  if (Array.isArray(h.amenities)) {
+    for (const amenity of h.amenities) {
+      if (typeof amenity === 'string' && KNOWN_AMENITIES.has(amenity)) {
+        amenities.push(amenity as Amenity);
+      } else {
+        warn('amenities', VALIDATION_RESOLUTION.Removed, `Unknown amenity removed: ${JSON.stringify(amenity)}`, amenity);
+      }
+    }
   }
 
-  if (!Array.isArray(h.amenities)) {
-    throw new Error('amenities must be an array');
+  // Optional rate model: invalid entries are removed and the standard rate applies instead
+  let rates: HotelRates | undefined;
+  if (isPresent('rates')) {
+    const rawRates = h.rates;
+    const isRate = (value: unknown): value is number =>
+      typeof value === 'number' && Number.isFinite(value) && value >= 0;
+    const isRecord = (value: unknown): value is Record<string, unknown> =>
+      !!value && typeof value === 'object' && !Array.isArray(value);
+
+    if (!isRecord(rawRates)) {
+      warn('rates', VALIDATION_RESOLUTION.Removed, 'rates must be an object; standard rate used', rawRates);
+    } else {
+      const parsed: HotelRates = {};
+
+      if (rawRates.weekend !== undefined) {
+        if (isRate(rawRates.weekend)) {
+          parsed.weekend = rawRates.weekend;
+        } else {
+          warn('rates', VALIDATION_RESOLUTION.Removed, 'Invalid weekend rate removed', rawRates.weekend);
+        }
+      }
+
+      if (rawRates.byDate !== undefined) {
+        if (isRecord(rawRates.byDate)) {
+          const byDate: Record<string, number> = {};
+          for (const [date, rate] of Object.entries(rawRates.byDate)) {
+            if (parseIsoDate(date) && isRate(rate)) {
+              byDate[date] = rate;
+            } else {
+              warn('rates', VALIDATION_RESOLUTION.Removed, `Invalid rate for ${JSON.stringify(date)} removed`, rate);
+            }
+          }
+          if (Object.keys(byDate).length > 0) parsed.byDate = byDate;
+        } else {
+          warn('rates', VALIDATION_RESOLUTION.Removed, 'rates.byDate must map ISO dates to rates', rawRates.byDate);
+        }
+      }
+
+      if (parsed.weekend !== undefined || parsed.byDate !== undefined) {
+        rates = parsed;
+      }
+    }
   }
 
-  // Validate amenities array
-  const validAmenities = h.amenities.filter((amenity): amenity is Amenity => {
-    return typeof amenity === 'string' && Object.values(AMENITIES).includes(amenity as Amenity);
-  });
+  if (issues.some(issue => issue.severity === VALIDATION_SEVERITY.Error)) {
+    return { hotel: null, issues };
+  }
 
   return {
-    hotel_id: h.hotel_id as number,
-    name: h.name as string,
-    latitude: h.latitude as number,
-    longitude: h.longitude as number,
-    address: h.address as string,
-    star_rating: h.star_rating as number,
-    price_per_night: h.price_per_night as number | string,
-    currency: h.currency as string,
-    rating: h.rating as number,
-    review_count: h.review_count as number,
-    image_url: h.image_url as string,
-    room_type: h.room_type as string,
-    amenities: validAmenities,
+    hotel: {
+      hotel_id: h.hotel_id as number,
+      name: h.name as string,
+      latitude: h.latitude as number,
+      longitude: h.longitude as number,
+      address: h.address as string,
+      star_rating: h.star_rating as number,
+      price_per_night: price,
+      currency: h.currency as string,
+      rating: h.rating as number,
+      review_count: h.review_count as number,
+      image_url: h.image_url as string,
+      room_type: h.room_type as string,
+      amenities,
+      ...(rates && { rates }),
+    },
+    issues,
   };
 }
 
@@ -222,6 +441,7 @@ export function normalizeHotel(hotel: Hotel): Hotel {
     price_per_night: normalizePrice(hotel.price_per_night),
     name: hotel.name.trim(),
     address: hotel.address.trim(),
+    currency: hotel.currency.trim().toUpperCase(),
     room_type: hotel.room_type.trim(),
     amenities: hotel.amenities.filter(Boolean), // Remove empty amenities
   };
@@ -245,6 +465,51 @@ export function normalizePrice(price: string | number): number {
   return 0;
 }
 
+/**
+ * Get a hotel's nightly price converted to another currency
+ * Filtering and sorting compare prices in the base currency so mixed-currency
+ * datasets order correctly. With stay dates, the nightly price is the average
+ * over the stay's nights.
+ * @param hotel - Hotel to price
+ * @param currency - Target currency (defaults to the base currency)
+ * @param stay - Optional stay dates
+ * @returns number - Unrounded price in the target currency
+ */
+export function getHotelPrice(
+  hotel: Hotel,
+  currency: Currency = BASE_CURRENCY,
+  stay: StayDates | null = null
+): number {
+  const nightly = stay ? getHotelStayPrice(hotel, stay, currency)?.averageNightly : undefined;
+  return nightly ?? convertHotelAmount(hotel, normalizePrice(hotel.price_per_night), currency);
+}
+
+/**
+ * Price a stay at a hotel, night by night
+ * @param hotel - Hotel to price
+ * @param stay - Stay dates
+ * @param currency - Target currency (defaults to the base currency)
+ * @returns StayPrice | null - Stay totals, or null for invalid dates
+ */
+export function getHotelStayPrice(
+  hotel: Hotel,
+  stay: StayDates,
+  currency: Currency = BASE_CURRENCY
+): StayPrice | null {
+  const price = getStayPrice(normalizePrice(hotel.price_per_night), hotel.rates, stay);
+  if (!price) return null;
+
+  return {
+    nights: price.nights,
+    total: convertHotelAmount(hotel, price.total, currency),
+    averageNightly: convertHotelAmount(hotel, price.averageNightly, currency),
+  };
+}
+
+function convertHotelAmount(hotel: Hotel, amount: number, currency: Currency): number {
+  return isSupportedCurrency(hotel.currency) ? convertAmount(amount, hotel.currency, currency) : amount;
+}
+
 // =============================================================================
 // DISTANCE CALCULATION
 // =============================================================================
@@ -295,6 +560,23 @@ export function addDistanceToHotels(hotels: Hotel[], referencePoint: Coordinates
   }));
 }
 
+/**
+ * Find the points of interest closest to a hotel
+ * @param hotel - Hotel to measure from
+ * @param points - Candidate points of interest
+ * @param limit - Maximum number of results
+ * @returns NearbyPointOfInterest[] - Nearest first, with distances in kilometers
+ */
+export function findNearestPointsOfInterest(
+  hotel: Hotel,
+  points: PointOfInterest[],
+  limit = 3
+): NearbyPointOfInterest[] {
+  return getSpatialIndex(points)
+    .nearest(hotel, limit)
+    .map(({ item, distance }) => ({ poi: item, distance, walkingMinutes: estimateWalkingMinutes(distance) }));
+}
+
 // =============================================================================
 // SORTING FUNCTIONS
 // =============================================================================
@@ -304,31 +586,51 @@ export function addDistanceToHotels(hotels: Hotel[], referencePoint: Coordinates
  * @param hotels - Array of hotels to sort
  * @param sortBy - Sort criteria
  * @param sortOrder - Sort order (asc/desc)
+ * @param stay - Stay dates used to price hotels when sorting by price
  * @returns Hotel[] - Sorted hotels array
  */
 export function sortHotels(
   hotels: Hotel[],
   sortBy: SortBy = SORT_BY.Rating,
-  sortOrder: SortOrder = SORT_ORDER.Descending
+  sortOrder: SortOrder = SORT_ORDER.Descending,
+  stay: StayDates | null = null
 ): Hotel[] {
-  const sortFunction = getSortFunction(sortBy, sortOrder);
+  const sortFunction = getSortFunction(sortBy, sortOrder, stay);
   return [...hotels].sort(sortFunction);
 }
 
+/**
+ * Get the natural sort order for a sort criteria
+ * Cheapest, closest and alphabetical first; best rated and most reviewed first
+ * @param sortBy - Sort criteria
+ * @returns SortOrder - Default sort order
+ */
+export function getDefaultSortOrder(sortBy: SortBy): SortOrder {
+  switch (sortBy) {
+    case SORT_BY.Price:
+    case SORT_BY.Name:
+    case SORT_BY.Distance:
+      return SORT_ORDER.Ascending;
+    default:
+      return SORT_ORDER.Descending;
+  }
+}
+
 /**
  * Get sort function for specified criteria
  * @param sortBy - Sort criteria
  * @param sortOrder - Sort order
+ * @param stay - Stay dates for price sorting
  * @returns HotelSortFunction - Sort function
  */
-function getSortFunction(sortBy: SortBy, sortOrder: SortOrder): HotelSortFunction {
+function getSortFunction(sortBy: SortBy, sortOrder: SortOrder, stay: StayDates | null): HotelSortFunction {
   const multiplier = sortOrder === SORT_ORDER.Ascending ? 1 : -1;
   
   switch (sortBy) {
     case SORT_BY.Price:
       return (a, b) => {
-        const priceA = normalizePrice(a.price_per_night);
-        const priceB = normalizePrice(b.price_per_night);
+        const priceA = getHotelPrice(a, BASE_CURRENCY, stay);
+        const priceB = getHotelPrice(b, BASE_CURRENCY, stay);
         return (priceA - priceB) * multiplier;
       };
     
@@ -361,16 +663,28 @@ function getSortFunction(sortBy: SortBy, sortOrder: SortOrder): HotelSortFunctio
 // =============================================================================
 
 /**
- * Filter hotels based on specified criteria
+ * Filter hotels based on specified criteria, then apply the requested sort
  * @param hotels - Array of hotels to filter
  * @param filters - Filter criteria
- * @returns Hotel[] - Filtered hotels array
+ * @param options - Filter options (reference point for distance sorting)
+ * @returns Hotel[] - Filtered and sorted hotels array
  */
-export function filterHotels(hotels: Hotel[], filters: HotelFilters): Hotel[] {
-  return hotels.filter(hotel => {
+export function filterHotels(
+  hotels: Hotel[],
+  filters: HotelFilters,
+  options: FilterOptions = {}
+): Hotel[] {
+  // Spatial filters are answered by the shared index rather than testing every hotel
+  const index = filters.bounds || filters.near ? getSpatialIndex(hotels) : null;
+  const inBounds = index && filters.bounds ? new Set(index.queryBounds(filters.bounds)) : null;
+  const inRadius = index && filters.near
+    ? new Set(index.queryRadius(filters.near.center, filters.near.radius))
+    : null;
+
+  const results = hotels.filter(hotel => {
     // Price range filter
     if (filters.priceRange) {
-      const price = normalizePrice(hotel.price_per_night);
+      const price = getHotelPrice(hotel, BASE_CURRENCY, options.stay);
       if (price < filters.priceRange.min || price > filters.priceRange.max) {
         return false;
       }
@@ -400,6 +714,24 @@ export function filterHotels(hotels: Hotel[], filters: HotelFilters): Hotel[] {
       }
     }
     
+    // Drawn area filter
+    if (filters.areas && filters.areas.length > 0) {
+      const isInAnyArea = filters.areas.some(area => isPointInArea(hotel, area));
+      if (!isInAnyArea) {
+        return false;
+      }
+    }
+    
+    // Map area filter
+    if (inBounds && !inBounds.has(hotel)) {
+      return false;
+    }
+    
+    // Radius filter
+    if (inRadius && !inRadius.has(hotel)) {
+      return false;
+    }
+    
     // Search query filter
     if (filters.searchQuery) {
       const searchMatch = matchesSearchQuery(hotel, filters.searchQuery);
@@ -410,6 +742,55 @@ export function filterHotels(hotels: Hotel[], filters: HotelFilters): Hotel[] {
     
     return true;
   });
+
+  const distanceOrigin = getDistanceOrigin(filters, options.referencePoint);
+
+  if (!filters.sortBy) {
+    return distanceOrigin ? addDistanceToHotels(results, distanceOrigin) : results;
+  }
+
+  const sortOrder = filters.sortOrder ?? getDefaultSortOrder(filters.sortBy);
+
+  // Distance sorting needs a reference point; keep original order without one
+  if (filters.sortBy === SORT_BY.Distance) {
+    if (!distanceOrigin) {
+      return results;
+    }
+    return sortHotels(
+      addDistanceToHotels(results, distanceOrigin),
+      SORT_BY.Distance,
+      sortOrder
+    );
+  }
+
+  const sorted = sortHotels(results, filters.sortBy, sortOrder, options.stay);
+  return distanceOrigin ? addDistanceToHotels(sorted, distanceOrigin) : sorted;
+}
+
+/**
+ * Pick the point filtered hotels are annotated with distances from
+ * Sorting by distance to a point of interest wins, then a radius filter's center;
+ * otherwise the reference point applies to distance sorting only
+ * @param filters - Filter criteria
+ * @param referencePoint - User location or map center
+ * @returns Coordinates | null - Distance origin, or null when results carry no distance
+ */
+export function getDistanceOrigin(
+  filters: HotelFilters,
+  referencePoint: Coordinates | null = null
+): Coordinates | null {
+  const poi = filters.sortBy === SORT_BY.Distance && filters.distanceFromPoi
+    ? getPointOfInterest(filters.distanceFromPoi)
+    : null;
+
+  if (poi) return poi;
+  if (filters.near) return filters.near.center;
+  return filters.sortBy === SORT_BY.Distance ? referencePoint : null;
+}
+
+interface FilterOptions {
+  referencePoint?: Coordinates | null;
+  stay?: StayDates | null; // Prices compare as the average nightly rate over the stay
 }
 
 /**
@@ -471,6 +852,42 @@ interface SearchOptions {
   includeRoomType?: boolean;
 }
 
+/**
+ * Find where a search query occurs in a hotel's name, address or amenities
+ * Used to highlight the matched text in search suggestions
+ * @param hotel - Hotel to inspect
+ * @param query - Search query
+ * @returns SearchMatch | null - First exact match, or null for fuzzy-only matches
+ */
+export function getSearchMatch(hotel: Hotel, query: string): SearchMatch | null {
+  const normalizedQuery = query.toLowerCase().trim();
+  if (!normalizedQuery) {
+    return null;
+  }
+
+  const candidates: { field: SearchMatch['field']; text: string }[] = [
+    { field: 'name', text: hotel.name },
+    { field: 'address', text: hotel.address },
+    ...hotel.amenities.map(amenity => ({ field: 'amenity' as const, text: amenity })),
+  ];
+
+  for (const { field, text } of candidates) {
+    const start = text.toLowerCase().indexOf(normalizedQuery);
+    if (start !== -1) {
+      return { field, text, start, end: start + normalizedQuery.length };
+    }
+  }
+
+  return null;
+}
+
+export interface SearchMatch {
+  field: 'name' | 'address' | 'amenity';
+  text: string;
+  start: number;
+  end: number;
+}
+
 /**
  * Check if hotel matches search query
  * @param hotel - Hotel to check
@@ -654,14 +1071,14 @@ export function toHotelsWithPrice(hotels: Hotel[]): HotelWithPrice[] {
 /**
  * Get price range from hotels array
  * @param hotels - Hotels array
- * @returns Object with min and max prices
+ * @returns Object with min and max prices in the base currency
  */
 export function getPriceRange(hotels: Hotel[]): { min: number; max: number } {
   if (hotels.length === 0) {
     return { min: 0, max: 0 };
   }
   
-  const prices = hotels.map(hotel => normalizePrice(hotel.price_per_night));
+  const prices = hotels.map(hotel => getHotelPrice(hotel));
   return {
     min: Math.min(...prices),
     max: Math.max(...prices),
@@ -723,16 +1140,23 @@ export function getUniqueStarRatings(hotels: Hotel[]): number[] {
 
 export interface DataProcessor {
   loadHotelData: () => Promise<Hotel[]>;
-  validateHotelData: (hotels: unknown[]) => Hotel[];
+  loadHotelDataReport: () => Promise<HotelValidationResult>;
+  validateHotelData: (hotels: unknown[]) => HotelValidationResult;
   normalizeHotelData: (hotels: Hotel[]) => Hotel[];
   validateHotel: (hotel: unknown) => Hotel;
   normalizeHotel: (hotel: Hotel) => Hotel;
   normalizePrice: (price: string | number) => number;
+  getHotelPrice: (hotel: Hotel, currency?: Currency, stay?: StayDates | null) => number;
+  getHotelStayPrice: (hotel: Hotel, stay: StayDates, currency?: Currency) => StayPrice | null;
   calculateDistance: (coord1: Coordinates, coord2: Coordinates) => number;
   addDistanceToHotels: (hotels: Hotel[], referencePoint: Coordinates) => HotelDistance[];
-  sortHotels: (hotels: Hotel[], sortBy?: SortBy, sortOrder?: SortOrder) => Hotel[];
-  filterHotels: (hotels: Hotel[], filters: HotelFilters) => Hotel[];
+  getDistanceOrigin: (filters: HotelFilters, referencePoint?: Coordinates | null) => Coordinates | null;
+  findNearestPointsOfInterest: (hotel: Hotel, points: PointOfInterest[], limit?: number) => NearbyPointOfInterest[];
+  sortHotels: (hotels: Hotel[], sortBy?: SortBy, sortOrder?: SortOrder, stay?: StayDates | null) => Hotel[];
+  getDefaultSortOrder: (sortBy: SortBy) => SortOrder;
+  filterHotels: (hotels: Hotel[], filters: HotelFilters, options?: FilterOptions) => Hotel[];
   searchHotels: (hotels: Hotel[], query: string, options?: SearchOptions) => Hotel[];
+  getSearchMatch: (hotel: Hotel, query: string) => SearchMatch | null;
   toHotelWithPrice: (hotel: Hotel) => HotelWithPrice;
   toHotelsWithPrice: (hotels: Hotel[]) => HotelWithPrice[];
   getPriceRange: (hotels: Hotel[]) => { min: number; max: number };
@@ -745,16 +1169,23 @@ export interface DataProcessor {
 // Export default processor instance
 export const dataProcessor: DataProcessor = {
   loadHotelData,
+  loadHotelDataReport,
   validateHotelData,
   normalizeHotelData,
   validateHotel,
   normalizeHotel,
   normalizePrice,
+  getHotelPrice,
+  getHotelStayPrice,
   calculateDistance,
   addDistanceToHotels,
+  getDistanceOrigin,
+  findNearestPointsOfInterest,
   sortHotels,
+  getDefaultSortOrder,
   filterHotels,
   searchHotels,
+  getSearchMatch,
   toHotelWithPrice,
   toHotelsWithPrice,
   getPriceRange,
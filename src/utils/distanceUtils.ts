@@ -1,3 +1,6 @@
+import type { Hotel } from '../types/index';
+import { getSpatialIndex } from './spatialIndex';
+
 /**
  * Calculate distance between two geographic coordinates using Haversine formula
  * @param lat1 - Latitude of first point
@@ -27,6 +30,59 @@ export function calculateDistance(
   return distance.toFixed(1);
 }
 
+const MILES_PER_KILOMETER = 0.621371;
+const FEET_PER_MILE = 5280;
+
+/**
+ * Convert kilometers, the unit used for filtering and sorting, to miles
+ * @param kilometers - Distance in kilometers
+ * @returns Distance in miles
+ */
+export function toMiles(kilometers: number): number {
+  return kilometers * MILES_PER_KILOMETER;
+}
+
+/**
+ * Format a distance for display; every distance in the UI goes through here
+ * @param miles - Distance in miles
+ * @returns Display label, e.g. "300 ft", "1.2 mi" or "14 mi"
+ */
+export function formatDistance(miles: number): string {
+  if (miles < 0.1) {
+    // Round to 50 ft, never showing "0 ft" for places right next door
+    return `${Math.max(50, Math.round((miles * FEET_PER_MILE) / 50) * 50)} ft`;
+  }
+  return miles < 10 ? `${miles.toFixed(1)} mi` : `${Math.round(miles)} mi`;
+}
+
+/**
+ * Nearby hotel with its distance from a reference hotel
+ */
+export interface NearbyHotel {
+  hotel: Hotel;
+  distance: number; // Distance in miles
+}
+
+/**
+ * Rank hotels by distance from a reference hotel using the shared spatial index
+ * @param origin - Reference hotel (excluded from the results)
+ * @param hotels - Candidate hotels
+ * @param limit - Maximum number of results
+ * @returns Nearest hotels first, with distances in miles
+ */
+export function findNearbyHotels(
+  origin: Hotel,
+  hotels: Hotel[],
+  limit = 5
+): NearbyHotel[] {
+  // One extra in case the origin itself is among the candidates
+  return getSpatialIndex(hotels)
+    .nearest(origin, limit + 1)
+    .filter(({ item }) => item.hotel_id !== origin.hotel_id)
+    .slice(0, limit)
+    .map(({ item, distance }) => ({ hotel: item, distance: toMiles(distance) }));
+}
+
 /**
  * Convert degrees to radians
  * @param degrees - Degrees to convert
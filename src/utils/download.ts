@@ -0,0 +1,20 @@
+/**
+ * Save text through a browser download
+ * @param text - File contents
+ * @param fileName - Suggested file name
+ * @param mimeType - MIME type of the contents
+ */
+export function downloadTextFile(text: string, fileName: string, mimeType: string): void {
+  const blob = new Blob([text], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
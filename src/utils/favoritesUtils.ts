@@ -0,0 +1,85 @@
+import type { FavoriteHotel, Hotel } from '../types/index';
+import { loadVersioned, saveVersioned } from './persistentStorage';
+
+// =============================================================================
+// FAVORITES STORAGE
+// =============================================================================
+
+const FAVORITES_STORAGE_KEY = 'hotel-map:favorites';
+
+/**
+ * Bump when the shape of a stored favorite changes, and teach
+ * migrateFavorites how to read the previous version
+ */
+export const FAVORITES_SCHEMA_VERSION = 1;
+
+function isFavoriteHotel(value: unknown): value is FavoriteHotel {
+  const entry = value as Partial<FavoriteHotel> | null;
+  return (
+    typeof entry === 'object' && entry !== null &&
+    typeof entry.hotelId === 'number' && Number.isInteger(entry.hotelId) &&
+    typeof entry.name === 'string' &&
+    typeof entry.addedAt === 'number'
+  );
+}
+
+// Keep valid entries, first occurrence of each hotel wins
+function parseFavorites(data: unknown): FavoriteHotel[] | null {
+  if (!Array.isArray(data)) return null;
+
+  const seen = new Set<number>();
+  return data.filter((entry): entry is FavoriteHotel => {
+    if (!isFavoriteHotel(entry) || seen.has(entry.hotelId)) return false;
+    seen.add(entry.hotelId);
+    return true;
+  });
+}
+
+// No earlier schema versions have shipped yet
+function migrateFavorites(): FavoriteHotel[] | null {
+  return null;
+}
+
+/**
+ * Load the shortlist saved by a previous session
+ * @returns FavoriteHotel[] - Saved favorites, empty when none or unreadable
+ */
+export function loadFavorites(): FavoriteHotel[] {
+  return loadVersioned(FAVORITES_STORAGE_KEY, FAVORITES_SCHEMA_VERSION, parseFavorites, migrateFavorites) ?? [];
+}
+
+/**
+ * Persist the shortlist for future sessions
+ * @param favorites - Current favorites
+ */
+export function saveFavorites(favorites: FavoriteHotel[]): void {
+  saveVersioned(FAVORITES_STORAGE_KEY, FAVORITES_SCHEMA_VERSION, favorites);
+}
+
+// =============================================================================
+// FAVORITES HELPERS
+// =============================================================================
+
+/**
+ * Create a shortlist entry for a hotel
+ * The name is kept so the entry stays readable if the hotel leaves the dataset
+ */
+export function createFavorite(hotel: Hotel, addedAt: number = Date.now()): FavoriteHotel {
+  return { hotelId: hotel.hotel_id, name: hotel.name, addedAt };
+}
+
+export interface ResolvedFavorite {
+  favorite: FavoriteHotel;
+  hotel: Hotel | null; // null when the hotel is no longer in the dataset
+}
+
+/**
+ * Match favorites against the loaded dataset
+ * @param favorites - Shortlist entries
+ * @param hotels - Loaded hotels
+ * @returns ResolvedFavorite[] - Entries in shortlist order
+ */
+export function resolveFavorites(favorites: FavoriteHotel[], hotels: Hotel[]): ResolvedFavorite[] {
+  const hotelsById = new Map(hotels.map(hotel => [hotel.hotel_id, hotel]));
+  return favorites.map(favorite => ({ favorite, hotel: hotelsById.get(favorite.hotelId) ?? null }));
+}
@@ -0,0 +1,168 @@
+import type { FilterPreset, HotelFilters } from '../types/index';
+import { loadVersioned, saveVersioned } from './persistentStorage';
+import { sanitizeFilters } from './filterUtils';
+
+// =============================================================================
+// PRESET CONFIGURATION
+// =============================================================================
+
+const PRESETS_STORAGE_KEY = 'hotel-map:filter-presets';
+
+/**
+ * Bump when the stored or exported preset shape changes
+ * Exported files carry the same version so older files can still be read
+ */
+export const FILTER_PRESETS_SCHEMA_VERSION = 1;
+
+// Identifies preset files among other JSON a user might drop in
+const PRESET_FILE_TYPE = 'hotel-filter-presets';
+
+export const MAX_PRESET_NAME_LENGTH = 60;
+
+interface PresetFile {
+  type: typeof PRESET_FILE_TYPE;
+  version: number;
+  presets: Array<Pick<FilterPreset, 'name' | 'filters'>>;
+}
+
+// =============================================================================
+// PRESET HELPERS
+// =============================================================================
+
+function createPresetId(): string {
+  return `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Trim and shorten a preset name
+ * @param name - Name as typed
+ * @returns string - Cleaned name, empty when nothing usable remains
+ */
+export function normalizePresetName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').slice(0, MAX_PRESET_NAME_LENGTH);
+}
+
+/**
+ * Pick a name that no existing preset uses, e.g. "Client budget (2)"
+ * @param name - Desired name
+ * @param presets - Existing presets
+ * @returns string - Unique name
+ */
+export function getUniquePresetName(name: string, presets: FilterPreset[]): string {
+  const taken = new Set(presets.map(preset => preset.name.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+
+  let suffix = 2;
+  while (taken.has(`${name} (${suffix})`.toLowerCase())) suffix++;
+  return `${name} (${suffix})`;
+}
+
+/**
+ * Create a preset from filter criteria
+ * @param name - Display name (already normalized)
+ * @param filters - Filters to save
+ * @returns FilterPreset - New preset
+ */
+export function createFilterPreset(name: string, filters: HotelFilters): FilterPreset {
+  return { id: createPresetId(), name, filters, createdAt: Date.now() };
+}
+
+/**
+ * Move a preset to a new position
+ * @param presets - Presets in display order
+ * @param id - Preset to move
+ * @param toIndex - Target position, clamped to the list
+ * @returns FilterPreset[] - Reordered presets
+ */
+export function movePreset(presets: FilterPreset[], id: string, toIndex: number): FilterPreset[] {
+  const fromIndex = presets.findIndex(preset => preset.id === id);
+  if (fromIndex === -1) return presets;
+
+  const next = [...presets];
+  const [preset] = next.splice(fromIndex, 1);
+  next.splice(Math.min(Math.max(toIndex, 0), next.length), 0, preset);
+  return next;
+}
+
+// =============================================================================
+// PERSISTENCE
+// =============================================================================
+
+function parseStoredPresets(data: unknown): FilterPreset[] | null {
+  if (!Array.isArray(data)) return null;
+
+  return data.flatMap((entry): FilterPreset[] => {
+    const preset = entry as Partial<FilterPreset> | null;
+    if (!preset || typeof preset.id !== 'string' || typeof preset.name !== 'string') return [];
+
+    return [{
+      id: preset.id,
+      name: preset.name,
+      filters: sanitizeFilters(preset.filters),
+      createdAt: typeof preset.createdAt === 'number' ? preset.createdAt : Date.now(),
+    }];
+  });
+}
+
+/**
+ * Load presets saved by a previous session
+ * @returns FilterPreset[] - Saved presets, empty when none or unreadable
+ */
+export function loadFilterPresets(): FilterPreset[] {
+  return loadVersioned(PRESETS_STORAGE_KEY, FILTER_PRESETS_SCHEMA_VERSION, parseStoredPresets) ?? [];
+}
+
+/**
+ * Persist presets for future sessions
+ * @param presets - Presets in display order
+ */
+export function saveFilterPresets(presets: FilterPreset[]): void {
+  saveVersioned(PRESETS_STORAGE_KEY, FILTER_PRESETS_SCHEMA_VERSION, presets);
+}
+
+// =============================================================================
+// IMPORT / EXPORT
+// =============================================================================
+
+/**
+ * Serialize presets for sharing
+ * Ids and timestamps are left out; they are assigned again on import
+ * @param presets - Presets to export
+ * @returns string - JSON text
+ */
+export function exportFilterPresets(presets: FilterPreset[]): string {
+  const file: PresetFile = {
+    type: PRESET_FILE_TYPE,
+    version: FILTER_PRESETS_SCHEMA_VERSION,
+    presets: presets.map(({ name, filters }) => ({ name, filters })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Read presets from a shared JSON file
+ * Presets without a name are skipped and invalid filter values are dropped
+ * @param text - JSON text
+ * @returns Array<Pick<FilterPreset, 'name' | 'filters'>> - Imported presets, in file order
+ * @throws Error when the text is not a preset file this version can read
+ */
+export function parseFilterPresetFile(text: string): Array<Pick<FilterPreset, 'name' | 'filters'>> {
+  let data: Partial<PresetFile>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (data?.type !== PRESET_FILE_TYPE || !Array.isArray(data.presets)) {
+    throw new Error('The file does not contain filter presets');
+  }
+  if (typeof data.version !== 'number' || data.version > FILTER_PRESETS_SCHEMA_VERSION) {
+    throw new Error('The presets were saved by a newer version of the app');
+  }
+
+  return data.presets.flatMap(entry => {
+    const name = typeof entry?.name === 'string' ? normalizePresetName(entry.name) : '';
+    return name ? [{ name, filters: sanitizeFilters(entry.filters) }] : [];
+  });
+}
@@ -0,0 +1,312 @@
+import type { HotelFilters, SortBy, SortOrder, Amenity, Currency, FilterArea } from '../types/index';
+import { AMENITIES, SORT_BY, SORT_ORDER } from '../types/index';
+import { formatCurrency, fromBaseCurrency } from './currencyUtils';
+import {
+  getAreaKey,
+  getAreaLabel,
+  sanitizeArea,
+  sanitizeBounds,
+  encodeBounds,
+  formatRadius,
+  sanitizeRadiusFilter,
+  encodeRadiusFilter,
+} from './areaUtils';
+import { getPointOfInterest } from './poiUtils';
+
+// =============================================================================
+// FILTER STATE HELPERS
+// =============================================================================
+
+/**
+ * Count active filters for badge display
+ * Each selected amenity and drawn area counts as its own filter
+ * @param filters - Filter criteria
+ * @returns number - Active filter count
+ */
+export function countActiveFilters(filters: HotelFilters): number {
+  let count = 0;
+
+  if (filters.priceRange) count++;
+  if (filters.ratingRange) count++;
+  if (filters.starRating && filters.starRating.length > 0) count++;
+  if (filters.amenities && filters.amenities.length > 0) count += filters.amenities.length;
+  if (filters.areas && filters.areas.length > 0) count += filters.areas.length;
+  if (filters.bounds) count++;
+  if (filters.near) count++;
+  if (filters.searchQuery && filters.searchQuery.trim()) count++;
+
+  return count;
+}
+
+/**
+ * Check whether any filter criteria are set
+ * @param filters - Filter criteria
+ * @returns boolean - Whether at least one filter is set
+ */
+export function hasFilterValues(filters: HotelFilters): boolean {
+  return countActiveFilters(filters) > 0;
+}
+
+/**
+ * Compare two filter objects by value
+ * @param a - First filter object
+ * @param b - Second filter object
+ * @returns boolean - Whether both filters are equivalent
+ */
+export function areFiltersEqual(a: HotelFilters, b: HotelFilters): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// =============================================================================
+// FILTER CHIPS
+// =============================================================================
+
+export type FilterChipType = 'price' | 'rating' | 'star' | 'amenity' | 'area' | 'bounds' | 'near' | 'search';
+
+export interface FilterChipInfo {
+  id: string;            // Unique per chip, stable across filter changes
+  type: FilterChipType;
+  label: string;
+  value?: string;        // Amenity name, area key, or encoded bounds or radius
+}
+
+// Price ranges are stored in the base currency
+const formatPrice = (price: number, currency: Currency): string => {
+  return formatCurrency(fromBaseCurrency(price, currency), currency);
+};
+
+const formatRating = (rating: number): string => {
+  return rating.toFixed(1);
+};
+
+/**
+ * Describe filters as removable chips
+ * Each amenity and drawn area gets its own chip
+ * @param filters - Filter criteria
+ * @param currency - Display currency for the price chip
+ * @returns FilterChipInfo[] - Chips in display order
+ */
+export function getFilterChips(filters: HotelFilters, currency: Currency): FilterChipInfo[] {
+  const chips: FilterChipInfo[] = [];
+
+  if (filters.priceRange) {
+    chips.push({
+      id: 'price',
+      type: 'price',
+      label: `${formatPrice(filters.priceRange.min, currency)} - ${formatPrice(filters.priceRange.max, currency)}`,
+    });
+  }
+
+  if (filters.ratingRange) {
+    chips.push({
+      id: 'rating',
+      type: 'rating',
+      label: `${formatRating(filters.ratingRange.min)} - ${formatRating(filters.ratingRange.max)} rating`,
+    });
+  }
+
+  if (filters.starRating && filters.starRating.length > 0) {
+    const sortedRatings = [...filters.starRating].sort((a, b) => b - a);
+    chips.push({
+      id: 'star',
+      type: 'star',
+      label: `${sortedRatings.join(', ')} star${sortedRatings.length > 1 ? 's' : ''}`,
+    });
+  }
+
+  filters.amenities?.forEach(amenity => {
+    chips.push({ id: `amenity-${amenity}`, type: 'amenity', label: amenity, value: amenity });
+  });
+
+  filters.areas?.forEach(area => {
+    const key = getAreaKey(area);
+    chips.push({ id: `area-${key}`, type: 'area', label: getAreaLabel(area), value: key });
+  });
+
+  if (filters.bounds) {
+    chips.push({ id: 'bounds', type: 'bounds', label: 'Map area', value: encodeBounds(filters.bounds) });
+  }
+
+  if (filters.near) {
+    chips.push({
+      id: 'near',
+      type: 'near',
+      label: `Within ${formatRadius(filters.near.radius)}`,
+      value: encodeRadiusFilter(filters.near),
+    });
+  }
+
+  if (filters.searchQuery && filters.searchQuery.trim()) {
+    chips.push({ id: 'search', type: 'search', label: `"${filters.searchQuery.trim()}"` });
+  }
+
+  return chips;
+}
+
+/**
+ * Summarize how applied filters changed, in chip terms
+ * e.g. "Added WiFi", "Removed 4, 3 stars", "Cleared all filters"
+ * @param before - Filters before the change
+ * @param after - Filters after the change
+ * @param currency - Display currency for price labels
+ * @returns string - Short human-readable description
+ */
+export function describeFilterChange(before: HotelFilters, after: HotelFilters, currency: Currency): string {
+  const beforeChips = getFilterChips(before, currency);
+  const afterChips = getFilterChips(after, currency);
+
+  if (afterChips.length === 0 && beforeChips.length > 0 && !after.sortBy) {
+    return 'Cleared all filters';
+  }
+
+  const beforeById = new Map(beforeChips.map(chip => [chip.id, chip]));
+  const afterIds = new Set(afterChips.map(chip => chip.id));
+  const changes: string[] = [];
+
+  afterChips.forEach(chip => {
+    const previous = beforeById.get(chip.id);
+    if (!previous) {
+      changes.push(`Added ${chip.label}`);
+    } else if (previous.label !== chip.label) {
+      changes.push(`Changed to ${chip.label}`);
+    } else if (previous.value !== chip.value) {
+      changes.push(`Updated ${chip.label}`);
+    }
+  });
+  beforeChips
+    .filter(chip => !afterIds.has(chip.id))
+    .forEach(chip => changes.push(`Removed ${chip.label}`));
+
+  if (
+    before.sortBy !== after.sortBy ||
+    before.sortOrder !== after.sortOrder ||
+    before.distanceFromPoi !== after.distanceFromPoi
+  ) {
+    changes.push(after.sortBy ? `Sorted by ${getSortDescription(after)}` : 'Removed sorting');
+  }
+
+  if (changes.length === 0) return 'Changed filters';
+  if (changes.length <= 2) return changes.join(', ');
+  return `${changes.slice(0, 2).join(', ')} and ${changes.length - 2} more`;
+}
+
+// =============================================================================
+// FILTER VALIDATION
+// =============================================================================
+
+const AMENITY_VALUES = new Set<string>(Object.values(AMENITIES));
+const SORT_BY_VALUES = new Set<string>(Object.values(SORT_BY));
+const SORT_ORDER_VALUES = new Set<string>(Object.values(SORT_ORDER));
+
+function sanitizeRange(value: unknown): { min: number; max: number } | undefined {
+  const range = value as { min?: unknown; max?: unknown } | null;
+  if (typeof range !== 'object' || range === null) return undefined;
+
+  const { min, max } = range;
+  if (typeof min !== 'number' || typeof max !== 'number' || !Number.isFinite(min) || !Number.isFinite(max) || min > max) {
+    return undefined;
+  }
+  return { min, max };
+}
+
+/**
+ * Rebuild filters from untrusted data, e.g. a shared JSON file
+ * Unknown keys and invalid values are dropped rather than rejecting the whole object
+ * @param data - Parsed JSON
+ * @returns HotelFilters - Valid filter criteria (possibly empty)
+ */
+export function sanitizeFilters(data: unknown): HotelFilters {
+  if (typeof data !== 'object' || data === null) return {};
+
+  const source = data as Record<string, unknown>;
+  const filters: HotelFilters = {};
+
+  const priceRange = sanitizeRange(source.priceRange);
+  if (priceRange) filters.priceRange = priceRange;
+
+  const ratingRange = sanitizeRange(source.ratingRange);
+  if (ratingRange) filters.ratingRange = ratingRange;
+
+  if (Array.isArray(source.starRating)) {
+    const stars = source.starRating.filter(
+      (star): star is number => Number.isInteger(star) && star >= 1 && star <= 5
+    );
+    if (stars.length > 0) filters.starRating = [...new Set(stars)];
+  }
+
+  if (Array.isArray(source.amenities)) {
+    const amenities = source.amenities.filter(
+      (amenity): amenity is Amenity => typeof amenity === 'string' && AMENITY_VALUES.has(amenity)
+    );
+    if (amenities.length > 0) filters.amenities = [...new Set(amenities)];
+  }
+
+  if (Array.isArray(source.areas)) {
+    const areas = source.areas
+      .map(sanitizeArea)
+      .filter((area): area is FilterArea => area !== null);
+    if (areas.length > 0) filters.areas = areas;
+  }
+
+  const bounds = sanitizeBounds(source.bounds);
+  if (bounds) filters.bounds = bounds;
+
+  const near = sanitizeRadiusFilter(source.near);
+  if (near) filters.near = near;
+
+  if (typeof source.searchQuery === 'string' && source.searchQuery.trim()) {
+    filters.searchQuery = source.searchQuery;
+  }
+
+  if (typeof source.sortBy === 'string' && SORT_BY_VALUES.has(source.sortBy)) {
+    filters.sortBy = source.sortBy as SortBy;
+    if (typeof source.sortOrder === 'string' && SORT_ORDER_VALUES.has(source.sortOrder)) {
+      filters.sortOrder = source.sortOrder as SortOrder;
+    }
+    if (
+      filters.sortBy === SORT_BY.Distance &&
+      typeof source.distanceFromPoi === 'string' &&
+      getPointOfInterest(source.distanceFromPoi)
+    ) {
+      filters.distanceFromPoi = source.distanceFromPoi;
+    }
+  }
+
+  return filters;
+}
+
+// =============================================================================
+// SORT LABELS
+// =============================================================================
+
+const SORT_LABELS: Record<SortBy, string> = {
+  [SORT_BY.Price]: 'Price',
+  [SORT_BY.Rating]: 'Guest rating',
+  [SORT_BY.StarRating]: 'Star rating',
+  [SORT_BY.ReviewCount]: 'Review count',
+  [SORT_BY.Name]: 'Name',
+  [SORT_BY.Distance]: 'Distance',
+};
+
+/**
+ * Get human-readable label for a sort criteria
+ * @param sortBy - Sort criteria
+ * @returns string - Display label
+ */
+export function getSortLabel(sortBy: SortBy): string {
+  return SORT_LABELS[sortBy];
+}
+
+/**
+ * Describe the active sort, naming the point of interest when sorting by distance to one
+ * @param filters - Filter criteria with a sort
+ * @returns string - Display label, e.g. "Distance to Space Needle"
+ */
+export function getSortDescription(filters: HotelFilters): string {
+  if (!filters.sortBy) return '';
+
+  const poi = filters.sortBy === SORT_BY.Distance && filters.distanceFromPoi
+    ? getPointOfInterest(filters.distanceFromPoi)
+    : null;
+  return poi ? `Distance to ${poi.name}` : getSortLabel(filters.sortBy);
+}
@@ -0,0 +1,86 @@
+import type { Hotel, HeatmapWeight, StayDates } from '../types/index';
+import { HEATMAP_WEIGHTS } from '../types/index';
+import { getHotelPrice } from './dataProcessor';
+
+// =============================================================================
+// HEATMAP CONFIGURATION
+// =============================================================================
+
+export const HEATMAP_WEIGHT_LABELS: Record<HeatmapWeight, string> = {
+  [HEATMAP_WEIGHTS.Price]: 'Price',
+  [HEATMAP_WEIGHTS.Rating]: 'Rating',
+  [HEATMAP_WEIGHTS.Value]: 'Value',
+};
+
+// Legend captions for the low and high ends of the scale
+export const HEATMAP_LEGEND_LABELS: Record<HeatmapWeight, { low: string; high: string }> = {
+  [HEATMAP_WEIGHTS.Price]: { low: 'Cheaper', high: 'Pricier' },
+  [HEATMAP_WEIGHTS.Rating]: { low: 'Lower rated', high: 'Higher rated' },
+  [HEATMAP_WEIGHTS.Value]: { low: 'Less value', high: 'Better value' },
+};
+
+// Every hotel still adds a little density so sparse areas do not vanish
+const MIN_HEATMAP_WEIGHT = 0.1;
+
+// =============================================================================
+// WEIGHTING
+// =============================================================================
+
+/**
+ * Scale values to 0-1 relative to the smallest and largest value
+ * @param values - Raw values
+ * @returns number[] - Normalized values (all 1 when every value is equal)
+ */
+function normalize(values: number[]): number[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (max === min) return values.map(() => 1);
+  return values.map(value => (value - min) / (max - min));
+}
+
+/**
+ * Get raw heatmap values for hotels, before normalization
+ * Prices are compared in the base currency, averaged over the stay when one is set
+ * @param hotels - Hotels to weigh
+ * @param weight - Weighting criteria
+ * @param stay - Optional stay dates
+ * @returns number[] - One value per hotel, higher is hotter
+ */
+function getRawValues(hotels: Hotel[], weight: HeatmapWeight, stay: StayDates | null): number[] {
+  switch (weight) {
+    case HEATMAP_WEIGHTS.Price:
+      return hotels.map(hotel => getHotelPrice(hotel, undefined, stay));
+    case HEATMAP_WEIGHTS.Rating:
+      return hotels.map(hotel => hotel.rating);
+    case HEATMAP_WEIGHTS.Value:
+      return hotels.map(hotel => {
+        const price = getHotelPrice(hotel, undefined, stay);
+        return price > 0 ? hotel.rating / price : 0;
+      });
+  }
+}
+
+/**
+ * Build heatmap points for hotels with a 0-1 weight property
+ * Weights are relative to the given hotels, so the scale follows the current filters
+ * @param hotels - Hotels to plot
+ * @param weight - Weighting criteria
+ * @param stay - Optional stay dates for pricing
+ * @returns GeoJSON.FeatureCollection - One point per hotel
+ */
+export function getHeatmapData(
+  hotels: Hotel[],
+  weight: HeatmapWeight,
+  stay: StayDates | null = null
+): GeoJSON.FeatureCollection<GeoJSON.Point, { weight: number }> {
+  const weights = hotels.length > 0 ? normalize(getRawValues(hotels, weight, stay)) : [];
+
+  return {
+    type: 'FeatureCollection',
+    features: hotels.map((hotel, index) => ({
+      type: 'Feature',
+      properties: { weight: MIN_HEATMAP_WEIGHT + weights[index] * (1 - MIN_HEATMAP_WEIGHT) },
+      geometry: { type: 'Point', coordinates: [hotel.longitude, hotel.latitude] },
+    })),
+  };
+}
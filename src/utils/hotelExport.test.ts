@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { AMENITIES } from '../types/index';
+import { createTestHotel } from '../test/hotelFixtures';
+import { EXPORT_FORMATS, hotelsToGeoJson, hotelsToCsv, hotelsToKml, getExportFileName } from './hotelExport';
+import { importHotelFile } from './hotelImport';
+
+const hotels = [
+  createTestHotel(1, {
+    name: 'The "Pine", Seattle',
+    price_per_night: '$250',
+    amenities: [AMENITIES.WiFi, AMENITIES.Pool],
+    rates: { weekend: 300, byDate: { '2024-12-31': 450 } },
+  }),
+  createTestHotel(2, { name: 'Harbor Inn', latitude: 47.6, longitude: -122.34 }),
+];
+
+describe('hotelsToGeoJson', () => {
+  it('writes one point feature per hotel with normalized prices', () => {
+    const collection = JSON.parse(hotelsToGeoJson(hotels));
+
+    expect(collection.type).toBe('FeatureCollection');
+    expect(collection.features).toHaveLength(2);
+    expect(collection.features[0]).toMatchObject({
+      id: 1,
+      geometry: { type: 'Point', coordinates: [-122.3331, 47.6097] },
+      properties: { price_per_night: 250, rates: { weekend: 300 } },
+    });
+    expect(collection.features[1].properties).not.toHaveProperty('rates');
+  });
+
+  it('round-trips through the importer', async () => {
+    const result = await importHotelFile(new File([hotelsToGeoJson(hotels)], 'hotels.geojson'));
+
+    expect(result.issues).toEqual([]);
+    expect(result.hotels).toEqual([{ ...hotels[0], price_per_night: 250 }, hotels[1]]);
+  });
+});
+
+describe('hotelsToCsv', () => {
+  it('writes a header row and quotes cells that need it', () => {
+    const [header, firstRow] = hotelsToCsv(hotels).split('\r\n');
+
+    expect(header).toBe(
+      'hotel_id,name,latitude,longitude,address,star_rating,price_per_night,' +
+      'currency,rating,review_count,image_url,room_type,amenities,rates'
+    );
+    expect(firstRow).toContain('"The ""Pine"", Seattle"');
+    expect(firstRow).toContain(',250,USD,');
+    expect(firstRow).toContain('"WiFi, Pool"');
+  });
+
+  it('round-trips through the importer', async () => {
+    const result = await importHotelFile(new File([hotelsToCsv(hotels)], 'hotels.csv'));
+
+    expect(result.issues).toEqual([]);
+    expect(result.hotels).toEqual([{ ...hotels[0], price_per_night: 250 }, hotels[1]]);
+  });
+});
+
+describe('hotelsToKml', () => {
+  it('escapes names and writes longitude before latitude', () => {
+    const kml = hotelsToKml(hotels, 'Seattle & Co');
+
+    expect(kml).toContain('<name>Seattle &amp; Co</name>');
+    expect(kml).toContain('<name>The &quot;Pine&quot;, Seattle</name>');
+    expect(kml).toContain('<coordinates>-122.34,47.6,0</coordinates>');
+    expect(kml.match(/<Placemark /g)).toHaveLength(2);
+  });
+});
+
+describe('getExportFileName', () => {
+  it('slugs the title and stamps the date', () => {
+    const date = new Date('2024-05-01T12:00:00Z');
+
+    expect(getExportFileName('Seattle Hotels!', EXPORT_FORMATS.CSV, date)).toBe('seattle-hotels-2024-05-01.csv');
+    expect(getExportFileName('***', EXPORT_FORMATS.KML, date)).toBe('hotels-2024-05-01.kml');
+  });
+});
@@ -0,0 +1,185 @@
+import type { Hotel, CoordinatesArray } from '../types/index';
+import { normalizePrice } from './dataProcessor';
+import { downloadTextFile } from './download';
+
+// =============================================================================
+// EXPORT TYPES
+// =============================================================================
+
+export const EXPORT_FORMATS = {
+  GeoJSON: 'geojson',
+  CSV: 'csv',
+  KML: 'kml',
+} as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[keyof typeof EXPORT_FORMATS];
+
+interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (hotels: Hotel[], title: string) => string;
+}
+
+// CSV columns, in the order the importer recognizes them
+const CSV_COLUMNS: Array<keyof Hotel> = [
+  'hotel_id', 'name', 'latitude', 'longitude', 'address', 'star_rating', 'price_per_night',
+  'currency', 'rating', 'review_count', 'image_url', 'room_type', 'amenities', 'rates',
+];
+
+// =============================================================================
+// GEOJSON
+// =============================================================================
+
+/**
+ * Serialize hotels as a GeoJSON FeatureCollection of points
+ * @param hotels - Hotels in export order
+ * @returns string - GeoJSON text
+ */
+export function hotelsToGeoJson(hotels: Hotel[]): string {
+  const features = hotels.map(hotel => {
+    const coordinates: CoordinatesArray = [hotel.longitude, hotel.latitude];
+
+    return {
+      type: 'Feature',
+      id: hotel.hotel_id,
+      geometry: { type: 'Point', coordinates },
+      properties: {
+        hotel_id: hotel.hotel_id,
+        name: hotel.name,
+        address: hotel.address,
+        star_rating: hotel.star_rating,
+        price_per_night: normalizePrice(hotel.price_per_night),
+        currency: hotel.currency,
+        rating: hotel.rating,
+        review_count: hotel.review_count,
+        image_url: hotel.image_url,
+        room_type: hotel.room_type,
+        amenities: hotel.amenities,
+        ...(hotel.rates && { rates: hotel.rates }),
+      },
+    };
+  });
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialize hotels as CSV with one row per hotel
+ * Amenities are flattened into a single comma-separated cell
+ * @param hotels - Hotels in export order
+ * @returns string - CSV text with a header row
+ */
+export function hotelsToCsv(hotels: Hotel[]): string {
+  const rows = hotels.map(hotel =>
+    CSV_COLUMNS.map(column => {
+      if (column === 'amenities') return escapeCsvCell(hotel.amenities.join(', '));
+      if (column === 'rates') return hotel.rates ? escapeCsvCell(JSON.stringify(hotel.rates)) : '';
+      if (column === 'price_per_night') return String(normalizePrice(hotel.price_per_night));
+      return escapeCsvCell(String(hotel[column]));
+    }).join(',')
+  );
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+// =============================================================================
+// KML
+// =============================================================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Serialize hotels as a KML document for Google Earth
+ * @param hotels - Hotels in export order
+ * @param title - Document name shown in Google Earth
+ * @returns string - KML text
+ */
+export function hotelsToKml(hotels: Hotel[], title: string): string {
+  const placemarks = hotels.map(hotel => {
+    const description = [
+      hotel.address,
+      `${hotel.star_rating}★ · ${hotel.rating}/10 (${hotel.review_count} reviews)`,
+      `${normalizePrice(hotel.price_per_night)} ${hotel.currency} per night · ${hotel.room_type}`,
+      hotel.amenities.join(', '),
+    ].filter(Boolean).join('\n');
+
+    return [
+      `    <Placemark id="hotel-${hotel.hotel_id}">`,
+      `      <name>${escapeXml(hotel.name)}</name>`,
+      `      <description>${escapeXml(description)}</description>`,
+      `      <Point><coordinates>${hotel.longitude},${hotel.latitude},0</coordinates></Point>`,
+      '    </Placemark>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(title)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+// =============================================================================
+// DOWNLOAD
+// =============================================================================
+
+export const EXPORT_FORMAT_INFO: Record<ExportFormat, ExportFormatInfo> = {
+  [EXPORT_FORMATS.GeoJSON]: {
+    label: 'GeoJSON',
+    extension: 'geojson',
+    mimeType: 'application/geo+json',
+    serialize: hotels => hotelsToGeoJson(hotels),
+  },
+  [EXPORT_FORMATS.CSV]: {
+    label: 'CSV',
+    extension: 'csv',
+    mimeType: 'text/csv;charset=utf-8',
+    serialize: hotels => hotelsToCsv(hotels),
+  },
+  [EXPORT_FORMATS.KML]: {
+    label: 'KML (Google Earth)',
+    extension: 'kml',
+    mimeType: 'application/vnd.google-earth.kml+xml',
+    serialize: (hotels, title) => hotelsToKml(hotels, title),
+  },
+};
+
+/**
+ * Build a dated file name such as "seattle-hotels-2024-05-01.csv"
+ */
+export function getExportFileName(baseName: string, format: ExportFormat, date: Date = new Date()): string {
+  const slug = baseName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'hotels';
+  return `${slug}-${date.toISOString().slice(0, 10)}.${EXPORT_FORMAT_INFO[format].extension}`;
+}
+
+/**
+ * Serialize hotels and save them through a browser download
+ * @param hotels - Hotels in export order
+ * @param format - Output format
+ * @param title - Dataset title, used for the file name and KML document
+ */
+export function downloadHotels(hotels: Hotel[], format: ExportFormat, title: string): void {
+  const info = EXPORT_FORMAT_INFO[format];
+  downloadTextFile(info.serialize(hotels, title), getExportFileName(title, format), info.mimeType);
+}
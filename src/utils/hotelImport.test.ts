@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { AMENITIES, VALIDATION_SEVERITY } from '../types/index';
+import { createTestHotel } from '../test/hotelFixtures';
+import {
+  parseCsv,
+  csvToHotelRecords,
+  geoJsonToHotelRecords,
+  detectImportFormat,
+  importHotelFile,
+  combineHotelDatasets,
+} from './hotelImport';
+
+const CSV_HEADER = 'ID,Hotel Name,Lat,Lng,Address,Stars,Price,Currency,Rating,Reviews,Photo,Room,Amenities,Weekend Rate';
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes, CRLF and blank lines', () => {
+    const text = '﻿name,address\r\n"Hotel ""One""","1 Pine St, Seattle"\r\n\r\nTwo,"line\nbreak"\n';
+
+    expect(parseCsv(text)).toEqual([
+      ['name', 'address'],
+      ['Hotel "One"', '1 Pine St, Seattle'],
+      ['Two', 'line\nbreak'],
+    ]);
+  });
+});
+
+describe('csvToHotelRecords', () => {
+  it('maps column aliases onto hotel fields and coerces values', () => {
+    const [record] = csvToHotelRecords(
+      `${CSV_HEADER}\n7,The Pine,47.61,-122.33,1 Pine St,4,$250,USD,8.7,310,https://x/7.jpg,King,"WiFi; Pool",290`
+    );
+
+    expect(record).toEqual({
+      hotel_id: 7,
+      name: 'The Pine',
+      latitude: 47.61,
+      longitude: -122.33,
+      address: '1 Pine St',
+      star_rating: 4,
+      price_per_night: '$250',
+      currency: 'USD',
+      rating: 8.7,
+      review_count: 310,
+      image_url: 'https://x/7.jpg',
+      room_type: 'King',
+      amenities: ['WiFi', 'Pool'],
+      rates: { weekend: 290 },
+    });
+  });
+
+  it('rejects an empty file', () => {
+    expect(() => csvToHotelRecords('')).toThrow('CSV file is empty');
+  });
+});
+
+describe('geoJsonToHotelRecords', () => {
+  it('reads coordinates from Point geometry and falls back to the feature id', () => {
+    const [record] = geoJsonToHotelRecords({
+      type: 'FeatureCollection',
+      features: [{
+        type: 'Feature',
+        id: '12',
+        geometry: { type: 'Point', coordinates: [-122.34, 47.6] },
+        properties: { name: 'Harbor Inn', stars: '3' },
+      }],
+    });
+
+    expect(record).toEqual({ hotel_id: 12, name: 'Harbor Inn', star_rating: 3, latitude: 47.6, longitude: -122.34 });
+  });
+
+  it('rejects anything but a FeatureCollection', () => {
+    expect(() => geoJsonToHotelRecords([])).toThrow('GeoJSON must be a FeatureCollection');
+  });
+});
+
+describe('detectImportFormat', () => {
+  it('prefers the extension and falls back to the contents', () => {
+    expect(detectImportFormat('hotels.CSV', '[]')).toBe('csv');
+    expect(detectImportFormat('hotels.geojson', '')).toBe('geojson');
+    expect(detectImportFormat('hotels.json', ' {"type":"FeatureCollection"}')).toBe('geojson');
+    expect(detectImportFormat('hotels.json', '[{}]')).toBe('json');
+    expect(detectImportFormat('hotels.txt', 'id,name')).toBe('csv');
+  });
+});
+
+describe('importHotelFile', () => {
+  it('validates and normalizes rows, reporting dropped records', async () => {
+    const file = new File([
+      `${CSV_HEADER}\n` +
+      '1,The Pine,47.61,-122.33,1 Pine St,4,250,usd,8.7,310,https://x/1.jpg,King,WiFi|Sauna,\n' +
+      '2,No Coordinates,,,2 Pine St,3,150,USD,7.9,12,https://x/2.jpg,Queen,,\n',
+    ], 'hotels.csv');
+
+    const result = await importHotelFile(file);
+
+    expect(result.format).toBe('csv');
+    expect(result.totalRecords).toBe(2);
+    expect(result.hotels).toHaveLength(1);
+    expect(result.hotels[0]).toMatchObject({ hotel_id: 1, currency: 'USD', amenities: [AMENITIES.WiFi] });
+    expect(result.issues.some(issue => issue.field === 'amenities' && issue.rawValue === 'Sauna')).toBe(true);
+
+    const errors = result.issues.filter(issue => issue.severity === VALIDATION_SEVERITY.Error);
+    expect(errors.every(issue => issue.recordIndex === 1)).toBe(true);
+    expect(errors.map(issue => issue.field)).toEqual(['latitude', 'longitude', 'amenities']);
+  });
+
+  it('reports files that are not valid JSON', async () => {
+    await expect(importHotelFile(new File(['[{'], 'hotels.json'))).rejects.toThrow('hotels.json is not valid JSON');
+  });
+});
+
+describe('combineHotelDatasets', () => {
+  const current = [createTestHotel(1), createTestHotel(2)];
+  const imported = [createTestHotel(2, { name: 'Renamed' }), createTestHotel(3)];
+
+  it('replaces the dataset', () => {
+    expect(combineHotelDatasets(current, imported, 'replace')).toBe(imported);
+  });
+
+  it('merges by id, keeping loaded order and appending new hotels', () => {
+    const merged = combineHotelDatasets(current, imported, 'merge');
+    expect(merged.map(hotel => [hotel.hotel_id, hotel.name])).toEqual([
+      [1, 'Hotel 1'],
+      [2, 'Renamed'],
+      [3, 'Hotel 3'],
+    ]);
+  });
+});
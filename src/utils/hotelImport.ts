@@ -0,0 +1,322 @@
+import type { Hotel, HotelValidationResult } from '../types/index';
+import { validateHotelData, normalizeHotelData } from './dataProcessor';
+
+// =============================================================================
+// IMPORT TYPES
+// =============================================================================
+
+export type HotelImportFormat = 'csv' | 'geojson' | 'json';
+
+export interface HotelImportResult extends HotelValidationResult {
+  format: HotelImportFormat;
+  fileName: string;
+}
+
+export type HotelImportMode = 'replace' | 'merge';
+
+type RawHotelRecord = Record<string, unknown>;
+
+// =============================================================================
+// FIELD MAPPING
+// =============================================================================
+
+// Accepted column/property names per Hotel field, compared after normalizeKey
+const FIELD_ALIASES: Record<keyof Hotel, string[]> = {
+  hotel_id: ['hotel_id', 'hotelid', 'id'],
+  name: ['name', 'hotel_name', 'hotel'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lng', 'lon', 'long'],
+  address: ['address', 'street_address'],
+  star_rating: ['star_rating', 'stars', 'star', 'class'],
+  price_per_night: ['price_per_night', 'price', 'nightly_rate', 'rate'],
+  currency: ['currency', 'currency_code'],
+  rating: ['rating', 'guest_rating', 'review_score'],
+  review_count: ['review_count', 'reviews', 'num_reviews'],
+  image_url: ['image_url', 'image', 'photo', 'photo_url'],
+  room_type: ['room_type', 'room'],
+  amenities: ['amenities', 'features'],
+  rates: ['rates'],
+};
+
+// Spreadsheet column for the weekend nightly rate, stored as rates.weekend
+const WEEKEND_RATE_KEYS = new Set(['weekend_rate', 'weekend_price']);
+
+const NUMERIC_FIELDS = new Set<keyof Hotel>([
+  'hotel_id', 'latitude', 'longitude', 'star_rating', 'price_per_night', 'rating', 'review_count',
+]);
+
+// Amenity lists in a single cell, e.g. "WiFi, Pool, Gym"
+const AMENITY_SEPARATOR = /[,;|]/;
+
+function normalizeKey(key: string): string {
+  return key.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+const FIELD_BY_KEY = new Map<string, keyof Hotel>(
+  (Object.entries(FIELD_ALIASES) as Array<[keyof Hotel, string[]]>).flatMap(([field, aliases]) =>
+    aliases.map(alias => [alias, field] as [string, keyof Hotel])
+  )
+);
+
+/**
+ * Convert spreadsheet-style values to the types the validator expects
+ * Values that do not parse cleanly are passed through so validation can report them
+ */
+function coerceFieldValue(field: keyof Hotel, value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+
+  const text = value.trim();
+  if (text === '') return undefined;
+
+  if (field === 'amenities') {
+    return text.split(AMENITY_SEPARATOR).map(amenity => amenity.trim()).filter(Boolean);
+  }
+
+  // Rate models arrive as JSON text in spreadsheet cells
+  if (field === 'rates') {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return value;
+    }
+  }
+
+  if (NUMERIC_FIELDS.has(field)) {
+    const number = Number(text);
+    return Number.isFinite(number) ? number : value;
+  }
+
+  return value;
+}
+
+/**
+ * Map arbitrary keys onto Hotel fields; unrecognized keys are ignored
+ */
+function toHotelRecord(source: Record<string, unknown>): RawHotelRecord {
+  const record: RawHotelRecord = {};
+
+  for (const [key, value] of Object.entries(source)) {
+    const normalizedKey = normalizeKey(key);
+
+    if (WEEKEND_RATE_KEYS.has(normalizedKey)) {
+      const weekend = coerceFieldValue('price_per_night', value);
+      if (weekend !== undefined) {
+        const rates = (record.rates ?? {}) as Record<string, unknown>;
+        record.rates = { ...rates, weekend };
+      }
+      continue;
+    }
+
+    const field = FIELD_BY_KEY.get(normalizedKey);
+    if (!field || field in record) continue;
+
+    const coerced = coerceFieldValue(field, value);
+    if (coerced !== undefined) {
+      record[field] = coerced;
+    }
+  }
+
+  return record;
+}
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180: quoted fields, "" escapes, CRLF)
+ * @param text - CSV file contents
+ * @returns string[][] - Rows, with fully empty lines skipped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Convert CSV text with a header row into raw hotel records
+ * @param text - CSV file contents
+ * @returns RawHotelRecord[] - Records keyed by Hotel field
+ */
+export function csvToHotelRecords(text: string): RawHotelRecord[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error('CSV file is empty');
+  }
+
+  return rows.map(cells =>
+    toHotelRecord(Object.fromEntries(header.map((column, index) => [column, cells[index] ?? ''])))
+  );
+}
+
+// =============================================================================
+// GEOJSON
+// =============================================================================
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  id?: string | number;
+  geometry: { type: string; coordinates: unknown } | null;
+  properties: Record<string, unknown> | null;
+}
+
+function isFeatureCollection(value: unknown): value is { type: 'FeatureCollection'; features: unknown[] } {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    (value as { type?: unknown }).type === 'FeatureCollection' &&
+    Array.isArray((value as { features?: unknown }).features)
+  );
+}
+
+/**
+ * Convert a GeoJSON FeatureCollection of points into raw hotel records
+ * Coordinates come from the Point geometry; everything else from properties
+ * @param collection - Parsed GeoJSON
+ * @returns RawHotelRecord[] - Records keyed by Hotel field
+ */
+export function geoJsonToHotelRecords(collection: unknown): RawHotelRecord[] {
+  if (!isFeatureCollection(collection)) {
+    throw new Error('GeoJSON must be a FeatureCollection');
+  }
+
+  return collection.features.map(item => {
+    const feature = item as GeoJsonFeature;
+    const record = toHotelRecord(feature?.properties ?? {});
+
+    if (record.hotel_id === undefined && feature?.id !== undefined) {
+      record.hotel_id = coerceFieldValue('hotel_id', String(feature.id));
+    }
+
+    // GeoJSON positions are [longitude, latitude]
+    const geometry = feature?.geometry;
+    if (geometry?.type === 'Point' && Array.isArray(geometry.coordinates)) {
+      const [longitude, latitude] = geometry.coordinates;
+      record.longitude = longitude;
+      record.latitude = latitude;
+    }
+
+    return record;
+  });
+}
+
+// =============================================================================
+// FILE IMPORT
+// =============================================================================
+
+/**
+ * Work out the file format from its name, falling back to its contents
+ */
+export function detectImportFormat(fileName: string, text: string): HotelImportFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+
+  if (extension === 'csv') return 'csv';
+  if (extension === 'geojson') return 'geojson';
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{')) return 'geojson';
+  if (trimmed.startsWith('[')) return 'json';
+  return 'csv';
+}
+
+/**
+ * Parse, validate and normalize a hotel dataset file
+ * Accepts CSV, GeoJSON FeatureCollections and JSON arrays in the bundled format
+ * @param file - File dropped or picked by the user
+ * @returns Promise<HotelImportResult> - Normalized hotels with validation issues
+ */
+export async function importHotelFile(file: File): Promise<HotelImportResult> {
+  const text = await file.text();
+  const format = detectImportFormat(file.name, text);
+
+  let records: unknown[];
+  if (format === 'csv') {
+    records = csvToHotelRecords(text);
+  } else {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error(`${file.name} is not valid JSON`);
+    }
+
+    records = format === 'geojson'
+      ? geoJsonToHotelRecords(parsed)
+      : (Array.isArray(parsed) ? parsed : []).map(item =>
+          item && typeof item === 'object' ? toHotelRecord(item as Record<string, unknown>) : item
+        );
+  }
+
+  const report = validateHotelData(records);
+
+  return {
+    ...report,
+    hotels: normalizeHotelData(report.hotels),
+    format,
+    fileName: file.name,
+  };
+}
+
+/**
+ * Combine an imported dataset with the loaded one
+ * Imported hotels replace loaded hotels with the same id; new ids are appended
+ * @param current - Loaded hotels
+ * @param imported - Imported hotels
+ * @param mode - Replace the dataset or merge into it
+ * @returns Hotel[] - Resulting dataset
+ */
+export function combineHotelDatasets(current: Hotel[], imported: Hotel[], mode: HotelImportMode): Hotel[] {
+  if (mode === 'replace') {
+    return imported;
+  }
+
+  const importedById = new Map(imported.map(hotel => [hotel.hotel_id, hotel]));
+  const merged = current.map(hotel => importedById.get(hotel.hotel_id) ?? hotel);
+  const currentIds = new Set(current.map(hotel => hotel.hotel_id));
+
+  return [...merged, ...imported.filter(hotel => !currentIds.has(hotel.hotel_id))];
+}
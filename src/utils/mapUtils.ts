@@ -56,4 +56,28 @@ export function refreshMapDisplay(mapRef: React.RefObject<MapRef | null>) {
     // Force canvas redraw for crisp rendering
     mapRef.current.resize();
   }
-} 
\ No newline at end of file
+} 
+
+// Mapbox Static Images API for non-interactive map previews
+const STATIC_MAP_BASE_URL = 'https://api.mapbox.com/styles/v1/mapbox/streets-v12/static';
+
+/**
+ * Build a Mapbox static map image URL centered on a location with a pin
+ * @param latitude - Center latitude
+ * @param longitude - Center longitude
+ * @param options - Zoom level, image size and pin color (hex without "#")
+ * @returns string | null - Image URL, or null without an access token
+ */
+export function getStaticMapUrl(
+  latitude: number,
+  longitude: number,
+  { zoom = 14, width = 600, height = 300, pinColor = 'ef4444' } = {}
+): string | null {
+  const accessToken = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN;
+  if (!accessToken) return null;
+
+  const lng = longitude.toFixed(6);
+  const lat = latitude.toFixed(6);
+
+  return `${STATIC_MAP_BASE_URL}/pin-l-lodging+${pinColor}(${lng},${lat})/${lng},${lat},${zoom},0/${width}x${height}@2x?access_token=${accessToken}`;
+}
@@ -0,0 +1,72 @@
+// =============================================================================
+// VERSIONED LOCAL STORAGE
+// =============================================================================
+// Values are wrapped as { version, data } so a schema change can be detected
+// instead of misreading an older shape
+
+interface StoredEnvelope {
+  version: number;
+  data: unknown;
+}
+
+/**
+ * Migrate data stored under an older schema version
+ * Return null when the data cannot be carried forward
+ */
+export type StorageMigration<T> = (data: unknown, fromVersion: number) => T | null;
+
+function getStorage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    // Access throws when storage is disabled (e.g. some private browsing modes)
+    return null;
+  }
+}
+
+/**
+ * Read a versioned value from localStorage
+ * @param key - Storage key
+ * @param version - Current schema version
+ * @param parse - Validates data stored under the current version
+ * @param migrate - Upgrades data stored under an older version
+ * @returns T | null - Parsed value, or null when missing, unreadable or from a newer version
+ */
+export function loadVersioned<T>(
+  key: string,
+  version: number,
+  parse: (data: unknown) => T | null,
+  migrate?: StorageMigration<T>
+): T | null {
+  const raw = getStorage()?.getItem(key);
+  if (!raw) return null;
+
+  try {
+    const envelope = JSON.parse(raw) as Partial<StoredEnvelope> | null;
+    const storedVersion = envelope?.version;
+    if (typeof storedVersion !== 'number') return null;
+
+    if (storedVersion === version) return parse(envelope?.data);
+    if (storedVersion < version && migrate) return migrate(envelope?.data, storedVersion);
+    return null;
+  } catch (error) {
+    console.warn(`Ignoring unreadable "${key}" in localStorage:`, error);
+    return null;
+  }
+}
+
+/**
+ * Write a versioned value to localStorage
+ * Failures (quota, disabled storage) are logged and otherwise ignored
+ * @param key - Storage key
+ * @param version - Current schema version
+ * @param data - JSON-serializable value
+ */
+export function saveVersioned(key: string, version: number, data: unknown): void {
+  try {
+    const envelope: StoredEnvelope = { version, data };
+    getStorage()?.setItem(key, JSON.stringify(envelope));
+  } catch (error) {
+    console.warn(`Could not save "${key}" to localStorage:`, error);
+  }
+}
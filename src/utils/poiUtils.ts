@@ -0,0 +1,125 @@
+import poiData from '../data/points_of_interest.json';
+import type { PoiCategory, PointOfInterest } from '../types/index';
+import { POI_CATEGORIES } from '../types/index';
+
+// =============================================================================
+// POI CONFIGURATION
+// =============================================================================
+
+const POI_CATEGORY_VALUES = new Set<string>(Object.values(POI_CATEGORIES));
+
+export const POI_CATEGORY_LABELS: Record<PoiCategory, string> = {
+  [POI_CATEGORIES.Landmark]: 'Landmark',
+  [POI_CATEGORIES.Market]: 'Market & shopping',
+  [POI_CATEGORIES.Convention]: 'Convention center',
+  [POI_CATEGORIES.Stadium]: 'Stadium & arena',
+  [POI_CATEGORIES.Museum]: 'Museum',
+  [POI_CATEGORIES.Park]: 'Park',
+  [POI_CATEGORIES.Ferry]: 'Ferry & cruise terminal',
+  [POI_CATEGORIES.Transit]: 'Train station',
+};
+
+export const POI_CATEGORY_COLORS: Record<PoiCategory, string> = {
+  [POI_CATEGORIES.Landmark]: '#7c3aed',
+  [POI_CATEGORIES.Market]: '#db2777',
+  [POI_CATEGORIES.Convention]: '#2563eb',
+  [POI_CATEGORIES.Stadium]: '#ea580c',
+  [POI_CATEGORIES.Museum]: '#0d9488',
+  [POI_CATEGORIES.Park]: '#16a34a',
+  [POI_CATEGORIES.Ferry]: '#0284c7',
+  [POI_CATEGORIES.Transit]: '#475569',
+};
+
+// Average walking pace, with streets adding a third to the straight-line distance
+const WALKING_SPEED_KMH = 5;
+const WALKING_DETOUR_FACTOR = 1.3;
+
+// =============================================================================
+// DATASET
+// =============================================================================
+
+/**
+ * Validate a POI dataset, e.g. one parsed from a JSON file
+ * Invalid or duplicate entries are skipped with a warning
+ * @param data - Parsed dataset with a `points` array
+ * @returns PointOfInterest[] - Valid points of interest
+ */
+export function parsePointsOfInterest(data: unknown): PointOfInterest[] {
+  const points = (data as { points?: unknown } | null)?.points;
+  if (!Array.isArray(points)) {
+    throw new Error('Points of interest dataset needs a points array');
+  }
+
+  const seenIds = new Set<string>();
+
+  return points.flatMap((entry, index): PointOfInterest[] => {
+    const poi = (entry ?? {}) as Partial<PointOfInterest>;
+    const isValid =
+      typeof poi.id === 'string' && poi.id !== '' && !seenIds.has(poi.id) &&
+      typeof poi.name === 'string' && poi.name.trim() !== '' &&
+      typeof poi.category === 'string' && POI_CATEGORY_VALUES.has(poi.category) &&
+      typeof poi.latitude === 'number' && poi.latitude >= -90 && poi.latitude <= 90 &&
+      typeof poi.longitude === 'number' && poi.longitude >= -180 && poi.longitude <= 180;
+
+    if (!isValid) {
+      console.warn(`Skipping invalid point of interest at index ${index}`, entry);
+      return [];
+    }
+
+    seenIds.add(poi.id as string);
+    return [{
+      id: poi.id as string,
+      name: (poi.name as string).trim(),
+      category: poi.category as PoiCategory,
+      latitude: poi.latitude as number,
+      longitude: poi.longitude as number,
+    }];
+  });
+}
+
+// Points bundled with the app; edit src/data/points_of_interest.json to extend them
+const BUNDLED_POINTS_OF_INTEREST = parsePointsOfInterest(poiData);
+const POINTS_BY_ID = new Map(BUNDLED_POINTS_OF_INTEREST.map(poi => [poi.id, poi]));
+
+/**
+ * Get all points of interest
+ * @returns PointOfInterest[] - Points of interest in dataset order
+ */
+export function getPointsOfInterest(): PointOfInterest[] {
+  return BUNDLED_POINTS_OF_INTEREST;
+}
+
+/**
+ * Look up a point of interest
+ * @param id - POI id
+ * @returns PointOfInterest | null - Point of interest, or null when unknown
+ */
+export function getPointOfInterest(id: string): PointOfInterest | null {
+  return POINTS_BY_ID.get(id) ?? null;
+}
+
+// =============================================================================
+// WALKING TIME
+// =============================================================================
+
+/**
+ * Estimate how long a walk takes
+ * @param distance - Straight-line distance in kilometers
+ * @returns number - Whole minutes, at least 1
+ */
+export function estimateWalkingMinutes(distance: number): number {
+  return Math.max(1, Math.round((distance * WALKING_DETOUR_FACTOR / WALKING_SPEED_KMH) * 60));
+}
+
+/**
+ * Format a walking time, e.g. "8 min walk" or "1 h 10 min walk"
+ * @param minutes - Walking time in minutes
+ * @returns string - Display label
+ */
+export function formatWalkingTime(minutes: number): string {
+  if (minutes < 60) return `${minutes} min walk`;
+
+  const hours = Math.floor(minutes / 60);
+  const remainder = minutes % 60;
+  return remainder === 0 ? `${hours} h walk` : `${hours} h ${remainder} min walk`;
+}
@@ -0,0 +1,126 @@
+import type { Coordinates } from '../types/index';
+
+// =============================================================================
+// PRICE LABEL CONFIGURATION
+// =============================================================================
+
+export interface PriceLabel {
+  id: number;
+  coordinates: Coordinates;
+  text: string;
+}
+
+// Approximate rendered size of a price pill (text-xs, px-2, py-0.5)
+const LABEL_CHAR_WIDTH = 7;
+const LABEL_PADDING = 20;
+const LABEL_HEIGHT = 22;
+const LABEL_GAP = 2;
+
+// Mapbox GL renders 512px tiles, so the world is 512px wide at zoom 0
+const TILE_SIZE = 512;
+
+// Placed labels are bucketed so each new label only checks its neighbors
+const GRID_CELL_SIZE = 64;
+
+interface LabelBox {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+// =============================================================================
+// COLLISION DETECTION
+// =============================================================================
+
+/**
+ * Project coordinates to Web Mercator pixels at a zoom level
+ * Only differences between points matter, so no map instance is needed
+ * @param coordinates - Point to project
+ * @param zoom - Map zoom level
+ * @returns Pixel position in world space
+ */
+function projectToPixels(coordinates: Coordinates, zoom: number): { x: number; y: number } {
+  const worldSize = TILE_SIZE * Math.pow(2, zoom);
+  const latitude = (coordinates.latitude * Math.PI) / 180;
+
+  return {
+    x: ((coordinates.longitude + 180) / 360) * worldSize,
+    y: ((1 - Math.log(Math.tan(latitude) + 1 / Math.cos(latitude)) / Math.PI) / 2) * worldSize,
+  };
+}
+
+/**
+ * Get the screen box of a pill anchored at its bottom center
+ * @param label - Price label
+ * @param zoom - Map zoom level
+ * @returns LabelBox - Box including a small gap on every side
+ */
+function getLabelBox(label: PriceLabel, zoom: number): LabelBox {
+  const { x, y } = projectToPixels(label.coordinates, zoom);
+  const halfWidth = (label.text.length * LABEL_CHAR_WIDTH + LABEL_PADDING) / 2 + LABEL_GAP;
+
+  return {
+    left: x - halfWidth,
+    right: x + halfWidth,
+    top: y - LABEL_HEIGHT - LABEL_GAP,
+    bottom: y + LABEL_GAP,
+  };
+}
+
+const boxesOverlap = (a: LabelBox, b: LabelBox): boolean =>
+  a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+
+/**
+ * Find price labels that would overlap a label placed before them
+ * Labels are placed greedily: priority ids first, then in the given order,
+ * so passing hotels in their sorted order keeps the best matches readable
+ * @param labels - Labels to place
+ * @param zoom - Map zoom level
+ * @param priorityIds - Labels placed before all others, e.g. the selected hotel
+ * @returns Set<number> - Ids of labels to collapse
+ */
+export function getCollapsedPriceLabels(
+  labels: PriceLabel[],
+  zoom: number,
+  priorityIds: ReadonlySet<number> = new Set()
+): Set<number> {
+  const ordered = [
+    ...labels.filter(label => priorityIds.has(label.id)),
+    ...labels.filter(label => !priorityIds.has(label.id)),
+  ];
+  const grid = new Map<string, LabelBox[]>();
+  const collapsed = new Set<number>();
+
+  ordered.forEach(label => {
+    const box = getLabelBox(label, zoom);
+    const minCol = Math.floor(box.left / GRID_CELL_SIZE);
+    const maxCol = Math.floor(box.right / GRID_CELL_SIZE);
+    const minRow = Math.floor(box.top / GRID_CELL_SIZE);
+    const maxRow = Math.floor(box.bottom / GRID_CELL_SIZE);
+
+    const cells: string[] = [];
+    for (let col = minCol; col <= maxCol; col++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        cells.push(`${col}:${row}`);
+      }
+    }
+
+    const hasCollision = cells.some(cell => grid.get(cell)?.some(placed => boxesOverlap(box, placed)));
+    if (hasCollision) {
+      collapsed.add(label.id);
+      return;
+    }
+
+    cells.forEach(cell => {
+      const bucket = grid.get(cell);
+      if (bucket) {
+        bucket.push(box);
+      } else {
+        grid.set(cell, [box]);
+      }
+    });
+  });
+
+  return collapsed;
+}
@@ -0,0 +1,123 @@
+// =============================================================================
+// ROUTE TYPES
+// =============================================================================
+
+export type AppRoute =
+  | { name: 'home' }
+  | { name: 'hotel'; hotelId: number }
+  | { name: 'compare'; hotelIds: number[] }
+  | { name: 'data-quality' }
+  | { name: 'not-found'; pathname: string };
+
+interface NavigateOptions {
+  replace?: boolean;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+// Fired on in-app navigation; popstate only covers back/forward
+const LOCATION_CHANGE_EVENT = 'app:locationchange';
+
+const HOTEL_ROUTE_PATTERN = /^\/hotel\/(\d+)\/?$/;
+const COMPARE_ROUTE_PATTERN = /^\/compare\/(\d+(?:,\d+)*)\/?$/;
+
+export const DATA_QUALITY_PATH = '/data-quality';
+
+// Last map URL (with its encoded filters and view) so detail pages can return to it
+let lastHomeUrl = '/';
+
+// =============================================================================
+// ROUTING
+// =============================================================================
+
+/**
+ * Resolve a pathname to an app route
+ * @param pathname - URL pathname
+ * @returns AppRoute - Matched route
+ */
+export function matchRoute(pathname: string): AppRoute {
+  if (pathname === '/' || pathname === '') {
+    return { name: 'home' };
+  }
+
+  const hotelMatch = pathname.match(HOTEL_ROUTE_PATTERN);
+  if (hotelMatch) {
+    return { name: 'hotel', hotelId: Number(hotelMatch[1]) };
+  }
+
+  const compareMatch = pathname.match(COMPARE_ROUTE_PATTERN);
+  if (compareMatch) {
+    const hotelIds = [...new Set(compareMatch[1].split(',').map(Number))];
+    return { name: 'compare', hotelIds };
+  }
+
+  if (pathname.replace(/\/$/, '') === DATA_QUALITY_PATH) {
+    return { name: 'data-quality' };
+  }
+
+  return { name: 'not-found', pathname };
+}
+
+/**
+ * Build the path for a hotel detail page
+ * @param hotelId - Hotel identifier
+ * @returns string - Detail page path
+ */
+export function getHotelPath(hotelId: number): string {
+  return `/hotel/${hotelId}`;
+}
+
+/**
+ * Build the path for comparing hotels side by side
+ * @param hotelIds - Hotels in column order
+ * @returns string - Comparison page path
+ */
+export function getComparePath(hotelIds: number[]): string {
+  return `/compare/${hotelIds.join(',')}`;
+}
+
+/**
+ * Navigate within the app without a full page load
+ * @param url - Path, optionally with query string
+ * @param options - Replace the current history entry instead of pushing
+ */
+export function navigate(url: string, options: NavigateOptions = {}): void {
+  const { pathname, search } = window.location;
+  if (matchRoute(pathname).name === 'home') {
+    lastHomeUrl = `${pathname}${search}`;
+  }
+
+  if (options.replace) {
+    window.history.replaceState(null, '', url);
+  } else {
+    window.history.pushState(null, '', url);
+  }
+
+  window.scrollTo(0, 0);
+  window.dispatchEvent(new Event(LOCATION_CHANGE_EVENT));
+}
+
+/**
+ * Get the map URL the user last left, including its query string
+ * @returns string - Home URL to return to
+ */
+export function getHomeUrl(): string {
+  return lastHomeUrl;
+}
+
+/**
+ * Subscribe to location changes from navigation and back/forward
+ * @param callback - Called after the location changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToLocation(callback: () => void): () => void {
+  window.addEventListener('popstate', callback);
+  window.addEventListener(LOCATION_CHANGE_EVENT, callback);
+
+  return () => {
+    window.removeEventListener('popstate', callback);
+    window.removeEventListener(LOCATION_CHANGE_EVENT, callback);
+  };
+}
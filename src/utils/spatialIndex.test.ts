@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { Coordinates } from '../types/index';
+import { QuadTree, getSpatialIndex } from './spatialIndex';
+
+interface Place extends Coordinates {
+  id: number;
+}
+
+// Deterministic grid around downtown Seattle, ~100 m apart
+const PLACES: Place[] = Array.from({ length: 400 }, (_, index) => ({
+  id: index,
+  latitude: 47.6 + Math.floor(index / 20) * 0.001,
+  longitude: -122.35 + (index % 20) * 0.0015,
+}));
+
+const ids = (places: Place[]) => places.map(place => place.id).sort((a, b) => a - b);
+
+function distanceKm(a: Coordinates, b: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+describe('QuadTree', () => {
+  const tree = new QuadTree<Place>(place => place, PLACES, { nodeCapacity: 8 });
+
+  it('indexes every item', () => {
+    expect(tree.size).toBe(PLACES.length);
+    expect(ids(tree.all())).toEqual(ids(PLACES));
+  });
+
+  it('returns exactly the items inside a bounding box', () => {
+    const box = { north: 47.605, south: 47.602, east: -122.34, west: -122.345 };
+    const expected = PLACES.filter(place =>
+      place.latitude <= box.north && place.latitude >= box.south &&
+      place.longitude <= box.east && place.longitude >= box.west
+    );
+
+    expect(expected.length).toBeGreaterThan(0);
+    expect(ids(tree.queryBounds(box))).toEqual(ids(expected));
+  });
+
+  it('queries boxes that span the antimeridian', () => {
+    const dateLine = new QuadTree<Place>(place => place, [
+      { id: 1, latitude: 0, longitude: 179.5 },
+      { id: 2, latitude: 0, longitude: -179.5 },
+      { id: 3, latitude: 0, longitude: 0 },
+    ]);
+
+    expect(ids(dateLine.queryBounds({ north: 1, south: -1, east: -179, west: 179 }))).toEqual([1, 2]);
+  });
+
+  it('returns exactly the items within a radius', () => {
+    const center = { latitude: 47.608, longitude: -122.335 };
+    const expected = PLACES.filter(place => distanceKm(center, place) <= 0.5);
+
+    expect(expected.length).toBeGreaterThan(0);
+    expect(ids(tree.queryRadius(center, 0.5))).toEqual(ids(expected));
+  });
+
+  it('finds the k nearest items, closest first', () => {
+    const center = { latitude: 47.6101, longitude: -122.3301 };
+    const expected = [...PLACES]
+      .sort((a, b) => distanceKm(center, a) - distanceKm(center, b))
+      .slice(0, 5);
+
+    const nearest = tree.nearest(center, 5);
+    expect(nearest.map(result => result.item.id)).toEqual(expected.map(place => place.id));
+    expect(nearest[0].distance).toBeCloseTo(distanceKm(center, expected[0]), 6);
+  });
+
+  it('respects the maximum distance for nearest queries', () => {
+    expect(tree.nearest({ latitude: 48.5, longitude: -122.3 }, 3, 10)).toEqual([]);
+  });
+
+  it('grows to hold items outside its initial bounds and removes items', () => {
+    const small = new QuadTree<Place>(place => place, PLACES.slice(0, 10));
+    const faraway = { id: 999, latitude: -33.87, longitude: 151.21 };
+
+    small.insert(faraway);
+    expect(small.size).toBe(11);
+    expect(small.nearest(faraway, 1)[0].item).toBe(faraway);
+
+    expect(small.remove(faraway)).toBe(true);
+    expect(small.remove(faraway)).toBe(false);
+    expect(small.size).toBe(10);
+  });
+});
+
+describe('getSpatialIndex', () => {
+  it('builds one index per array instance', () => {
+    expect(getSpatialIndex(PLACES)).toBe(getSpatialIndex(PLACES));
+    expect(getSpatialIndex([...PLACES])).not.toBe(getSpatialIndex(PLACES));
+  });
+});
@@ -0,0 +1,392 @@
+import type { BoundingBox, Coordinates } from '../types/index';
+
+// =============================================================================
+// SPATIAL INDEX TYPES
+// =============================================================================
+
+export type CoordinateAccessor<T> = (item: T) => Coordinates;
+
+export interface NearestResult<T> {
+  item: T;
+  distance: number; // Distance in kilometers
+}
+
+export interface QuadTreeOptions {
+  nodeCapacity?: number; // Items per leaf before it splits
+  maxDepth?: number;     // Stop splitting past this depth (handles duplicate points)
+}
+
+interface QuadTreeNode<T> {
+  bounds: BoundingBox;
+  depth: number;
+  items: T[];
+  children: QuadTreeNode<T>[] | null;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const DEFAULT_NODE_CAPACITY = 16;
+const DEFAULT_MAX_DEPTH = 18;
+
+const WORLD_BOUNDS: BoundingBox = { north: 90, south: -90, east: 180, west: -180 };
+
+const EARTH_RADIUS_KM = 6371;
+
+// =============================================================================
+// GEOMETRY HELPERS
+// =============================================================================
+
+/**
+ * Haversine distance in kilometers
+ */
+function distanceKm(a: Coordinates, b: Coordinates): number {
+  const dLat = (b.latitude - a.latitude) * Math.PI / 180;
+  const dLon = (b.longitude - a.longitude) * Math.PI / 180;
+  const h =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(a.latitude * Math.PI / 180) * Math.cos(b.latitude * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+function containsPoint(bounds: BoundingBox, point: Coordinates): boolean {
+  return (
+    point.latitude <= bounds.north &&
+    point.latitude >= bounds.south &&
+    point.longitude <= bounds.east &&
+    point.longitude >= bounds.west
+  );
+}
+
+function intersects(a: BoundingBox, b: BoundingBox): boolean {
+  return !(a.west > b.east || a.east < b.west || a.south > b.north || a.north < b.south);
+}
+
+/**
+ * Lower bound on the distance from a point to any point in a box
+ */
+function distanceToBounds(point: Coordinates, bounds: BoundingBox): number {
+  const closest = {
+    latitude: Math.min(Math.max(point.latitude, bounds.south), bounds.north),
+    longitude: Math.min(Math.max(point.longitude, bounds.west), bounds.east),
+  };
+  return distanceKm(point, closest);
+}
+
+/**
+ * Box that fully contains a circle, used to prefilter radius queries
+ */
+function boundsAroundPoint(center: Coordinates, radiusKm: number): BoundingBox {
+  const angularRadius = radiusKm / EARTH_RADIUS_KM;
+  const latDelta = angularRadius * 180 / Math.PI;
+
+  // Widest longitude span of a spherical circle; covers everything near the poles
+  const sinRatio = Math.sin(angularRadius) / Math.cos(center.latitude * Math.PI / 180);
+  const lngDelta = sinRatio >= 1 ? 180 : Math.asin(sinRatio) * 180 / Math.PI;
+
+  return {
+    north: center.latitude + latDelta,
+    south: center.latitude - latDelta,
+    east: center.longitude + lngDelta,
+    west: center.longitude - lngDelta,
+  };
+}
+
+function splitBounds(bounds: BoundingBox): BoundingBox[] {
+  const midLat = (bounds.north + bounds.south) / 2;
+  const midLng = (bounds.east + bounds.west) / 2;
+
+  return [
+    { north: bounds.north, south: midLat, east: midLng, west: bounds.west }, // NW
+    { north: bounds.north, south: midLat, east: bounds.east, west: midLng }, // NE
+    { north: midLat, south: bounds.south, east: midLng, west: bounds.west }, // SW
+    { north: midLat, south: bounds.south, east: bounds.east, west: midLng }, // SE
+  ];
+}
+
+// =============================================================================
+// QUADTREE
+// =============================================================================
+
+/**
+ * Point quadtree over geographic coordinates
+ * Supports bounding-box, radius and k-nearest-neighbor queries in O(log n) average
+ */
+export class QuadTree<T> {
+  private root: QuadTreeNode<T>;
+  private count = 0;
+  private readonly getCoordinates: CoordinateAccessor<T>;
+  private readonly nodeCapacity: number;
+  private readonly maxDepth: number;
+
+  constructor(
+    getCoordinates: CoordinateAccessor<T>,
+    items: T[] = [],
+    { nodeCapacity = DEFAULT_NODE_CAPACITY, maxDepth = DEFAULT_MAX_DEPTH }: QuadTreeOptions = {}
+  ) {
+    this.getCoordinates = getCoordinates;
+    this.nodeCapacity = nodeCapacity;
+    this.maxDepth = maxDepth;
+    this.root = QuadTree.createNode<T>(QuadTree.computeBounds(items, getCoordinates), 0);
+
+    for (const item of items) {
+      this.insert(item);
+    }
+  }
+
+  /**
+   * Number of indexed items
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Add an item to the index
+   * Items outside the current root bounds grow the tree to the whole world
+   */
+  insert(item: T): void {
+    const point = this.getCoordinates(item);
+
+    if (!containsPoint(this.root.bounds, point)) {
+      const existing = this.all();
+      this.root = QuadTree.createNode<T>(WORLD_BOUNDS, 0);
+      this.count = 0;
+      for (const existingItem of existing) {
+        this.insertIntoNode(this.root, existingItem, this.getCoordinates(existingItem));
+      }
+    }
+
+    this.insertIntoNode(this.root, item, point);
+  }
+
+  /**
+   * Remove an item from the index
+   * @returns boolean - Whether the item was found
+   */
+  remove(item: T): boolean {
+    const point = this.getCoordinates(item);
+    const stack: QuadTreeNode<T>[] = [this.root];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!containsPoint(node.bounds, point)) continue;
+
+      if (node.children) {
+        stack.push(...node.children);
+        continue;
+      }
+
+      const position = node.items.indexOf(item);
+      if (position !== -1) {
+        node.items.splice(position, 1);
+        this.count--;
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * All items inside a bounding box (inclusive)
+   */
+  queryBounds(bounds: BoundingBox): T[] {
+    // Boxes whose west edge is east of their east edge span the antimeridian
+    if (bounds.west > bounds.east) {
+      return [
+        ...this.queryBounds({ ...bounds, east: 180 }),
+        ...this.queryBounds({ ...bounds, west: -180 }),
+      ];
+    }
+
+    const results: T[] = [];
+    const stack: QuadTreeNode<T>[] = [this.root];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!intersects(node.bounds, bounds)) continue;
+
+      if (node.children) {
+        stack.push(...node.children);
+        continue;
+      }
+
+      for (const item of node.items) {
+        if (containsPoint(bounds, this.getCoordinates(item))) {
+          results.push(item);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * All items within a radius of a point
+   * @param center - Query point
+   * @param radiusKm - Radius in kilometers
+   */
+  queryRadius(center: Coordinates, radiusKm: number): T[] {
+    return this.queryBounds(boundsAroundPoint(center, radiusKm)).filter(
+      item => distanceKm(center, this.getCoordinates(item)) <= radiusKm
+    );
+  }
+
+  /**
+   * The k nearest items to a point, closest first
+   * @param center - Query point
+   * @param k - Maximum number of results
+   * @param maxDistanceKm - Ignore items farther than this
+   */
+  nearest(center: Coordinates, k = 1, maxDistanceKm = Infinity): NearestResult<T>[] {
+    const results: NearestResult<T>[] = [];
+    if (k <= 0 || this.count === 0) return results;
+
+    // Best-first search: visit nodes in order of their distance lower bound
+    const queue: Array<{ node: QuadTreeNode<T>; distance: number }> = [
+      { node: this.root, distance: distanceToBounds(center, this.root.bounds) },
+    ];
+
+    const worstAccepted = () =>
+      results.length < k ? maxDistanceKm : results[results.length - 1].distance;
+
+    while (queue.length > 0) {
+      const { node, distance } = queue.shift()!;
+      if (distance > worstAccepted()) break;
+
+      if (node.children) {
+        for (const child of node.children) {
+          const childDistance = distanceToBounds(center, child.bounds);
+          if (childDistance <= worstAccepted()) {
+            insertSorted(queue, { node: child, distance: childDistance }, entry => entry.distance);
+          }
+        }
+        continue;
+      }
+
+      for (const item of node.items) {
+        const itemDistance = distanceKm(center, this.getCoordinates(item));
+        if (itemDistance <= worstAccepted()) {
+          insertSorted(results, { item, distance: itemDistance }, entry => entry.distance);
+          if (results.length > k) results.pop();
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Every indexed item
+   */
+  all(): T[] {
+    return this.queryBounds(this.root.bounds);
+  }
+
+  /**
+   * Remove every item
+   */
+  clear(): void {
+    this.root = QuadTree.createNode<T>(WORLD_BOUNDS, 0);
+    this.count = 0;
+  }
+
+  private insertIntoNode(node: QuadTreeNode<T>, item: T, point: Coordinates): void {
+    let current = node;
+
+    while (current.children) {
+      current = current.children.find(child => containsPoint(child.bounds, point)) ?? current.children[0];
+    }
+
+    current.items.push(item);
+    this.count++;
+
+    if (current.items.length > this.nodeCapacity && current.depth < this.maxDepth) {
+      this.subdivide(current);
+    }
+  }
+
+  private subdivide(node: QuadTreeNode<T>): void {
+    node.children = splitBounds(node.bounds).map(bounds =>
+      QuadTree.createNode<T>(bounds, node.depth + 1)
+    );
+
+    const items = node.items;
+    node.items = [];
+    this.count -= items.length;
+
+    for (const item of items) {
+      this.insertIntoNode(node, item, this.getCoordinates(item));
+    }
+  }
+
+  private static createNode<T>(bounds: BoundingBox, depth: number): QuadTreeNode<T> {
+    return { bounds, depth, items: [], children: null };
+  }
+
+  private static computeBounds<T>(items: T[], getCoordinates: CoordinateAccessor<T>): BoundingBox {
+    if (items.length === 0) return WORLD_BOUNDS;
+
+    let north = -90;
+    let south = 90;
+    let east = -180;
+    let west = 180;
+
+    for (const item of items) {
+      const { latitude, longitude } = getCoordinates(item);
+      north = Math.max(north, latitude);
+      south = Math.min(south, latitude);
+      east = Math.max(east, longitude);
+      west = Math.min(west, longitude);
+    }
+
+    // Small padding keeps edge points strictly inside and avoids zero-size roots
+    const padding = 1e-6;
+    return { north: north + padding, south: south - padding, east: east + padding, west: west - padding };
+  }
+}
+
+/**
+ * Insert into an array kept sorted by key (ascending)
+ */
+function insertSorted<E>(array: E[], entry: E, getKey: (entry: E) => number): void {
+  const key = getKey(entry);
+  let low = 0;
+  let high = array.length;
+
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (getKey(array[mid]) <= key) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  array.splice(low, 0, entry);
+}
+
+// =============================================================================
+// SHARED INDEXES
+// =============================================================================
+
+// Index per array instance, so repeated queries on the same dataset reuse the tree
+const indexCache = new WeakMap<readonly Coordinates[], QuadTree<Coordinates>>();
+
+/**
+ * Get a spatial index for located items such as hotels or points of interest
+ * Built once per array instance; the array must not be mutated afterwards
+ * @param items - Items to index
+ * @returns QuadTree<T> - Spatial index
+ */
+export function getSpatialIndex<T extends Coordinates>(items: T[]): QuadTree<T> {
+  let index = indexCache.get(items) as QuadTree<T> | undefined;
+  if (!index) {
+    index = new QuadTree<T>(item => item, items);
+    indexCache.set(items, index as unknown as QuadTree<Coordinates>);
+  }
+  return index;
+}
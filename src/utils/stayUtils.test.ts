@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import type { HotelRates } from '../types/index';
+import {
+  MAX_STAY_NIGHTS,
+  parseIsoDate,
+  addDays,
+  getStayNightCount,
+  isValidStay,
+  getStayNights,
+  getNightlyRate,
+  getStayPrice,
+  formatNightCount,
+} from './stayUtils';
+
+// 2024-05-01 is a Wednesday, so the 3rd and 4th are Friday and Saturday nights
+const RATES: HotelRates = { weekend: 300, byDate: { '2024-05-04': 500 } };
+
+describe('parseIsoDate', () => {
+  it('parses calendar dates at UTC midnight', () => {
+    expect(parseIsoDate('2024-02-29')?.toISOString()).toBe('2024-02-29T00:00:00.000Z');
+  });
+
+  it('rejects malformed and impossible dates', () => {
+    expect(parseIsoDate('2024-5-1')).toBeNull();
+    expect(parseIsoDate('2023-02-29')).toBeNull();
+    expect(parseIsoDate('2024-13-01')).toBeNull();
+  });
+});
+
+describe('addDays', () => {
+  it('crosses month and year ends', () => {
+    expect(addDays('2024-02-28', 2)).toBe('2024-03-01');
+    expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+    expect(addDays('2024-01-01', -1)).toBe('2023-12-31');
+  });
+
+  it('returns invalid input unchanged', () => {
+    expect(addDays('someday', 1)).toBe('someday');
+  });
+});
+
+describe('stay length', () => {
+  it('counts nights between check-in and check-out', () => {
+    expect(getStayNightCount({ checkIn: '2024-05-01', checkOut: '2024-05-04' })).toBe(3);
+    expect(getStayNightCount({ checkIn: '2024-03-09', checkOut: '2024-03-11' })).toBe(2);
+    expect(getStayNightCount({ checkIn: '2024-05-04', checkOut: '2024-05-01' })).toBe(0);
+    expect(getStayNightCount({ checkIn: 'bad', checkOut: '2024-05-01' })).toBe(0);
+  });
+
+  it('accepts one night up to the maximum stay', () => {
+    expect(isValidStay({ checkIn: '2024-05-01', checkOut: '2024-05-01' })).toBe(false);
+    expect(isValidStay({ checkIn: '2024-05-01', checkOut: '2024-05-02' })).toBe(true);
+    expect(isValidStay({ checkIn: '2024-05-01', checkOut: addDays('2024-05-01', MAX_STAY_NIGHTS) })).toBe(true);
+    expect(isValidStay({ checkIn: '2024-05-01', checkOut: addDays('2024-05-01', MAX_STAY_NIGHTS + 1) })).toBe(false);
+  });
+
+  it('lists each night, excluding the check-out day', () => {
+    expect(getStayNights({ checkIn: '2024-05-01', checkOut: '2024-05-03' })).toEqual(['2024-05-01', '2024-05-02']);
+  });
+});
+
+describe('getNightlyRate', () => {
+  it('prefers a date override, then the weekend rate, then the base rate', () => {
+    expect(getNightlyRate(200, RATES, '2024-05-04')).toBe(500);
+    expect(getNightlyRate(200, RATES, '2024-05-03')).toBe(300);
+    expect(getNightlyRate(200, RATES, '2024-05-05')).toBe(200);
+    expect(getNightlyRate(200, undefined, '2024-05-03')).toBe(200);
+  });
+});
+
+describe('getStayPrice', () => {
+  it('sums nightly rates over the stay', () => {
+    expect(getStayPrice(200, RATES, { checkIn: '2024-05-02', checkOut: '2024-05-06' })).toEqual({
+      nights: 4,
+      total: 200 + 300 + 500 + 200,
+      averageNightly: 300,
+    });
+  });
+
+  it('returns null for an invalid stay', () => {
+    expect(getStayPrice(200, RATES, { checkIn: '2024-05-02', checkOut: '2024-05-02' })).toBeNull();
+  });
+});
+
+describe('formatNightCount', () => {
+  it('pluralizes', () => {
+    expect(formatNightCount(1)).toBe('1 night');
+    expect(formatNightCount(3)).toBe('3 nights');
+  });
+});
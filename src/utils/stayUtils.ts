@@ -0,0 +1,155 @@
+import type { HotelRates, StayDates } from '../types/index';
+
+// =============================================================================
+// STAY CONFIGURATION
+// =============================================================================
+
+export const MAX_STAY_NIGHTS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Friday and Saturday nights are priced as weekend nights
+const WEEKEND_NIGHTS = new Set([5, 6]);
+
+export interface StayPrice {
+  nights: number;
+  total: number;          // Sum of nightly rates over the stay
+  averageNightly: number;
+}
+
+// =============================================================================
+// DATE HELPERS
+// =============================================================================
+// Stay dates are calendar dates, handled in UTC so time zones cannot shift them
+
+/**
+ * Parse an ISO calendar date ("2024-05-01")
+ * @param value - Date string
+ * @returns Date | null - UTC midnight, or null if invalid
+ */
+export function parseIsoDate(value: string): Date | null {
+  if (!ISO_DATE_PATTERN.test(value)) return null;
+
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) || toIsoDate(date) !== value ? null : date;
+}
+
+/**
+ * Format a date as an ISO calendar date in UTC
+ */
+export function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Add days to an ISO calendar date
+ */
+export function addDays(isoDate: string, days: number): string {
+  const date = parseIsoDate(isoDate);
+  return date ? toIsoDate(new Date(date.getTime() + days * DAY_MS)) : isoDate;
+}
+
+/**
+ * Today's date in the user's time zone, as an ISO calendar date
+ */
+export function getTodayIsoDate(): string {
+  const now = new Date();
+  return toIsoDate(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+}
+
+// =============================================================================
+// STAY CALCULATIONS
+// =============================================================================
+
+/**
+ * Number of nights between check-in and check-out
+ * @param stay - Stay dates
+ * @returns number - Nights, or 0 when the dates are invalid
+ */
+export function getStayNightCount(stay: StayDates): number {
+  const checkIn = parseIsoDate(stay.checkIn);
+  const checkOut = parseIsoDate(stay.checkOut);
+  if (!checkIn || !checkOut) return 0;
+
+  return Math.max(0, Math.round((checkOut.getTime() - checkIn.getTime()) / DAY_MS));
+}
+
+/**
+ * Check that a stay has valid dates and a supported length
+ * @param stay - Stay dates
+ * @returns boolean - Whether the stay can be priced
+ */
+export function isValidStay(stay: StayDates): boolean {
+  const nights = getStayNightCount(stay);
+  return nights >= 1 && nights <= MAX_STAY_NIGHTS;
+}
+
+/**
+ * Dates of each night in a stay (check-in up to the day before check-out)
+ * @param stay - Stay dates
+ * @returns string[] - ISO dates, empty for an invalid stay
+ */
+export function getStayNights(stay: StayDates): string[] {
+  if (!isValidStay(stay)) return [];
+
+  return Array.from({ length: getStayNightCount(stay) }, (_, index) => addDays(stay.checkIn, index));
+}
+
+/**
+ * Rate for one night: a per-date override, else the weekend rate, else the base rate
+ * @param baseRate - Standard nightly rate
+ * @param rates - Optional rate model
+ * @param isoDate - Night to price
+ * @returns number - Nightly rate
+ */
+export function getNightlyRate(baseRate: number, rates: HotelRates | undefined, isoDate: string): number {
+  const dateRate = rates?.byDate?.[isoDate];
+  if (dateRate !== undefined) return dateRate;
+
+  const date = parseIsoDate(isoDate);
+  if (rates?.weekend !== undefined && date && WEEKEND_NIGHTS.has(date.getUTCDay())) {
+    return rates.weekend;
+  }
+
+  return baseRate;
+}
+
+/**
+ * Price a stay night by night
+ * @param baseRate - Standard nightly rate
+ * @param rates - Optional rate model
+ * @param stay - Stay dates
+ * @returns StayPrice | null - Totals, or null for an invalid stay
+ */
+export function getStayPrice(baseRate: number, rates: HotelRates | undefined, stay: StayDates): StayPrice | null {
+  const nights = getStayNights(stay);
+  if (nights.length === 0) return null;
+
+  const total = nights.reduce((sum, night) => sum + getNightlyRate(baseRate, rates, night), 0);
+  return { nights: nights.length, total, averageNightly: total / nights.length };
+}
+
+// =============================================================================
+// FORMATTING
+// =============================================================================
+
+/**
+ * Short label for a stay, e.g. "Oct 19 – Oct 22"
+ * @param stay - Stay dates
+ * @returns string - Formatted date range
+ */
+export function formatStayDates(stay: StayDates): string {
+  const format = new Intl.DateTimeFormat(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  const checkIn = parseIsoDate(stay.checkIn);
+  const checkOut = parseIsoDate(stay.checkOut);
+
+  return checkIn && checkOut ? `${format.format(checkIn)} – ${format.format(checkOut)}` : '';
+}
+
+/**
+ * "1 night" / "3 nights"
+ */
+export function formatNightCount(nights: number): string {
+  return `${nights} night${nights === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { AMENITIES, SORT_BY, SORT_ORDER } from '../types/index';
+import type { HotelFilters } from '../types/index';
+import { encodeUrlState, decodeUrlState, URL_STATE_VERSION } from './urlState';
+
+const FULL_FILTERS: HotelFilters = {
+  priceRange: { min: 100, max: 450 },
+  ratingRange: { min: 7.5, max: 10 },
+  starRating: [5, 3],
+  amenities: [AMENITIES.WiFi, AMENITIES.Pool],
+  areas: [{
+    points: [
+      { latitude: 47.61, longitude: -122.34 },
+      { latitude: 47.62, longitude: -122.33 },
+      { latitude: 47.6, longitude: -122.32 },
+    ],
+  }],
+  bounds: { north: 47.63, south: 47.59, east: -122.3, west: -122.36 },
+  near: { center: { latitude: 47.6097, longitude: -122.3422 }, radius: 1.5 },
+  searchQuery: 'waterfront',
+  sortBy: SORT_BY.Distance,
+  sortOrder: SORT_ORDER.Ascending,
+  distanceFromPoi: 'pike-place-market',
+};
+
+describe('encodeUrlState / decodeUrlState', () => {
+  it('round-trips every filter, the map view and the selected hotel', () => {
+    const search = encodeUrlState({
+      filters: FULL_FILTERS,
+      view: { latitude: 47.6062, longitude: -122.3321, zoom: 13.5 },
+      selectedHotelId: 42,
+    });
+
+    expect(decodeUrlState(search)).toEqual({
+      filters: { ...FULL_FILTERS, starRating: [3, 5] },
+      view: { latitude: 47.6062, longitude: -122.3321, zoom: 13.5 },
+      selectedHotelId: 42,
+    });
+  });
+
+  it('writes only the version for empty state', () => {
+    expect(encodeUrlState({ filters: {}, view: null, selectedHotelId: null }))
+      .toBe(`?v=${URL_STATE_VERSION}`);
+  });
+
+  it('ignores links from an unsupported version', () => {
+    expect(decodeUrlState('?v=999&q=hotel&h=3')).toEqual({
+      filters: {},
+      view: null,
+      selectedHotelId: null,
+    });
+  });
+
+  it('drops invalid parameters without failing the rest of the link', () => {
+    const state = decodeUrlState(`?v=${URL_STATE_VERSION}&p=500-100&r=2-11&s=7&a=zz&m=95,0,3&h=-1&q=spa`);
+
+    expect(state).toEqual({ filters: { searchQuery: 'spa' }, view: null, selectedHotelId: null });
+  });
+
+  it('keeps a point of interest only when sorting by distance', () => {
+    const state = decodeUrlState(`?v=${URL_STATE_VERSION}&o=pa&d=pike-place-market`);
+
+    expect(state.filters).toEqual({ sortBy: SORT_BY.Price, sortOrder: SORT_ORDER.Ascending });
+  });
+});
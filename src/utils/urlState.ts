@@ -0,0 +1,281 @@
+import type { HotelFilters, Amenity, SortBy, SortOrder, FilterArea } from '../types/index';
+import { AMENITIES, SORT_BY, SORT_ORDER } from '../types/index';
+import {
+  encodeArea,
+  decodeArea,
+  encodeBounds,
+  decodeBounds,
+  encodeRadiusFilter,
+  decodeRadiusFilter,
+} from './areaUtils';
+import { getPointOfInterest } from './poiUtils';
+
+// =============================================================================
+// URL STATE TYPES
+// =============================================================================
+
+export interface UrlMapView {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+}
+
+export interface UrlState {
+  filters: HotelFilters;
+  view: UrlMapView | null;
+  selectedHotelId: number | null;
+}
+
+// =============================================================================
+// ENCODING CONFIGURATION
+// =============================================================================
+
+/**
+ * Bump when the meaning of an existing parameter changes
+ * Adding new optional parameters does not require a new version
+ */
+export const URL_STATE_VERSION = 1;
+
+const PARAMS = {
+  version: 'v',
+  price: 'p',
+  rating: 'r',
+  stars: 's',
+  amenities: 'a',
+  area: 'g', // Repeated once per drawn area
+  bounds: 'b',
+  near: 'n',
+  query: 'q',
+  sort: 'o',
+  poi: 'd', // Point of interest distance sorting is measured from
+  map: 'm',
+  hotel: 'h',
+} as const;
+
+// One character per amenity keeps shared links short
+const AMENITY_CODES: Record<Amenity, string> = {
+  [AMENITIES.WiFi]: 'w',
+  [AMENITIES.Parking]: 'p',
+  [AMENITIES.Gym]: 'g',
+  [AMENITIES.Pool]: 'o',
+  [AMENITIES.Restaurant]: 'r',
+  [AMENITIES.Bar]: 'b',
+  [AMENITIES.Spa]: 's',
+  [AMENITIES.BusinessCenter]: 'c',
+};
+
+const SORT_CODES: Record<SortBy, string> = {
+  [SORT_BY.Price]: 'p',
+  [SORT_BY.Rating]: 'r',
+  [SORT_BY.StarRating]: 's',
+  [SORT_BY.ReviewCount]: 'c',
+  [SORT_BY.Name]: 'n',
+  [SORT_BY.Distance]: 'd',
+};
+
+const ORDER_CODES: Record<SortOrder, string> = {
+  [SORT_ORDER.Ascending]: 'a',
+  [SORT_ORDER.Descending]: 'd',
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function invert<K extends string>(record: Record<K, string>): Record<string, K> {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, code]) => [code, key])
+  ) as Record<string, K>;
+}
+
+const AMENITY_BY_CODE = invert(AMENITY_CODES);
+const SORT_BY_CODE = invert(SORT_CODES);
+const ORDER_BY_CODE = invert(ORDER_CODES);
+
+function formatNumber(value: number, decimals: number): string {
+  return Number(value.toFixed(decimals)).toString();
+}
+
+/**
+ * Parse a "min-max" range (ranges in this app are never negative)
+ */
+function parseRange(value: string | null): { min: number; max: number } | undefined {
+  if (!value) return undefined;
+
+  const [min, max] = value.split('-').map(Number);
+  if (!Number.isFinite(min) || !Number.isFinite(max) || min > max) {
+    return undefined;
+  }
+  return { min, max };
+}
+
+function parseMapView(value: string | null): UrlMapView | null {
+  if (!value) return null;
+
+  const [latitude, longitude, zoom] = value.split(',').map(Number);
+  if (
+    !Number.isFinite(latitude) || latitude < -90 || latitude > 90 ||
+    !Number.isFinite(longitude) || longitude < -180 || longitude > 180 ||
+    !Number.isFinite(zoom) || zoom < 0 || zoom > 22
+  ) {
+    return null;
+  }
+  return { latitude, longitude, zoom };
+}
+
+// =============================================================================
+// ENCODE / DECODE
+// =============================================================================
+
+/**
+ * Serialize shareable app state into a compact query string
+ * @param state - Filters, map view and selected hotel
+ * @returns string - Query string including the leading "?"
+ */
+export function encodeUrlState(state: UrlState): string {
+  const params = new URLSearchParams();
+  const { filters, view, selectedHotelId } = state;
+
+  params.set(PARAMS.version, URL_STATE_VERSION.toString());
+
+  if (filters.priceRange) {
+    params.set(PARAMS.price, `${filters.priceRange.min}-${filters.priceRange.max}`);
+  }
+
+  if (filters.ratingRange) {
+    params.set(
+      PARAMS.rating,
+      `${formatNumber(filters.ratingRange.min, 1)}-${formatNumber(filters.ratingRange.max, 1)}`
+    );
+  }
+
+  if (filters.starRating && filters.starRating.length > 0) {
+    params.set(PARAMS.stars, [...filters.starRating].sort().join(''));
+  }
+
+  if (filters.amenities && filters.amenities.length > 0) {
+    params.set(PARAMS.amenities, filters.amenities.map(amenity => AMENITY_CODES[amenity]).join(''));
+  }
+
+  filters.areas?.forEach(area => {
+    params.append(PARAMS.area, encodeArea(area));
+  });
+
+  if (filters.bounds) {
+    params.set(PARAMS.bounds, encodeBounds(filters.bounds));
+  }
+
+  if (filters.near) {
+    params.set(PARAMS.near, encodeRadiusFilter(filters.near));
+  }
+
+  if (filters.searchQuery && filters.searchQuery.trim()) {
+    params.set(PARAMS.query, filters.searchQuery.trim());
+  }
+
+  if (filters.sortBy) {
+    const order = filters.sortOrder ? ORDER_CODES[filters.sortOrder] : '';
+    params.set(PARAMS.sort, `${SORT_CODES[filters.sortBy]}${order}`);
+  }
+
+  if (filters.sortBy === SORT_BY.Distance && filters.distanceFromPoi) {
+    params.set(PARAMS.poi, filters.distanceFromPoi);
+  }
+
+  if (view) {
+    params.set(
+      PARAMS.map,
+      [formatNumber(view.latitude, 5), formatNumber(view.longitude, 5), formatNumber(view.zoom, 2)].join(',')
+    );
+  }
+
+  if (selectedHotelId !== null) {
+    params.set(PARAMS.hotel, selectedHotelId.toString());
+  }
+
+  return `?${params.toString()}`;
+}
+
+/**
+ * Restore app state from a query string
+ * Invalid or unknown parameters are ignored rather than failing the whole link
+ * @param search - Query string, with or without the leading "?"
+ * @returns UrlState - Decoded state (empty when the version is unsupported)
+ */
+export function decodeUrlState(search: string): UrlState {
+  const params = new URLSearchParams(search);
+  const empty: UrlState = { filters: {}, view: null, selectedHotelId: null };
+
+  const version = params.get(PARAMS.version);
+  if (version === null || Number(version) !== URL_STATE_VERSION) {
+    return empty;
+  }
+
+  const filters: HotelFilters = {};
+
+  const priceRange = parseRange(params.get(PARAMS.price));
+  if (priceRange) filters.priceRange = priceRange;
+
+  const ratingRange = parseRange(params.get(PARAMS.rating));
+  if (ratingRange && ratingRange.min >= 0 && ratingRange.max <= 10) {
+    filters.ratingRange = ratingRange;
+  }
+
+  const stars = params.get(PARAMS.stars);
+  if (stars) {
+    const starRating = Array.from(new Set(stars.split('').map(Number)))
+      .filter(star => Number.isInteger(star) && star >= 1 && star <= 5);
+    if (starRating.length > 0) filters.starRating = starRating;
+  }
+
+  const amenityCodes = params.get(PARAMS.amenities);
+  if (amenityCodes) {
+    const amenities = Array.from(new Set(amenityCodes.split('')))
+      .map(code => AMENITY_BY_CODE[code])
+      .filter((amenity): amenity is Amenity => Boolean(amenity));
+    if (amenities.length > 0) filters.amenities = amenities;
+  }
+
+  const areas = params.getAll(PARAMS.area)
+    .map(decodeArea)
+    .filter((area): area is FilterArea => area !== null);
+  if (areas.length > 0) filters.areas = areas;
+
+  const bounds = params.get(PARAMS.bounds);
+  if (bounds) {
+    const box = decodeBounds(bounds);
+    if (box) filters.bounds = box;
+  }
+
+  const near = params.get(PARAMS.near);
+  if (near) {
+    const radiusFilter = decodeRadiusFilter(near);
+    if (radiusFilter) filters.near = radiusFilter;
+  }
+
+  const query = params.get(PARAMS.query);
+  if (query && query.trim()) filters.searchQuery = query.trim();
+
+  const sort = params.get(PARAMS.sort);
+  if (sort) {
+    const sortBy = SORT_BY_CODE[sort.charAt(0)];
+    if (sortBy) {
+      filters.sortBy = sortBy;
+      const sortOrder = ORDER_BY_CODE[sort.charAt(1)];
+      if (sortOrder) filters.sortOrder = sortOrder;
+    }
+  }
+
+  const poiId = params.get(PARAMS.poi);
+  if (poiId && filters.sortBy === SORT_BY.Distance && getPointOfInterest(poiId)) {
+    filters.distanceFromPoi = poiId;
+  }
+
+  const hotelId = Number(params.get(PARAMS.hotel));
+
+  return {
+    filters,
+    view: parseMapView(params.get(PARAMS.map)),
+    selectedHotelId: Number.isInteger(hotelId) && hotelId > 0 ? hotelId : null,
+  };
+}
@@ -0,0 +1,73 @@
+import type {
+  HotelWorkerMessage,
+  HotelWorkerRequestMessage,
+  HotelWorkerResponse,
+} from './hotelWorkerProtocol';
+import {
+  createHotelWorkerState,
+  setWorkerHotels,
+  runHotelWorkerRequest,
+} from './hotelWorkerHandlers';
+
+// =============================================================================
+// HOTEL WORKER
+// =============================================================================
+//
+// Requests are queued and run one per task, so a cancel message that arrives
+// while earlier work is running can still drop a request before it starts.
+
+const state = createHotelWorkerState();
+const queue: HotelWorkerRequestMessage[] = [];
+let isScheduled = false;
+
+function postResponse(response: HotelWorkerResponse): void {
+  self.postMessage(response);
+}
+
+function processNext(): void {
+  isScheduled = false;
+  const message = queue.shift();
+  if (!message) return;
+
+  try {
+    const result = runHotelWorkerRequest(state, message.type, message.payload);
+    postResponse({ id: message.id, type: message.type, ok: true, result } as HotelWorkerResponse);
+  } catch (error) {
+    postResponse({
+      id: message.id,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  scheduleNext();
+}
+
+function scheduleNext(): void {
+  if (isScheduled || queue.length === 0) return;
+  isScheduled = true;
+  setTimeout(processNext, 0);
+}
+
+self.onmessage = (event: MessageEvent<HotelWorkerMessage>) => {
+  const message = event.data;
+
+  switch (message.kind) {
+    case 'setHotels':
+      // Queued requests refer to the old dataset; the client has already rejected them
+      queue.length = 0;
+      setWorkerHotels(state, message.hotels);
+      break;
+
+    case 'cancel': {
+      const position = queue.findIndex(queued => queued.id === message.id);
+      if (position !== -1) queue.splice(position, 1);
+      break;
+    }
+
+    case 'request':
+      queue.push(message);
+      scheduleNext();
+      break;
+  }
+};
@@ -0,0 +1,247 @@
+import type { Hotel, HotelCluster, HotelFilters, Coordinates, StayDates } from '../types/index';
+import { addDistanceToHotels, getDistanceOrigin } from '../utils/dataProcessor';
+import type { ClusterTransitions } from '../utils/clusterTree';
+import type {
+  HotelWorkerMessage,
+  HotelWorkerRequestMap,
+  HotelWorkerResultMap,
+  HotelWorkerRequestType,
+  HotelWorkerResponse,
+} from './hotelWorkerProtocol';
+import {
+  createHotelWorkerState,
+  setWorkerHotels,
+  runHotelWorkerRequest,
+  type HotelWorkerState,
+} from './hotelWorkerHandlers';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ClusterLevelResult extends ClusterTransitions {
+  level: number;
+  clusters: HotelCluster[];
+  individualHotels: Hotel[];
+}
+
+export interface HotelWorkerClient {
+  /** Replace the dataset; rejects every pending request */
+  setHotels: (hotels: Hotel[]) => void;
+  /** Filter and sort the dataset, pricing hotels for the stay when given */
+  filter: (filters: HotelFilters, referencePoint?: Coordinates | null, stay?: StayDates | null) => Promise<Hotel[]>;
+  /** Count hotels matching filters without returning them */
+  countPreview: (filters: HotelFilters, stay?: StayDates | null) => Promise<number>;
+  /** Clusters shown at a zoom for a subset of the dataset */
+  getClusters: (hotels: Hotel[], zoom: number, previousLevel?: number | null) => Promise<ClusterLevelResult>;
+}
+
+interface PendingRequest {
+  channel: HotelWorkerRequestType;
+  resolve: (result: never) => void;
+  reject: (error: Error) => void;
+}
+
+// =============================================================================
+// CANCELLATION
+// =============================================================================
+
+const CANCELLED_ERROR_NAME = 'AbortError';
+
+function createCancelledError(): Error {
+  const error = new Error('Request superseded by a newer one');
+  error.name = CANCELLED_ERROR_NAME;
+  return error;
+}
+
+/**
+ * Check whether a request failed only because a newer one replaced it
+ * @param error - Rejection reason
+ * @returns boolean - Whether the error is a cancellation
+ */
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof Error && error.name === CANCELLED_ERROR_NAME;
+}
+
+// =============================================================================
+// WORKER CLIENT
+// =============================================================================
+
+function spawnWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+
+  try {
+    return new Worker(new URL('./hotelWorker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('Hotel worker unavailable, running on the main thread:', error);
+    return null;
+  }
+}
+
+/**
+ * Create a client for the hotel worker
+ * Each request type is a channel: a new request cancels the previous one on
+ * the same channel, so only the latest result is ever delivered.
+ * Falls back to running requests on the main thread where workers are unavailable.
+ * @returns HotelWorkerClient - Typed request API
+ */
+export function createHotelWorkerClient(): HotelWorkerClient {
+  let worker = spawnWorker();
+  let fallbackState: HotelWorkerState | null = worker ? null : createHotelWorkerState();
+
+  let dataset: Hotel[] = [];
+  let indexById = new Map<number, number>();
+  let nextRequestId = 1;
+  let nextSubsetId = 1;
+
+  const pending = new Map<number, PendingRequest>();
+  const latestByChannel = new Map<HotelWorkerRequestType, number>();
+  const subsetIds = new WeakMap<Hotel[], number>();
+
+  const post = (message: HotelWorkerMessage) => worker?.postMessage(message);
+
+  const cancel = (id: number) => {
+    const request = pending.get(id);
+    if (!request) return;
+
+    pending.delete(id);
+    post({ kind: 'cancel', id });
+    request.reject(createCancelledError());
+  };
+
+  const cancelAll = () => {
+    [...pending.keys()].forEach(cancel);
+    latestByChannel.clear();
+  };
+
+  const request = <K extends HotelWorkerRequestType>(
+    type: K,
+    payload: HotelWorkerRequestMap[K]
+  ): Promise<HotelWorkerResultMap[K]> => {
+    const previousId = latestByChannel.get(type);
+    if (previousId !== undefined) cancel(previousId);
+
+    if (fallbackState) {
+      try {
+        return Promise.resolve(runHotelWorkerRequest(fallbackState, type, payload));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }
+
+    const id = nextRequestId++;
+    latestByChannel.set(type, id);
+
+    return new Promise<HotelWorkerResultMap[K]>((resolve, reject) => {
+      pending.set(id, { channel: type, resolve: resolve as PendingRequest['resolve'], reject });
+      post({ kind: 'request', id, type, payload } as HotelWorkerMessage);
+    });
+  };
+
+  const handleResponse = (response: HotelWorkerResponse) => {
+    const request = pending.get(response.id);
+    if (!request) return; // Cancelled while in flight
+
+    pending.delete(response.id);
+    if (latestByChannel.get(request.channel) === response.id) {
+      latestByChannel.delete(request.channel);
+    }
+
+    if (response.ok) {
+      request.resolve(response.result as never);
+    } else {
+      request.reject(new Error(response.error));
+    }
+  };
+
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<HotelWorkerResponse>) => handleResponse(event.data);
+
+    // A broken worker should not take filtering down with it
+    worker.onerror = (event) => {
+      console.error('Hotel worker failed, falling back to the main thread:', event.message);
+      event.preventDefault();
+      worker?.terminate();
+      worker = null;
+
+      const error = new Error(event.message || 'Hotel worker failed');
+      [...pending.values()].forEach(request => request.reject(error));
+      pending.clear();
+      latestByChannel.clear();
+
+      fallbackState = createHotelWorkerState();
+      setWorkerHotels(fallbackState, dataset);
+    };
+  }
+
+  return {
+    setHotels(hotels) {
+      cancelAll();
+      dataset = hotels;
+      indexById = new Map(hotels.map((hotel, index) => [hotel.hotel_id, index]));
+
+      if (fallbackState) {
+        setWorkerHotels(fallbackState, hotels);
+      } else {
+        post({ kind: 'setHotels', hotels });
+      }
+    },
+
+    async filter(filters, referencePoint = null, stay = null) {
+      const hotels = dataset;
+      const { indices } = await request('filter', { filters, referencePoint, stay });
+      const matches = indices.map(index => hotels[index]);
+
+      // Distances are cheap to recompute and keep the payload to indices only
+      const distanceOrigin = getDistanceOrigin(filters, referencePoint);
+      return distanceOrigin ? addDistanceToHotels(matches, distanceOrigin) : matches;
+    },
+
+    async countPreview(filters, stay = null) {
+      const { count } = await request('previewCount', { filters, stay });
+      return count;
+    },
+
+    async getClusters(hotels, zoom, previousLevel = null) {
+      let subsetId = subsetIds.get(hotels);
+      if (subsetId === undefined) {
+        subsetId = nextSubsetId++;
+        subsetIds.set(hotels, subsetId);
+      }
+
+      // Hotels outside the current dataset cannot be clustered by the worker
+      const subset = hotels.filter(hotel => indexById.has(hotel.hotel_id));
+      const result = await request('clusters', {
+        subsetId,
+        indices: subset.map(hotel => indexById.get(hotel.hotel_id)!),
+        zoom,
+        previousLevel,
+      });
+
+      return {
+        level: result.level,
+        clusters: result.clusters.map(({ hotelPositions, ...cluster }) => ({
+          ...cluster,
+          hotels: hotelPositions.map(position => subset[position]),
+        })),
+        individualHotels: result.individualPositions.map(position => subset[position]),
+        enterFrom: result.enterFrom,
+        exitInto: result.exitInto,
+      };
+    },
+  };
+}
+
+// Shared client, created on first use
+let sharedClient: HotelWorkerClient | null = null;
+
+/**
+ * Get the app-wide hotel worker client
+ * @returns HotelWorkerClient - Shared client
+ */
+export function getHotelWorker(): HotelWorkerClient {
+  if (!sharedClient) {
+    sharedClient = createHotelWorkerClient();
+  }
+  return sharedClient;
+}
@@ -0,0 +1,106 @@
+import type { Hotel } from '../types/index';
+import { filterHotels } from '../utils/dataProcessor';
+import { DEFAULT_CLUSTERING_CONFIG } from '../utils/clusteringUtils';
+import { createClusterTree, getClusterTransitions, type ClusterTree } from '../utils/clusterTree';
+import type {
+  HotelWorkerRequestMap,
+  HotelWorkerResultMap,
+  HotelWorkerRequestType,
+} from './hotelWorkerProtocol';
+
+// =============================================================================
+// WORKER STATE
+// =============================================================================
+
+export interface HotelWorkerState {
+  hotels: Hotel[];
+  indexById: Map<number, number>;
+  // Tree for the most recently clustered subset
+  clusterSubset: {
+    subsetId: number;
+    tree: ClusterTree;
+    positions: Map<Hotel, number>;
+  } | null;
+}
+
+export function createHotelWorkerState(): HotelWorkerState {
+  return { hotels: [], indexById: new Map(), clusterSubset: null };
+}
+
+/**
+ * Replace the dataset that requests refer to
+ * @param state - Worker state
+ * @param hotels - All loaded hotels
+ */
+export function setWorkerHotels(state: HotelWorkerState, hotels: Hotel[]): void {
+  state.hotels = hotels;
+  state.indexById = new Map(hotels.map((hotel, index) => [hotel.hotel_id, index]));
+  state.clusterSubset = null;
+}
+
+// =============================================================================
+// REQUEST HANDLERS
+// =============================================================================
+
+type HotelWorkerHandlers = {
+  [K in HotelWorkerRequestType]: (
+    state: HotelWorkerState,
+    payload: HotelWorkerRequestMap[K]
+  ) => HotelWorkerResultMap[K];
+};
+
+const handlers: HotelWorkerHandlers = {
+  filter: (state, { filters, referencePoint, stay }) => {
+    const matches = filterHotels(state.hotels, filters, { referencePoint, stay });
+    return { indices: matches.map(hotel => state.indexById.get(hotel.hotel_id)!) };
+  },
+
+  previewCount: (state, { filters, stay }) => ({
+    count: state.hotels.length > 0 ? filterHotels(state.hotels, filters, { stay }).length : 0,
+  }),
+
+  clusters: (state, { subsetId, indices, zoom, previousLevel }) => {
+    if (state.clusterSubset?.subsetId !== subsetId) {
+      const subset = indices.map(index => state.hotels[index]).filter(Boolean);
+      state.clusterSubset = {
+        subsetId,
+        tree: createClusterTree(subset, DEFAULT_CLUSTERING_CONFIG),
+        positions: new Map(subset.map((hotel, position) => [hotel, position])),
+      };
+    }
+
+    const { tree, positions } = state.clusterSubset;
+    const level = tree.getLevel(zoom);
+    const { clusters, individualHotels } = tree.getClusters(level);
+    const { enterFrom, exitInto } = previousLevel === null
+      ? { enterFrom: {}, exitInto: {} }
+      : getClusterTransitions(tree, previousLevel, level);
+
+    return {
+      level,
+      clusters: clusters.map(({ hotels, ...cluster }) => ({
+        ...cluster,
+        hotelPositions: hotels.map(hotel => positions.get(hotel)!),
+      })),
+      individualPositions: individualHotels.map(hotel => positions.get(hotel)!),
+      enterFrom,
+      exitInto,
+    };
+  },
+};
+
+/**
+ * Run a worker request against the given state
+ * Shared by the worker and the main-thread fallback
+ * @param state - Worker state
+ * @param type - Request type
+ * @param payload - Request payload
+ * @returns Result payload for the request type
+ */
+export function runHotelWorkerRequest<K extends HotelWorkerRequestType>(
+  state: HotelWorkerState,
+  type: K,
+  payload: HotelWorkerRequestMap[K]
+): HotelWorkerResultMap[K] {
+  return handlers[type](state, payload);
+}
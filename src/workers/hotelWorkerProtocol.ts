@@ -0,0 +1,76 @@
+import type { Hotel, HotelCluster, HotelFilters, Coordinates, StayDates } from '../types/index';
+
+// =============================================================================
+// HOTEL WORKER PROTOCOL
+// =============================================================================
+//
+// Hotels are sent to the worker once; every request after that refers to them
+// by index, so results stay small and the main thread keeps its own objects.
+
+/** Request payloads by request type */
+export interface HotelWorkerRequestMap {
+  filter: {
+    filters: HotelFilters;
+    referencePoint: Coordinates | null;
+    stay: StayDates | null;
+  };
+  previewCount: {
+    filters: HotelFilters;
+    stay: StayDates | null;
+  };
+  clusters: {
+    subsetId: number;        // Identifies the hotel subset so its tree is reused
+    indices: number[];       // Dataset indices of the hotels to cluster
+    zoom: number;
+    previousLevel: number | null; // Level currently shown, for split/merge transitions
+  };
+}
+
+/** Cluster as sent over the wire, with hotels replaced by subset positions */
+export type ClusterPayload = Omit<HotelCluster, 'hotels'> & { hotelPositions: number[] };
+
+/** Result payloads by request type */
+export interface HotelWorkerResultMap {
+  filter: {
+    indices: number[];       // Dataset indices of matching hotels, in sorted order
+  };
+  previewCount: {
+    count: number;
+  };
+  clusters: {
+    level: number;
+    clusters: ClusterPayload[];
+    individualPositions: number[];
+    enterFrom: Record<string, Coordinates>;
+    exitInto: Record<string, Coordinates>;
+  };
+}
+
+export type HotelWorkerRequestType = keyof HotelWorkerRequestMap;
+
+export type HotelWorkerRequestMessage = {
+  [K in HotelWorkerRequestType]: {
+    kind: 'request';
+    id: number;
+    type: K;
+    payload: HotelWorkerRequestMap[K];
+  };
+}[HotelWorkerRequestType];
+
+/** Messages from the main thread to the worker */
+export type HotelWorkerMessage =
+  | { kind: 'setHotels'; hotels: Hotel[] }
+  | { kind: 'cancel'; id: number }
+  | HotelWorkerRequestMessage;
+
+/** Messages from the worker to the main thread */
+export type HotelWorkerResponse =
+  | {
+      [K in HotelWorkerRequestType]: {
+        id: number;
+        type: K;
+        ok: true;
+        result: HotelWorkerResultMap[K];
+      };
+    }[HotelWorkerRequestType]
+  | { id: number; ok: false; error: string };